@@ -0,0 +1,81 @@
+/**
+ * Musical timing for pipe growth. While enabled, growth ticks fall on a note grid derived from the
+ * project BPM instead of `growthInterval`, and turns and spawns can be held back to beats or bars.
+ * Durations follow the modulation convention: a division is a fraction of a 4-beat bar.
+ */
+export type BeatGrid = 'tick' | 'beat' | 'bar';
+
+export type BeatSyncSettings = {
+  enabled: boolean;
+  /** Mirrors the project BPM; the app keeps it in step with `ModulationManager.getGlobalBpm()`. */
+  bpm: number;
+  /** Note length of one growth tick as a fraction of a bar, e.g. 1/16 or 1/12 for eighth triplets. */
+  division: number;
+  /** Ticks on which pipes may leave a straight run. */
+  turnsOn: BeatGrid;
+  /** Turn on every allowed tick instead of leaving it to the turn probability. */
+  forceTurns: boolean;
+  /** Ticks on which new roots may spawn. */
+  spawnsOn: BeatGrid;
+};
+
+export const BEATS_PER_BAR = 4;
+
+export const BEAT_DIVISIONS: Record<string, number> = {
+  '1/4': 1 / 4,
+  '1/8': 1 / 8,
+  '1/8 triplet': 1 / 12,
+  '1/16': 1 / 16,
+  '1/16 triplet': 1 / 24,
+  '1/32': 1 / 32,
+};
+
+export const BEAT_GRIDS: Record<string, BeatGrid> = {
+  'Every tick': 'tick',
+  Beats: 'beat',
+  'Bars (downbeats)': 'bar',
+};
+
+export const DEFAULT_BEAT_SYNC: BeatSyncSettings = {
+  enabled: false,
+  bpm: 120,
+  division: 1 / 16,
+  turnsOn: 'beat',
+  forceTurns: false,
+  spawnsOn: 'bar',
+};
+
+export function normalizeBeatSync(value: unknown): BeatSyncSettings | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Partial<Record<keyof BeatSyncSettings, unknown>>;
+  const grid = (v: unknown, fallback: BeatGrid): BeatGrid => (v === 'tick' || v === 'beat' || v === 'bar' ? v : fallback);
+  const division = Number(raw.division);
+  return {
+    enabled: raw.enabled === true,
+    bpm: Math.max(10, Number(raw.bpm) || DEFAULT_BEAT_SYNC.bpm),
+    division: Object.values(BEAT_DIVISIONS).some((d) => Math.abs(d - division) < 1e-9) ? division : DEFAULT_BEAT_SYNC.division,
+    turnsOn: grid(raw.turnsOn, DEFAULT_BEAT_SYNC.turnsOn),
+    forceTurns: raw.forceTurns === true,
+    spawnsOn: grid(raw.spawnsOn, DEFAULT_BEAT_SYNC.spawnsOn),
+  };
+}
+
+/** Seconds per growth tick. */
+export function beatTickSeconds(settings: BeatSyncSettings): number {
+  return (60 / Math.max(10, settings.bpm)) * BEATS_PER_BAR * Math.max(1 / 64, settings.division);
+}
+
+/** Where tick `index` (counted from the start of the song) lands on the beat grid. */
+export function beatGridAt(settings: BeatSyncSettings, index: number): BeatGrid {
+  const beat = index * Math.max(1 / 64, settings.division) * BEATS_PER_BAR;
+  const whole = Math.round(beat);
+  if (Math.abs(beat - whole) > 1e-6) return 'tick';
+  return whole % BEATS_PER_BAR === 0 ? 'bar' : 'beat';
+}
+
+/** Whether a tick at `position` satisfies a `required` grid; bars count as beats too. */
+export function onBeatGrid(required: BeatGrid, position: BeatGrid): boolean {
+  if (required === 'tick') return true;
+  if (required === 'beat') return position !== 'tick';
+  return position === 'bar';
+}
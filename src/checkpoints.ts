@@ -0,0 +1,64 @@
+/**
+ * Scene checkpoints keyed by fixed-step frame number. Seeking restores the closest checkpoint at
+ * or before the requested frame and fast-forwards from there, so scrubbing back and forth only
+ * ever replays a bounded number of steps.
+ */
+export class CheckpointStore<T> {
+  private frames: number[] = [];
+  private snapshots = new Map<number, T>();
+  readonly intervalFrames: number;
+  readonly maxCheckpoints: number;
+
+  constructor(intervalFrames: number, maxCheckpoints = 600) {
+    this.intervalFrames = Math.max(1, Math.floor(intervalFrames));
+    this.maxCheckpoints = Math.max(1, Math.floor(maxCheckpoints));
+  }
+
+  get size() {
+    return this.frames.length;
+  }
+
+  /** True when `frame` falls on the checkpoint grid and has not been captured yet. */
+  wants(frame: number) {
+    return frame % this.intervalFrames === 0 && !this.snapshots.has(frame);
+  }
+
+  record(frame: number, snapshot: T) {
+    if (!this.snapshots.has(frame)) {
+      const idx = this.insertionIndex(frame);
+      this.frames.splice(idx, 0, frame);
+    }
+    this.snapshots.set(frame, snapshot);
+    // Keep frame 0 forever; drop the oldest later checkpoints once the budget is exceeded.
+    while (this.frames.length > this.maxCheckpoints) {
+      const dropIdx = this.frames[0] === 0 && this.frames.length > 1 ? 1 : 0;
+      const [dropped] = this.frames.splice(dropIdx, 1);
+      this.snapshots.delete(dropped);
+    }
+  }
+
+  /** Latest checkpoint at or before `frame`, if any. */
+  nearest(frame: number): { frame: number; snapshot: T } | null {
+    const idx = this.insertionIndex(frame + 1) - 1;
+    if (idx < 0) return null;
+    const found = this.frames[idx];
+    const snapshot = this.snapshots.get(found);
+    return snapshot === undefined ? null : { frame: found, snapshot };
+  }
+
+  clear() {
+    this.frames = [];
+    this.snapshots.clear();
+  }
+
+  private insertionIndex(frame: number) {
+    let lo = 0;
+    let hi = this.frames.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.frames[mid] < frame) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
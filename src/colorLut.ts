@@ -0,0 +1,138 @@
+import { ClampToEdgeWrapping, Data3DTexture, LinearFilter, RGBAFormat, UnsignedByteType } from 'three';
+
+/**
+ * A 3D color lookup table as read from an Adobe/Resolve `.cube` file: `size`³ RGB entries with red
+ * changing fastest, stored as bytes so a 65³ table embeds in a project as about 1 MB of base64.
+ */
+export type ColorLut = {
+  name: string;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  /** `size`³ × RGB, 0–255. */
+  data: Uint8Array;
+};
+
+/** How a LUT is stored in a project file. */
+export type ProjectColorLut = {
+  name: string;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  /** Base64 of the RGB bytes. */
+  data: string;
+};
+
+const MIN_SIZE = 2;
+const MAX_SIZE = 256;
+
+export async function loadCubeLutFile(file: File): Promise<ColorLut> {
+  return parseCubeLut(await file.text(), file.name.replace(/\.[^.]+$/, '') || 'lut');
+}
+
+/** Parses a `.cube` file; 1D LUTs and files whose entry count does not match the size are rejected. */
+export function parseCubeLut(text: string, name = 'lut'): ColorLut {
+  let size = 0;
+  let title: string | null = null;
+  const domainMin: [number, number, number] = [0, 0, 0];
+  const domainMax: [number, number, number] = [1, 1, 1];
+  let data: Uint8Array | null = null;
+  let count = 0;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [keyword, ...rest] = line.split(/\s+/);
+    if (keyword === 'TITLE') {
+      title = line.slice(5).trim().replace(/^"|"$/g, '') || null;
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D .cube LUTs are not supported');
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = Number(rest[0]);
+      if (!Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE) throw new Error(`Invalid LUT_3D_SIZE: ${rest[0]}`);
+      data = new Uint8Array(size ** 3 * 3);
+    } else if (keyword === 'DOMAIN_MIN' || keyword === 'DOMAIN_MAX') {
+      const target = keyword === 'DOMAIN_MIN' ? domainMin : domainMax;
+      for (let i = 0; i < 3; i++) target[i] = Number(rest[i]);
+    } else if (/^[-+.\d]/.test(keyword)) {
+      if (!data) throw new Error('LUT data before LUT_3D_SIZE');
+      if (count >= data.length) throw new Error('Too many LUT entries');
+      for (const value of [keyword, rest[0], rest[1]]) {
+        const v = Number(value);
+        if (!Number.isFinite(v)) throw new Error(`Invalid LUT entry: ${line}`);
+        data[count++] = Math.round(Math.min(1, Math.max(0, v)) * 255);
+      }
+    }
+  }
+  if (!data) throw new Error('Missing LUT_3D_SIZE');
+  if (count !== data.length) throw new Error(`Expected ${size ** 3} LUT entries, found ${count / 3}`);
+  if (domainMin.some((v, i) => !Number.isFinite(v) || v >= domainMax[i])) throw new Error('Invalid LUT domain');
+  return { name: title ?? name, size, domainMin, domainMax, data };
+}
+
+/** A clamp-to-edge, linearly filtered texture for the grading shader. */
+export function createLutTexture(lut: ColorLut): Data3DTexture {
+  const rgba = new Uint8Array(lut.size ** 3 * 4);
+  for (let i = 0, j = 0; i < lut.data.length; i += 3, j += 4) {
+    rgba[j] = lut.data[i];
+    rgba[j + 1] = lut.data[i + 1];
+    rgba[j + 2] = lut.data[i + 2];
+    rgba[j + 3] = 255;
+  }
+  const texture = new Data3DTexture(rgba, lut.size, lut.size, lut.size);
+  texture.format = RGBAFormat;
+  texture.type = UnsignedByteType;
+  texture.minFilter = LinearFilter;
+  texture.magFilter = LinearFilter;
+  texture.wrapS = ClampToEdgeWrapping;
+  texture.wrapT = ClampToEdgeWrapping;
+  texture.wrapR = ClampToEdgeWrapping;
+  texture.unpackAlignment = 1;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/** The 2³ table that leaves colors unchanged; it stands in for an empty LUT slot. */
+export function identityLut(): ColorLut {
+  const data = new Uint8Array(8 * 3);
+  for (let i = 0; i < 8; i++) {
+    data[i * 3] = (i & 1) * 255;
+    data[i * 3 + 1] = ((i >> 1) & 1) * 255;
+    data[i * 3 + 2] = ((i >> 2) & 1) * 255;
+  }
+  return { name: '(none)', size: 2, domainMin: [0, 0, 0], domainMax: [1, 1, 1], data };
+}
+
+export function encodeColorLut(lut: ColorLut): ProjectColorLut {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < lut.data.length; i += CHUNK) {
+    binary += String.fromCharCode(...lut.data.subarray(i, i + CHUNK));
+  }
+  return { name: lut.name, size: lut.size, domainMin: [...lut.domainMin], domainMax: [...lut.domainMax], data: btoa(binary) };
+}
+
+/** Reads a LUT saved by `encodeColorLut`; anything malformed comes back as null. */
+export function decodeColorLut(value: unknown): ColorLut | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const saved = value as Partial<ProjectColorLut>;
+  const size = Number(saved.size);
+  if (!Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE || typeof saved.data !== 'string') return null;
+  let binary: string;
+  try {
+    binary = atob(saved.data);
+  } catch {
+    return null;
+  }
+  if (binary.length !== size ** 3 * 3) return null;
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+  const triple = (v: unknown, fallback: number): [number, number, number] =>
+    Array.isArray(v) && v.length === 3 && v.every(Number.isFinite) ? [v[0], v[1], v[2]] : [fallback, fallback, fallback];
+  return {
+    name: typeof saved.name === 'string' ? saved.name : 'lut',
+    size,
+    domainMin: triple(saved.domainMin, 0),
+    domainMax: triple(saved.domainMax, 1),
+    data,
+  };
+}
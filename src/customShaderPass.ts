@@ -0,0 +1,191 @@
+import { ShaderMaterial, Vector2, WebGLRenderTarget, type IUniform, type WebGLRenderer } from 'three';
+import { FullScreenQuad, Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+
+/**
+ * A post pass running a fragment shader typed in by the user, shaped like the bundled ones
+ * (`PrismWarpShader`, `FlowmapAdvectionShader`): it samples `tDiffuse` at `vUv` and may read
+ * `time` and `resolution`. Float uniforms annotated with `// @range min max [default]` become
+ * sliders and modulation targets.
+ */
+export type CustomShaderUniform = { name: string; min: number; max: number; value: number };
+
+export const DEFAULT_CUSTOM_SHADER = `uniform sampler2D tDiffuse;
+uniform float time;
+uniform vec2 resolution;
+uniform float amount; // @range 0 1 0.5
+uniform float rings; // @range 1 40 12
+uniform float hueSpeed; // @range 0 4 0.5
+
+varying vec2 vUv;
+
+void main() {
+  vec2 p = vUv * 2.0 - 1.0;
+  p.x *= resolution.x / max(resolution.y, 1.0);
+  float ring = 0.5 + 0.5 * sin(length(p) * rings - time * hueSpeed * 6.2831853);
+  vec4 color = texture2D(tDiffuse, vUv);
+  vec3 tint = 0.5 + 0.5 * cos(6.2831853 * (vec3(0.0, 0.33, 0.67) + ring + time * hueSpeed * 0.1));
+  gl_FragColor = vec4(mix(color.rgb, color.rgb * tint * 1.5, amount * ring), color.a);
+}
+`;
+
+const VERTEX_SHADER = /* glsl */ `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+// Shown until a source compiles, so a broken first shader passes the frame through instead of blanking it.
+const PASS_THROUGH_SHADER = /* glsl */ `
+  uniform sampler2D tDiffuse;
+  varying vec2 vUv;
+
+  void main() {
+    gl_FragColor = texture2D(tDiffuse, vUv);
+  }
+`;
+
+const NUMBER = '[-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][-+]?\\d+)?';
+const ANNOTATED_FLOAT = new RegExp(
+  `^\\s*uniform\\s+(?:(?:lowp|mediump|highp)\\s+)?float\\s+(\\w+)\\s*;\\s*//\\s*@range\\s+(${NUMBER})\\s+(${NUMBER})(?:\\s+(${NUMBER}))?`,
+  'gm'
+);
+const BUILT_IN_UNIFORMS = new Set(['tDiffuse', 'time', 'resolution']);
+
+// What three's WebGLProgram records on first use while `renderer.debug.checkShaderErrors` is on.
+type ProgramDiagnostics = {
+  runnable: boolean;
+  programLog: string;
+  vertexShader: { log: string; prefix: string };
+  fragmentShader: { log: string; prefix: string };
+};
+
+/** Annotated float uniforms in declaration order; the default is clamped into the range and falls back to `min`. */
+export function parseCustomShaderUniforms(source: string): CustomShaderUniform[] {
+  const uniforms: CustomShaderUniform[] = [];
+  for (const match of source.matchAll(ANNOTATED_FLOAT)) {
+    const name = match[1];
+    if (BUILT_IN_UNIFORMS.has(name) || uniforms.some((u) => u.name === name)) continue;
+    const a = Number(match[2]);
+    const b = Number(match[3]);
+    const min = Math.min(a, b);
+    const max = Math.max(a, b);
+    const value = match[4] === undefined ? min : Math.min(max, Math.max(min, Number(match[4])));
+    uniforms.push({ name, min, max, value });
+  }
+  return uniforms;
+}
+
+export class CustomShaderPass extends Pass {
+  /** Scene time in seconds, fed to the shader's `time` uniform. */
+  time = 0;
+  /** Driver log of the last source that failed to compile, with user line numbers; empty while it runs. */
+  error = '';
+  /** Called after every compile attempt, whether or not the source was accepted. */
+  onCompile: ((pass: CustomShaderPass) => void) | null = null;
+  private values: Record<string, number> = {};
+  private resolution = new Vector2(1, 1);
+  private material: ShaderMaterial;
+  private quad: FullScreenQuad;
+  private probe = new WebGLRenderTarget(1, 1);
+  // Last source handed to `compile`, accepted or not, so a broken source is not retried every sync.
+  private attempted: string | null = null;
+  private pending: string | null;
+
+  constructor(source: string) {
+    super();
+    this.material = this.createMaterial(PASS_THROUGH_SHADER, []);
+    this.quad = new FullScreenQuad(this.material);
+    this.pending = source;
+  }
+
+  /** Queues `source`; it is compiled by `compile` or on the next render. */
+  setSource(source: string) {
+    if (source === (this.pending ?? this.attempted)) return;
+    this.pending = source;
+  }
+
+  /** Slider values by uniform name; uniforms missing here keep their annotated default. */
+  setValues(values: Record<string, number>) {
+    this.values = values;
+  }
+
+  /**
+   * Compiles a queued source by drawing it once off screen, since three only checks programs on
+   * first use. A failing source leaves the last working shader (or a pass-through) in place.
+   */
+  compile(renderer: WebGLRenderer) {
+    const source = this.pending;
+    if (source === null) return;
+    this.pending = null;
+    this.attempted = source;
+    const candidate = this.createMaterial(source, parseCustomShaderUniforms(source));
+    const previousTarget = renderer.getRenderTarget();
+    renderer.setRenderTarget(this.probe);
+    this.quad.material = candidate;
+    this.quad.render(renderer);
+    renderer.setRenderTarget(previousTarget);
+
+    const properties = renderer.properties.get(candidate) as { currentProgram?: { diagnostics?: ProgramDiagnostics } };
+    const diagnostics = properties.currentProgram?.diagnostics;
+    if (diagnostics && !diagnostics.runnable) {
+      const log = diagnostics.fragmentShader.log || diagnostics.vertexShader.log || diagnostics.programLog;
+      // Driver line numbers count three's prefix (plus its #version line) ahead of the user's source.
+      const prefixLines = diagnostics.fragmentShader.prefix.split('\n').length;
+      this.error = (log || 'Shader failed to compile.').replace(
+        /ERROR: 0:(\d+):/g,
+        (_: string, line: string) => `ERROR: line ${Number(line) - prefixLines}:`
+      );
+      candidate.dispose();
+      this.quad.material = this.material;
+    } else {
+      this.material.dispose();
+      this.material = candidate;
+      this.error = '';
+    }
+    this.onCompile?.(this);
+  }
+
+  setSize(width: number, height: number) {
+    this.resolution.set(width, height);
+  }
+
+  render(renderer: WebGLRenderer, writeBuffer: WebGLRenderTarget, readBuffer: WebGLRenderTarget) {
+    this.compile(renderer);
+    const uniforms = this.material.uniforms;
+    uniforms.tDiffuse.value = readBuffer.texture;
+    uniforms.time.value = this.time;
+    uniforms.resolution.value.copy(this.resolution);
+    for (const name in uniforms) {
+      const value = this.values[name];
+      if (!BUILT_IN_UNIFORMS.has(name) && typeof value === 'number') uniforms[name].value = value;
+    }
+    this.quad.material = this.material;
+    if (this.renderToScreen) {
+      renderer.setRenderTarget(null);
+      this.quad.render(renderer);
+    } else {
+      renderer.setRenderTarget(writeBuffer);
+      if (this.clear) renderer.clear(renderer.autoClearColor, renderer.autoClearDepth, renderer.autoClearStencil);
+      this.quad.render(renderer);
+    }
+  }
+
+  dispose() {
+    this.material.dispose();
+    this.quad.dispose();
+    this.probe.dispose();
+  }
+
+  private createMaterial(fragmentShader: string, floats: CustomShaderUniform[]) {
+    const uniforms: Record<string, IUniform> = {
+      tDiffuse: { value: null },
+      time: { value: 0 },
+      resolution: { value: new Vector2(1, 1) },
+    };
+    for (const uniform of floats) uniforms[uniform.name] = { value: uniform.value };
+    return new ShaderMaterial({ name: 'CustomShader', uniforms, vertexShader: VERTEX_SHADER, fragmentShader });
+  }
+}
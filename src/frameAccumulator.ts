@@ -0,0 +1,187 @@
+import {
+  Color,
+  CustomBlending,
+  HalfFloatType,
+  NearestFilter,
+  OneFactor,
+  ShaderMaterial,
+  Vector2,
+  WebGLRenderTarget,
+  type Texture,
+  type WebGLRenderer,
+} from 'three';
+import { FullScreenQuad } from 'three/examples/jsm/postprocessing/Pass.js';
+
+export const SUPERSAMPLE_FACTORS = [1, 2, 4] as const;
+export type SupersampleFactor = (typeof SUPERSAMPLE_FACTORS)[number];
+
+/** Offline render quality; one sub-step at 1x is the plain one-render-per-frame capture. */
+export type CaptureQuality = {
+  /** Scene steps rendered and averaged per output frame. */
+  subframes: number;
+  /** Degrees of the 360° frame interval the shutter stays open; 180 is the film default. */
+  shutterAngle: number;
+  /** The composer renders at this multiple of the output size and is box-filtered down. */
+  supersample: SupersampleFactor;
+};
+
+export const DEFAULT_CAPTURE_QUALITY: CaptureQuality = { subframes: 1, shutterAngle: 180, supersample: 1 };
+
+export const MAX_SUBFRAMES = 64;
+
+export function normalizeCaptureQuality(value: unknown): CaptureQuality | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Partial<Record<keyof CaptureQuality, unknown>>;
+  const subframes = Math.round(Number(raw.subframes));
+  const shutterAngle = Number(raw.shutterAngle);
+  const supersample = Number(raw.supersample);
+  return {
+    subframes: Number.isFinite(subframes) ? Math.min(MAX_SUBFRAMES, Math.max(1, subframes)) : 1,
+    shutterAngle: Number.isFinite(shutterAngle) ? Math.min(360, Math.max(1, shutterAngle)) : 180,
+    supersample: (SUPERSAMPLE_FACTORS as readonly number[]).includes(supersample) ? (supersample as SupersampleFactor) : 1,
+  };
+}
+
+/**
+ * Splits one frame of `frameDt` seconds into the scene steps that precede each sub-frame render.
+ * The shutter closes on the frame's own time, so the last sample lands where a plain capture would
+ * render, and the first step also covers the closed part of the interval. The steps always add up
+ * to `frameDt`, so the scene clock stays on the capture grid.
+ */
+export function shutterSubsteps(frameDt: number, subframes: number, shutterAngle: number): number[] {
+  const count = Math.max(1, Math.round(subframes));
+  const open = frameDt * Math.min(1, Math.max(0, shutterAngle / 360));
+  const step = open / count;
+  const steps = new Array<number>(count).fill(step);
+  steps[0] = frameDt - open + step;
+  return steps;
+}
+
+const VERTEX_SHADER = /* glsl */ `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+/**
+ * Averages composer frames in a half-float buffer and resolves them to the canvas. Frames are
+ * summed in linear light, decoding sRGB output first, so blurred and downsampled edges keep
+ * their brightness instead of darkening the way averaged gamma-encoded values do.
+ */
+export class FrameAccumulator {
+  private target = new WebGLRenderTarget(1, 1, {
+    type: HalfFloatType,
+    minFilter: NearestFilter,
+    magFilter: NearestFilter,
+    depthBuffer: false,
+  });
+  private accumulateMaterial = new ShaderMaterial({
+    name: 'FrameAccumulate',
+    uniforms: { tDiffuse: { value: null }, weight: { value: 1 }, decodeSrgb: { value: true } },
+    vertexShader: VERTEX_SHADER,
+    fragmentShader: /* glsl */ `
+      uniform sampler2D tDiffuse;
+      uniform float weight;
+      uniform bool decodeSrgb;
+      varying vec2 vUv;
+
+      void main() {
+        vec4 color = texture2D(tDiffuse, vUv);
+        if (decodeSrgb) color = sRGBTransferEOTF(color);
+        gl_FragColor = color * weight;
+      }
+    `,
+    blending: CustomBlending,
+    blendSrc: OneFactor,
+    blendDst: OneFactor,
+    depthTest: false,
+    depthWrite: false,
+  });
+  private resolveMaterial = new ShaderMaterial({
+    name: 'FrameResolve',
+    uniforms: {
+      tDiffuse: { value: null },
+      factor: { value: 1 },
+      outputSize: { value: new Vector2(1, 1) },
+      encodeSrgb: { value: true },
+    },
+    vertexShader: VERTEX_SHADER,
+    fragmentShader: /* glsl */ `
+      uniform sampler2D tDiffuse;
+      uniform int factor;
+      uniform vec2 outputSize;
+      uniform bool encodeSrgb;
+
+      void main() {
+        // A box filter: one nearest tap at the center of every source texel under this pixel.
+        vec2 pixel = floor(gl_FragCoord.xy);
+        vec4 sum = vec4(0.0);
+        for (int y = 0; y < 4; y++) {
+          for (int x = 0; x < 4; x++) {
+            if (x >= factor || y >= factor) continue;
+            vec2 tap = pixel + (vec2(float(x), float(y)) + 0.5) / float(factor);
+            sum += texture2D(tDiffuse, tap / outputSize);
+          }
+        }
+        vec4 color = sum / float(factor * factor);
+        gl_FragColor = encodeSrgb ? sRGBTransferOETF(color) : color;
+      }
+    `,
+    depthTest: false,
+    depthWrite: false,
+  });
+  private quad = new FullScreenQuad(this.accumulateMaterial);
+  private clearColor = new Color();
+
+  /** Matches the buffer to the frames about to be added (the composer's targets) and clears it. */
+  begin(renderer: WebGLRenderer, width: number, height: number) {
+    if (this.target.width !== width || this.target.height !== height) this.target.setSize(width, height);
+    const previousTarget = renderer.getRenderTarget();
+    const previousAlpha = renderer.getClearAlpha();
+    renderer.getClearColor(this.clearColor);
+    renderer.setRenderTarget(this.target);
+    renderer.setClearColor(0x000000, 0);
+    renderer.clear(true, false, false);
+    renderer.setClearColor(this.clearColor, previousAlpha);
+    renderer.setRenderTarget(previousTarget);
+  }
+
+  /** Adds `texture` scaled by `weight`; weights of one output frame should sum to 1. */
+  add(renderer: WebGLRenderer, texture: Texture, weight: number, srgb: boolean) {
+    const uniforms = this.accumulateMaterial.uniforms;
+    uniforms.tDiffuse.value = texture;
+    uniforms.weight.value = weight;
+    uniforms.decodeSrgb.value = srgb;
+    const previousTarget = renderer.getRenderTarget();
+    const previousAutoClear = renderer.autoClear;
+    // Blending adds onto what is there, so the draw must not clear the buffer first.
+    renderer.autoClear = false;
+    renderer.setRenderTarget(this.target);
+    this.quad.material = this.accumulateMaterial;
+    this.quad.render(renderer);
+    renderer.setRenderTarget(previousTarget);
+    renderer.autoClear = previousAutoClear;
+  }
+
+  /** Draws the average to the canvas, `factor`×`factor` buffer texels per canvas pixel (at most 4). */
+  resolve(renderer: WebGLRenderer, factor: number, srgb: boolean) {
+    const uniforms = this.resolveMaterial.uniforms;
+    uniforms.tDiffuse.value = this.target.texture;
+    uniforms.factor.value = Math.min(4, Math.max(1, Math.round(factor)));
+    uniforms.outputSize.value.set(this.target.width / uniforms.factor.value, this.target.height / uniforms.factor.value);
+    uniforms.encodeSrgb.value = srgb;
+    renderer.setRenderTarget(null);
+    this.quad.material = this.resolveMaterial;
+    this.quad.render(renderer);
+  }
+
+  dispose() {
+    this.target.dispose();
+    this.accumulateMaterial.dispose();
+    this.resolveMaterial.dispose();
+    this.quad.dispose();
+  }
+}
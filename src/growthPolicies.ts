@@ -0,0 +1,258 @@
+import type { Rng } from './random';
+import type { Vec3 } from './simulation';
+
+export const GROWTH_POLICY_IDS = ['randomWalk', 'wallHug', 'attractor', 'lookahead', 'longestStraight'] as const;
+export type GrowthPolicyId = (typeof GROWTH_POLICY_IDS)[number];
+
+export function normalizeGrowthPolicyId(value: unknown): GrowthPolicyId | null {
+  return (GROWTH_POLICY_IDS as readonly unknown[]).includes(value) ? (value as GrowthPolicyId) : null;
+}
+
+/**
+ * Tunables for every policy, kept flat and numeric so each one can be a GUI slider and a
+ * modulation target. Policies ignore the parameters that belong to the others.
+ */
+export type GrowthPolicyParams = {
+  /** Wall hugging: chance (0..1) to pick the neighbour touching the most walls/pipes. */
+  wallHugStrength: number;
+  /** Attractor: chance (0..1) to step toward the attractor instead of wandering. */
+  attractorStrength: number;
+  /** Attractor center in normalized grid coordinates (0..1 per axis). */
+  attractorX: number;
+  attractorY: number;
+  attractorZ: number;
+  /** Attractor orbit around the vertical axis, as a fraction of the grid, and its speed in rad/s. */
+  attractorOrbitRadius: number;
+  attractorOrbitSpeed: number;
+  /** Lookahead: how many free cells a move must reach (flood fill) to not count as a dead end. */
+  lookaheadDepth: number;
+  /** Longest straight run: chance (0..1) to head toward the longest free corridor. */
+  straightBias: number;
+};
+
+export const DEFAULT_GROWTH_PARAMS: GrowthPolicyParams = {
+  wallHugStrength: 0.8,
+  attractorStrength: 0.6,
+  attractorX: 0.5,
+  attractorY: 0.5,
+  attractorZ: 0.5,
+  attractorOrbitRadius: 0.3,
+  attractorOrbitSpeed: 0.4,
+  lookaheadDepth: 48,
+  straightBias: 0.7,
+};
+
+export type GrowthParamSpec = {
+  key: keyof GrowthPolicyParams;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+};
+
+export const GROWTH_POLICIES: Record<GrowthPolicyId, { label: string; params: GrowthParamSpec[] }> = {
+  randomWalk: { label: 'Random walk', params: [] },
+  wallHug: {
+    label: 'Wall hugging',
+    params: [{ key: 'wallHugStrength', label: 'Hug strength', min: 0, max: 1, step: 0.01 }],
+  },
+  attractor: {
+    label: 'Attractor',
+    params: [
+      { key: 'attractorStrength', label: 'Pull strength', min: 0, max: 1, step: 0.01 },
+      { key: 'attractorX', label: 'Attractor X', min: 0, max: 1, step: 0.01 },
+      { key: 'attractorY', label: 'Attractor Y', min: 0, max: 1, step: 0.01 },
+      { key: 'attractorZ', label: 'Attractor Z', min: 0, max: 1, step: 0.01 },
+      { key: 'attractorOrbitRadius', label: 'Orbit radius', min: 0, max: 0.5, step: 0.01 },
+      { key: 'attractorOrbitSpeed', label: 'Orbit speed', min: -4, max: 4, step: 0.01 },
+    ],
+  },
+  lookahead: {
+    label: 'Lookahead (avoid dead ends)',
+    params: [{ key: 'lookaheadDepth', label: 'Lookahead cells', min: 1, max: 512, step: 1 }],
+  },
+  longestStraight: {
+    label: 'Longest straight run',
+    params: [{ key: 'straightBias', label: 'Straight bias', min: 0, max: 1, step: 0.01 }],
+  },
+};
+
+export type GrowthContext = {
+  readonly dims: Vec3;
+  readonly rng: Rng;
+  readonly turnProbability: number;
+  readonly params: GrowthPolicyParams;
+  /** Simulation time in seconds, for policies that animate (the attractor). */
+  readonly time: number;
+  isFree: (cell: Vec3) => boolean;
+  /**
+   * Maps a probed cell to the one it lands on; on a wrap-around grid `head + dir` may step past a
+   * face, so cells are wrapped before they are compared or keyed. Identity on a walled grid.
+   */
+  wrapCell: (cell: Vec3) => Vec3;
+};
+
+/**
+ * Chooses the next head cell among the free neighbours. `straight` is the option continuing the
+ * previous direction, when it is free.
+ */
+export type GrowthPolicy = (options: Vec3[], straight: Vec3 | undefined, head: Vec3, ctx: GrowthContext) => Vec3;
+
+const NEIGHBOURS: readonly Vec3[] = [
+  { x: 1, y: 0, z: 0 },
+  { x: -1, y: 0, z: 0 },
+  { x: 0, y: 1, z: 0 },
+  { x: 0, y: -1, z: 0 },
+  { x: 0, y: 0, z: 1 },
+  { x: 0, y: 0, z: -1 },
+];
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+const isSame = (a: Vec3, b: Vec3) => a.x === b.x && a.y === b.y && a.z === b.z;
+
+/** The original behaviour: keep going straight unless a turn is rolled, then pick any free neighbour. */
+export const randomWalk: GrowthPolicy = (options, straight, _head, ctx) => {
+  if (straight && options.length > 1) {
+    const shouldGoStraight = ctx.rng() > clamp01(ctx.turnProbability);
+    if (shouldGoStraight) return straight;
+
+    const pick = Math.floor(ctx.rng() * (options.length - 1));
+    let k = 0;
+    for (const option of options) {
+      if (isSame(option, straight)) continue;
+      if (k === pick) return option;
+      k++;
+    }
+  }
+
+  const idx = Math.floor(ctx.rng() * options.length);
+  return options[idx];
+};
+
+/**
+ * Keeps the best-scoring options (ties included) and lets the random walk choose among them, so
+ * straight runs and turn probability still shape the path within the policy's preference.
+ */
+function pickBest(
+  options: Vec3[],
+  straight: Vec3 | undefined,
+  head: Vec3,
+  ctx: GrowthContext,
+  score: (cell: Vec3) => number
+): Vec3 {
+  let best = -Infinity;
+  let bestOptions: Vec3[] = [];
+  for (const option of options) {
+    const value = score(option);
+    if (value > best + 1e-9) {
+      best = value;
+      bestOptions = [option];
+    } else if (Math.abs(value - best) <= 1e-9) {
+      bestOptions.push(option);
+    }
+  }
+  const keptStraight = straight && bestOptions.some((o) => isSame(o, straight)) ? straight : undefined;
+  return randomWalk(bestOptions, keptStraight, head, ctx);
+}
+
+const wallHug: GrowthPolicy = (options, straight, head, ctx) => {
+  if (ctx.rng() >= clamp01(ctx.params.wallHugStrength)) return randomWalk(options, straight, head, ctx);
+  const scratch = { x: 0, y: 0, z: 0 };
+  return pickBest(options, straight, head, ctx, (cell) => {
+    // Blocked neighbours include the room boundary, so pipes crawl along walls and along each other.
+    let blocked = 0;
+    for (const dir of NEIGHBOURS) {
+      scratch.x = cell.x + dir.x;
+      scratch.y = cell.y + dir.y;
+      scratch.z = cell.z + dir.z;
+      if (!isSame(ctx.wrapCell(scratch), head) && !ctx.isFree(scratch)) blocked++;
+    }
+    return blocked;
+  });
+};
+
+export function attractorCell(ctx: Pick<GrowthContext, 'dims' | 'params' | 'time'>): Vec3 {
+  const { dims, params, time } = ctx;
+  const angle = time * params.attractorOrbitSpeed;
+  const radius = Math.max(0, params.attractorOrbitRadius);
+  return {
+    x: (clamp01(params.attractorX) + Math.cos(angle) * radius) * (dims.x - 1),
+    y: clamp01(params.attractorY) * (dims.y - 1),
+    z: (clamp01(params.attractorZ) + Math.sin(angle) * radius) * (dims.z - 1),
+  };
+}
+
+const attractor: GrowthPolicy = (options, straight, head, ctx) => {
+  if (ctx.rng() >= clamp01(ctx.params.attractorStrength)) return randomWalk(options, straight, head, ctx);
+  const target = attractorCell(ctx);
+  return pickBest(options, straight, head, ctx, (cell) => {
+    const dx = cell.x - target.x;
+    const dy = cell.y - target.y;
+    const dz = cell.z - target.z;
+    return -(dx * dx + dy * dy + dz * dz);
+  });
+};
+
+/** Counts free cells reachable from `start` (which must be free), stopping once `limit` is hit. */
+function floodFillCount(start: Vec3, blocked: Vec3, limit: number, ctx: GrowthContext): number {
+  const { dims } = ctx;
+  const key = (c: Vec3) => c.x + c.y * dims.x + c.z * dims.x * dims.y;
+  const first = ctx.wrapCell(start);
+  const seen = new Set<number>([key(ctx.wrapCell(blocked)), key(first)]);
+  const queue: Vec3[] = [first];
+  let count = 0;
+  for (let qi = 0; qi < queue.length && count < limit; qi++) {
+    const cell = queue[qi];
+    count++;
+    for (const dir of NEIGHBOURS) {
+      // Wrapped first, so a cell reached across a seam is keyed (and counted) once.
+      const next = ctx.wrapCell({ x: cell.x + dir.x, y: cell.y + dir.y, z: cell.z + dir.z });
+      if (!ctx.isFree(next)) continue;
+      const k = key(next);
+      if (seen.has(k)) continue;
+      seen.add(k);
+      queue.push(next);
+    }
+  }
+  return count;
+}
+
+const lookahead: GrowthPolicy = (options, straight, head, ctx) => {
+  if (options.length === 1) return options[0];
+  const limit = Math.max(1, Math.floor(ctx.params.lookaheadDepth));
+  // Any move with enough room ahead is as good as any other; only pockets smaller than the limit rank lower.
+  return pickBest(options, straight, head, ctx, (cell) => floodFillCount(cell, head, limit, ctx));
+};
+
+const longestStraight: GrowthPolicy = (options, straight, head, ctx) => {
+  if (ctx.rng() >= clamp01(ctx.params.straightBias)) return randomWalk(options, straight, head, ctx);
+  const probe = { x: 0, y: 0, z: 0 };
+  return pickBest(options, straight, head, ctx, (cell) => {
+    const dx = cell.x - head.x;
+    const dy = cell.y - head.y;
+    const dz = cell.z - head.z;
+    let run = 1;
+    probe.x = cell.x + dx;
+    probe.y = cell.y + dy;
+    probe.z = cell.z + dz;
+    while (ctx.isFree(probe)) {
+      run++;
+      probe.x += dx;
+      probe.y += dy;
+      probe.z += dz;
+    }
+    return run;
+  });
+};
+
+const POLICIES: Record<GrowthPolicyId, GrowthPolicy> = {
+  randomWalk,
+  wallHug,
+  attractor,
+  lookahead,
+  longestStraight,
+};
+
+export function getGrowthPolicy(id: GrowthPolicyId | undefined): GrowthPolicy {
+  return (id && POLICIES[id]) || randomWalk;
+}
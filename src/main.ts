@@ -1,27 +1,27 @@
 import './style.css';
 import {
-  ACESFilmicToneMapping,
   BoxGeometry,
   BufferGeometry,
   CylinderGeometry,
   BufferAttribute,
   DynamicDrawUsage,
-  CatmullRomCurve3,
   Color,
   EdgesGeometry,
   AdditiveBlending,
   LineBasicMaterial,
   LineSegments,
   InstancedBufferAttribute,
+  InstancedBufferGeometry,
   InstancedMesh,
   Matrix4,
+  Material,
   Mesh,
   MeshBasicMaterial,
+  MeshDepthMaterial,
   MeshPhysicalMaterial,
   PerspectiveCamera,
   PointLight,
   Scene,
-  SRGBColorSpace,
   SphereGeometry,
   Group,
   Vector3,
@@ -29,6 +29,8 @@ import {
   WebGLRenderer,
   DoubleSide,
   Quaternion,
+  RGBADepthPacking,
+  NoBlending,
 } from 'three';
 import { Reflector } from 'three/examples/jsm/objects/Reflector.js';
 import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass.js';
@@ -39,17 +41,31 @@ import { FilmPass } from 'three/examples/jsm/postprocessing/FilmPass.js';
 import { FXAAPass } from 'three/examples/jsm/postprocessing/FXAAPass.js';
 import { SMAAPass } from 'three/examples/jsm/postprocessing/SMAAPass.js';
 import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import type { Pass } from 'three/examples/jsm/postprocessing/Pass.js';
 import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
 import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
 import GUI from 'lil-gui';
-import { ModulationManager } from './modulation';
+import { ModulationManager, type ModulationRuntimeSnapshot } from './modulation';
 import { initTimeline, type RenderSchedule } from './timeline';
 import { PROJECT_VERSION, stringifyProjectFile, type ProjectFile, type ProjectSettings } from './project';
-import { Pipe, Simulation } from './simulation';
-import type { SimulationConfig, Vec3 } from './simulation';
+import { Pipe, Simulation, resolveGridDims, type SimulationEvent } from './simulation';
+import { SimulationWorkerClient } from './simulationWorkerClient';
+import { createSeededRng, deriveSeed, normalizeSeed, randomSeed } from './random';
+import {
+  DEFAULT_GROWTH_PARAMS,
+  GROWTH_POLICIES,
+  GROWTH_POLICY_IDS,
+  normalizeGrowthPolicyId,
+  type GrowthParamSpec,
+  type GrowthPolicyParams,
+} from './growthPolicies';
+import type { SimulationConfig, SimulationSnapshot, Vec3 } from './simulation';
+import { CheckpointStore } from './checkpoints';
 import { PrismWarpShader } from './shaders/prismWarpShader';
 import { CurlNoiseDisplacementShader } from './shaders/curlNoiseDisplacementShader';
 import { FlowmapAdvectionShader } from './shaders/flowmapAdvectionShader';
+import { LutGradeShader } from './shaders/lutGradeShader';
+import { FlashWipeShader } from './shaders/flashWipeShader';
 // FractalWarpShader is intentionally not used as a post effect; mirror fractals are handled in wall shaders.
 import {
   PhysicalRayMirrorSystem,
@@ -58,8 +74,82 @@ import {
   RayMirrorSystemAllFaces,
 } from './mirrors';
 import type { MirrorReflectionMode, MirrorSystem } from './mirrors';
-import { createTeapotVisual, type TeapotVisual } from './simulations/teapot';
-import { createJuliaBulbVisual, type JuliaBulbVisual } from './simulations/juliaBulb';
+import { createTeapotGeometry, createTeapotVisual, type TeapotVisual } from './simulations/teapot';
+import { loadVoxelMaskFile, normalizeVoxelMaskMode, type VoxelMask, type VoxelMaskMode } from './voxelMask';
+import { createVoxelMaskVisual, normalizeVoxelMaskDisplay, type VoxelMaskDisplay } from './voxelMaskVisual';
+import {
+  DEFAULT_STEERING_PARAMS,
+  STEERING_FIELDS,
+  STEERING_FIELD_IDS,
+  STEERING_PARAM_SPECS,
+  normalizeSteeringFieldId,
+  type SteeringParamSpec,
+  type SteeringParams,
+} from './steeringFields';
+import { SPECIES_PRESETS, copySpecies, findSpeciesPreset, normalizePipeSpecies } from './pipeSpecies';
+import { SYMMETRY_LABELS, normalizeSymmetryMode } from './symmetry';
+import { BEATS_PER_BAR, BEAT_DIVISIONS, BEAT_GRIDS, DEFAULT_BEAT_SYNC, normalizeBeatSync } from './beatSync';
+import {
+  DEFAULT_RESET_SETTINGS,
+  RESET_STRATEGIES,
+  RESET_TRIGGERS,
+  normalizeResetStrategy,
+  normalizeResetTrigger,
+  resetClearPoint,
+  resetTransitionLevels,
+  shouldTriggerReset,
+  type ResetSettings,
+  type ResetTransition,
+} from './resetStrategies';
+import {
+  PipePathStore,
+  PipeRadiusWaves,
+  attachPipeFitting,
+  attachPipeSweep,
+  createSweepJointGeometry,
+  createSweepSegmentGeometry,
+  pipeSweepPieces,
+} from './pipeSweep';
+import { PIPE_PROFILES, normalizePipeProfile, profileEdges, type PipeProfile } from './pipeProfiles';
+import {
+  POST_FX_EFFECTS,
+  capturePostFxParams,
+  defaultPostFxStack,
+  normalizePostFxStack,
+  type PostFxEffect,
+  type PostFxEntry,
+} from './postFxStack';
+import {
+  createLutTexture,
+  decodeColorLut,
+  encodeColorLut,
+  identityLut,
+  loadCubeLutFile,
+  type ColorLut,
+} from './colorLut';
+import { CustomShaderPass, DEFAULT_CUSTOM_SHADER, parseCustomShaderUniforms, type CustomShaderUniform } from './customShaderPass';
+import {
+  AUTO_EXPOSURE_LIMIT,
+  LuminanceMeterPass,
+  OUTPUT_COLOR_SPACE_LABELS,
+  TONE_MAPPING_LABELS,
+  adaptExposure,
+  applyToneMapping,
+  normalizeOutputColorSpace,
+  normalizeToneMappingMode,
+  type OutputColorSpaceMode,
+  type ToneMappingMode,
+} from './toneMapping';
+import {
+  DEFAULT_CAPTURE_QUALITY,
+  FrameAccumulator,
+  MAX_SUBFRAMES,
+  normalizeCaptureQuality,
+  shutterSubsteps,
+  type CaptureQuality,
+} from './frameAccumulator';
+import { JOINT_STYLES, createMitredElbowGeometry, isTeapotJoint, normalizeJointStyle, type JointStyle } from './pipeJoints';
+import { createJuliaBulbVisual, type JuliaBulbSnapshot, type JuliaBulbVisual } from './simulations/juliaBulb';
 import { normalizeSimulationId, type SimulationId } from './simulations/types';
 
 type PathType = 'polyline' | 'catmullrom' | 'centripetal' | 'chordal';
@@ -76,8 +166,36 @@ const simulationUi = {
 };
 let activeSimulationId: SimulationId = simulationUi.simulation;
 
+type GhostStyle = 'wireframe' | 'emissive';
+
 type RenderSettings = {
   pathType: PathType;
+  pipeProfile: PipeProfile;
+  /** Profile rotation along the pipe, in degrees per cell. */
+  profileTwist: number;
+  /** `x,y` points (in radii) for the custom profile. */
+  profileCustom: string;
+  /** Radius animation along each pipe; sizes are fractions of the pipe radius, lengths are in cells. */
+  radiusTaper: number;
+  radiusTaperLength: number;
+  radiusHead: number;
+  radiusHeadLength: number;
+  radiusPulse: number;
+  radiusPulseWavelength: number;
+  /** Cells per second that pulses and swells travel from tail to head, unless synced to the BPM. */
+  radiusPulseSpeed: number;
+  radiusPulseSync: boolean;
+  /** With sync on, one pulse wavelength is travelled per this fraction of a bar. */
+  radiusPulseDivision: number;
+  radiusSwell: number;
+  jointStyle: JointStyle;
+  turnFlashEnabled: boolean;
+  ghostEnabled: boolean;
+  ghostStyle: GhostStyle;
+  ghostLifetime: number;
+  ghostOpacity: number;
+  ghostFadeColor: string;
+  ghostDecay: number;
   pipeRadius: number;
   tubularSegments: number;
   radialSegments: number;
@@ -117,6 +235,26 @@ type RenderSettings = {
   filmGrayscale: boolean;
   fxaaEnabled: boolean;
   smaaEnabled: boolean;
+  /** Render order of the screen-space effects, including disabled entries and duplicates. */
+  postFxStack: PostFxEntry[];
+  customShaderEnabled: boolean;
+  /** Fragment shader for the custom pass; see `customShaderPass.ts` for its shape. */
+  customShaderSource: string;
+  /** Slider values of the source's annotated float uniforms, by name. */
+  customShaderValues: Record<string, number>;
+  /** Grading with the LUTs in `colorLuts`, after tone mapping; crossfade 0 is LUT A, 1 is LUT B. */
+  lutEnabled: boolean;
+  lutIntensity: number;
+  lutCrossfade: number;
+  toneMapping: ToneMappingMode;
+  /** Manual exposure; auto exposure scales it by up to `AUTO_EXPOSURE_LIMIT` either way. */
+  toneMappingExposure: number;
+  outputColorSpace: OutputColorSpaceMode;
+  /** Adapts exposure so the frame's geometric mean luminance lands on `autoExposureKey`. */
+  autoExposureEnabled: boolean;
+  autoExposureKey: number;
+  /** Adaptation rate per second; half the gap closes every ln 2 / speed seconds. */
+  autoExposureSpeed: number;
   prismEnabled: boolean;
   prismStrength: number;
   prismWarp: number;
@@ -222,11 +360,17 @@ let mirrorBounceAttenuation = 0.65;
 let mirrorBounceAttenuationMode: 'skipFirst' | 'allBounces' = 'skipFirst';
 let mirrorWarpStrength = 0;
 const BASE_REFLECTOR_SHADER = (Reflector as any).ReflectorShader as any;
-const rand = (min: number, max: number) => Math.random() * (max - min) + min;
+// Every random draw that can affect a frame comes from a stream derived from the project seed.
+const seedSettings = { seed: randomSeed() };
+const simRng = createSeededRng(deriveSeed(seedSettings.seed, 'sim'));
+const cameraRng = createSeededRng(deriveSeed(seedSettings.seed, 'camera'));
+const juliaRng = createSeededRng(deriveSeed(seedSettings.seed, 'julia'));
+const uiRng = createSeededRng(deriveSeed(seedSettings.seed, 'ui'));
+const rand = (min: number, max: number) => uiRng() * (max - min) + min;
 const randInt = (min: number, max: number) => Math.floor(rand(min, max + 1));
-const randBool = (p = 0.5) => Math.random() < p;
+const randBool = (p = 0.5) => uiRng() < p;
 const randColorHex = () => {
-  const c = new Color().setHSL(Math.random(), rand(0.35, 0.85), rand(0.45, 0.7));
+  const c = new Color().setHSL(uiRng(), rand(0.35, 0.85), rand(0.45, 0.7));
   return `#${c.getHexString()}`;
 };
 const hueFromHex = (hex: string) => {
@@ -258,6 +402,9 @@ root.appendChild(splitter);
 const timelinePane = document.createElement('div');
 timelinePane.id = 'timeline-pane';
 root.appendChild(timelinePane);
+// Modulator edits in the timeline panel don't report back individually; any committed input
+// there may change the schedule, so drop the locked-preview checkpoints.
+timelinePane.addEventListener('change', () => invalidateSceneCheckpoints());
 
 const canvas = document.createElement('canvas');
 canvas.id = 'pipes-canvas';
@@ -318,16 +465,58 @@ function setRecordingProgress(fraction: number | null, label: string) {
 
 const defaultSimConfig: SimulationConfig = {
   gridSize: 64,
+  gridSizeX: 64,
+  gridSizeY: 64,
+  gridSizeZ: 64,
   maxPipeLength: 42,
   targetPipeCount: 64,
   growthInterval: 1/30,
   turnProbability: 1,
   disableTailShrink: false,
+  growthPolicy: 'randomWalk',
+  growthParams: { ...DEFAULT_GROWTH_PARAMS },
+  branchProbability: 0,
+  maxBranchDepth: 2,
+  species: [],
+  steeringField: 'none',
+  steeringParams: { ...DEFAULT_STEERING_PARAMS },
+  symmetry: 'none',
+  surfaceCrawl: false,
+  wrap: false,
+  beatSync: { ...DEFAULT_BEAT_SYNC },
 };
+const growthParams = defaultSimConfig.growthParams!;
+const steeringParams = defaultSimConfig.steeringParams!;
+const beatSync = defaultSimConfig.beatSync!;
+// Free-running preview re-aligns the beat clock to the audio only when they drift this far apart.
+const BEAT_CLOCK_TOLERANCE = 0.1;
+let lastBeatPlayhead: number | null = null;
 const turnProxy = { turnChance: defaultSimConfig.turnProbability * 100 };
+const speciesSettings = { preset: findSpeciesPreset(defaultSimConfig.species) ?? 'custom' };
 
 const renderSettings: RenderSettings = {
   pathType: 'polyline',
+  pipeProfile: 'circle',
+  profileTwist: 0,
+  profileCustom: '-1,0 0,1 1,0 0,-1 -1,0',
+  radiusTaper: 0,
+  radiusTaperLength: 6,
+  radiusHead: 0,
+  radiusHeadLength: 3,
+  radiusPulse: 0,
+  radiusPulseWavelength: 8,
+  radiusPulseSpeed: 6,
+  radiusPulseSync: false,
+  radiusPulseDivision: 1 / 4,
+  radiusSwell: 0,
+  jointStyle: 'none',
+  turnFlashEnabled: false,
+  ghostEnabled: false,
+  ghostStyle: 'emissive',
+  ghostLifetime: 6,
+  ghostOpacity: 0.35,
+  ghostFadeColor: '#2a3cff',
+  ghostDecay: 1.5,
   pipeRadius: 0.08,
   tubularSegments: 16,
   radialSegments: 16,
@@ -367,6 +556,19 @@ const renderSettings: RenderSettings = {
   filmGrayscale: false,
   fxaaEnabled: true,
   smaaEnabled: false,
+  postFxStack: defaultPostFxStack(),
+  customShaderEnabled: false,
+  customShaderSource: DEFAULT_CUSTOM_SHADER,
+  customShaderValues: {},
+  lutEnabled: false,
+  lutIntensity: 1,
+  lutCrossfade: 0,
+  toneMapping: 'aces',
+  toneMappingExposure: 1.1,
+  outputColorSpace: 'srgb',
+  autoExposureEnabled: false,
+  autoExposureKey: 0.18,
+  autoExposureSpeed: 1.5,
   prismEnabled: false,
   prismStrength: 0.35,
   prismWarp: 0.02,
@@ -486,7 +688,8 @@ const cameraControl = {
 const PIPE_LAYER = 1;
 const MAX_JULIA_BULBS = 12;
 
-const sim = new Simulation(defaultSimConfig);
+const sim = new Simulation(defaultSimConfig, simRng);
+const simWorker = new SimulationWorkerClient(sim);
 
 const renderer = new WebGLRenderer({
   antialias: true,
@@ -496,9 +699,8 @@ const renderer = new WebGLRenderer({
 renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
 const { width: initialWidth, height: initialHeight } = simBounds();
 renderer.setSize(initialWidth, initialHeight);
-renderer.outputColorSpace = SRGBColorSpace;
-renderer.toneMapping = ACESFilmicToneMapping;
-renderer.toneMappingExposure = 1.1;
+applyToneMapping(renderer, renderSettings.toneMapping, renderSettings.outputColorSpace);
+renderer.toneMappingExposure = renderSettings.toneMappingExposure;
 
 const scene = new Scene();
 scene.background = new Color('#000000');
@@ -508,7 +710,7 @@ applyCameraZoom(cameraControl.zoomFactor);
 scene.add(camera);
 syncPipeVisibilityToMainCamera();
 
-const room = createRoom(defaultSimConfig.gridSize, renderSettings);
+const room = createRoom(resolveGridDims(defaultSimConfig), renderSettings);
 scene.add(room.mesh);
 function createMirrorSystem(kind: MirrorRenderer): MirrorSystem {
   const showRoomMesh = kind === 'raster';
@@ -596,25 +798,35 @@ function createMirrorSystem(kind: MirrorRenderer): MirrorSystem {
 
 let roomMirrors: MirrorSystem = createMirrorSystem(mirrorRenderer);
 
-let gridLines = createGridOutline(defaultSimConfig.gridSize);
+let gridLines = createGridOutline(resolveGridDims(defaultSimConfig));
 syncGridVisibility();
 scene.add(gridLines);
 
+// Voxel mask loaded from a .vox/JSON file; the simulation owns the grid-fitted copy.
+let voxelMask: VoxelMask | null = null;
+const voxelMaskSettings: { mode: VoxelMaskMode; display: VoxelMaskDisplay; name: string } = {
+  mode: 'obstacle',
+  display: 'solid',
+  name: '(none)',
+};
+const voxelMaskVisual = createVoxelMaskVisual(PIPE_LAYER);
+scene.add(voxelMaskVisual.group);
+
 let teapotVisual: TeapotVisual | null = null;
 let juliaBulbVisual: JuliaBulbVisual | null = null;
 
 const pipeMaterial = new MeshPhysicalMaterial({ vertexColors: true });
 updatePipeMaterial(renderSettings);
 
-teapotVisual = createTeapotVisual(PIPE_LAYER, room.size, { sizeFactor: 0.5 });
+teapotVisual = createTeapotVisual(PIPE_LAYER, room.minSize, { sizeFactor: 0.5 });
 teapotVisual.setVisible(activeSimulationId === 'teapot');
 scene.add(teapotVisual.mesh);
 // Ensure teapot material picks up the current pipe metal/roughness defaults.
 updatePipeMaterial(renderSettings);
 
-juliaBulbVisual = createJuliaBulbVisual(PIPE_LAYER, room.size);
+juliaBulbVisual = createJuliaBulbVisual(PIPE_LAYER, room.minSize, { rng: juliaRng });
 juliaBulbVisual.setVisible(activeSimulationId === 'juliabulb');
-juliaBulbVisual.syncToRoom(room.size, mirrorInset, renderSettings);
+juliaBulbVisual.syncToRoom(room.minSize, mirrorInset, renderSettings);
 scene.add(juliaBulbVisual.mesh);
 
 let edgeNeons!: EdgeNeonSystem;
@@ -626,16 +838,36 @@ let filmPass!: FilmPass;
 let prismPass!: ShaderPass;
 let curlPass!: ShaderPass;
 let flowmapPass!: ShaderPass;
+let flashWipePass!: ShaderPass;
 let outputPass!: OutputPass;
 let fxaaPass!: FXAAPass;
 let smaaPass!: SMAAPass;
+let customShaderPass!: CustomShaderPass;
+let lutPass!: ShaderPass;
+let luminanceMeterPass!: LuminanceMeterPass;
+// Auto exposure's current scale on the manual exposure; 1 while it is off.
+let autoExposureFactor = 1;
+// Color lookup tables for the grading pass; empty slots grade with an identity table.
+const colorLuts: Record<'a' | 'b', ColorLut | null> = { a: null, b: null };
+const colorLutSettings = { a: '(none)', b: '(none)' };
+// Pass instances for duplicated post-FX stack entries; linked entries render with the passes above.
+const postFxDuplicates = new Map<PostFxEntry, Pass>();
 let guiInstance: GUI | null = null;
+let postFxStackFolder: GUI | null = null;
+let customShaderUniforms: CustomShaderUniform[] = [];
+let customShaderUniformFolder: GUI | null = null;
+let customShaderEditor: HTMLTextAreaElement | null = null;
+let customShaderErrorView: HTMLPreElement | null = null;
 let gridSizeController: any;
+let gridAxisControllers: any[] = [];
 let targetCountController: any;
 let maxLengthController: any;
 let growthIntervalController: any;
 let turnController: any;
 let tailShrinkController: any;
+let growthParamControllers: Array<{ spec: GrowthParamSpec; controller: any }> = [];
+let steeringParamControllers: Array<{ spec: SteeringParamSpec; controller: any }> = [];
+let seedController: any;
 let cameraModeController: any;
 let orbitSpeedController: any;
 let orbitBobController: any;
@@ -659,6 +891,8 @@ let railRollController: any;
 let bokehFocusController: any;
 
 const composer = new EffectComposer(renderer);
+// The composer has no getter for the pixel ratio it takes from the renderer here.
+const composerPixelRatio = renderer.getPixelRatio();
 const renderPass = new RenderPass(scene, camera);
 const makeBloom = () => {
   const scale = clamp(renderSettings.bloomResolutionScale, 0.1, 1);
@@ -683,25 +917,26 @@ prismPass = new ShaderPass(PrismWarpShader);
 curlPass = new ShaderPass(CurlNoiseDisplacementShader);
 flowmapPass = new ShaderPass(FlowmapAdvectionShader);
 afterimagePass = new AfterimagePass(renderSettings.afterimageDamp);
+flashWipePass = new ShaderPass(FlashWipeShader);
+flashWipePass.enabled = false;
 outputPass = new OutputPass();
 smaaPass = new SMAAPass();
 fxaaPass = new FXAAPass();
+customShaderPass = new CustomShaderPass(renderSettings.customShaderSource);
+lutPass = new ShaderPass(LutGradeShader);
+luminanceMeterPass = new LuminanceMeterPass();
+setColorLut('a', null);
+setColorLut('b', null);
+customShaderPass.onCompile = (pass) => {
+  if (customShaderErrorView) customShaderErrorView.textContent = pass.error;
+};
 
-composer.addPass(renderPass);
-composer.addPass(bokehPass);
-composer.addPass(bloomPass);
-composer.addPass(filmPass);
-composer.addPass(prismPass);
-composer.addPass(curlPass);
-composer.addPass(flowmapPass);
-composer.addPass(afterimagePass);
-composer.addPass(smaaPass);
-composer.addPass(outputPass);
-composer.addPass(fxaaPass);
-
+rebuildPostFxChain();
 syncPostProcessingPasses();
 modulation.setGlobalBpm(modulationGlobals.bpm);
+modulation.setSeed(seedSettings.seed);
 modulationBaseSetters = setupModulationTargets();
+syncCustomShaderControls();
 
 const state = {
   paused: false,
@@ -709,10 +944,17 @@ const state = {
   elapsed: 0,
   fpsSmoothed: 0,
 };
+const resetSettings: ResetSettings = { ...DEFAULT_RESET_SETTINGS };
+let resetTransition: ResetTransition | null = null;
+const simWorkerSettings = {
+  enabled: typeof Worker !== 'undefined',
+};
 const videoCaptureSettings = {
   durationSeconds: 10,
   recording: false,
 };
+// Sub-frame motion blur and supersampling for WebCodecs renders; saved so backend renders match.
+const captureQuality: CaptureQuality = { ...DEFAULT_CAPTURE_QUALITY };
 let rafHandle: number;
 let frameIndex = 0;
 let mirrorUpdateOffset = 0;
@@ -733,16 +975,18 @@ const wallNormals = [
   new Vector3(0, 0, -1),
 ] as const;
 const wallFacingState = { target: new Vector3() };
+const cameraLimit = new Vector3();
+const roomHalf = new Vector3();
 const wallDriftState = {
-  travelPhase: Math.random() * Math.PI * 2,
-  bobPhase: Math.random() * Math.PI * 2,
+  travelPhase: cameraRng() * Math.PI * 2,
+  bobPhase: cameraRng() * Math.PI * 2,
   target: new Vector3(),
   tangentA: new Vector3(),
   tangentB: new Vector3(),
 };
 const orbitState = {
   phase: 0,
-  swayPhase: Math.random() * Math.PI * 2,
+  swayPhase: cameraRng() * Math.PI * 2,
   targetPos: new Vector3(),
   smoothedPos: new Vector3(),
 };
@@ -763,7 +1007,7 @@ function updateBloomResolution(width?: number, height?: number) {
   const scale = clamp(Number.isFinite(rawScale) ? rawScale : 1, 0.1, 1);
   const w = Math.max(1, Math.floor(bounds.width * scale));
   const h = Math.max(1, Math.floor(bounds.height * scale));
-  bloomPass.setSize(w, h);
+  for (const pass of postFxPassesOf('bloom')) pass.setSize(w, h);
 }
 
 function syncPrismResolution(width?: number, height?: number) {
@@ -771,22 +1015,24 @@ function syncPrismResolution(width?: number, height?: number) {
   const pixelRatio = renderer.getPixelRatio();
   const w = Math.max(1, Math.floor(bounds.width * pixelRatio));
   const h = Math.max(1, Math.floor(bounds.height * pixelRatio));
-  const uniforms = prismPass?.uniforms as any;
-  if (uniforms?.resolution?.value?.set) {
-    uniforms.resolution.value.set(w, h);
+  for (const pass of postFxPassesOf('prism')) {
+    const uniforms = (pass as ShaderPass).uniforms as any;
+    if (uniforms?.resolution?.value?.set) {
+      uniforms.resolution.value.set(w, h);
+    }
   }
 }
 
-function syncPrismUniforms() {
-  const uniforms = prismPass?.uniforms as any;
+function syncPrismUniforms(pass: ShaderPass = prismPass, settings: RenderSettings = renderSettings) {
+  const uniforms = pass?.uniforms as any;
   if (!uniforms) return;
-  uniforms.strength.value = clamp(renderSettings.prismStrength, 0, 2);
-  uniforms.warp.value = clamp(renderSettings.prismWarp, 0, 0.2);
-  uniforms.chroma.value = clamp(renderSettings.prismChromaticAberration, 0, 0.05);
-  uniforms.grain.value = clamp(renderSettings.prismGrain, 0, 1);
-  uniforms.vignette.value = clamp(renderSettings.prismVignette, 0, 1);
-  uniforms.scanlines.value = clamp(renderSettings.prismScanlines, 0, 1);
-  uniforms.speed.value = clamp(renderSettings.prismSpeed, 0, 10);
+  uniforms.strength.value = clamp(settings.prismStrength, 0, 2);
+  uniforms.warp.value = clamp(settings.prismWarp, 0, 0.2);
+  uniforms.chroma.value = clamp(settings.prismChromaticAberration, 0, 0.05);
+  uniforms.grain.value = clamp(settings.prismGrain, 0, 1);
+  uniforms.vignette.value = clamp(settings.prismVignette, 0, 1);
+  uniforms.scanlines.value = clamp(settings.prismScanlines, 0, 1);
+  uniforms.speed.value = clamp(settings.prismSpeed, 0, 10);
 }
 
 function syncComplexPassResolutions(width?: number, height?: number) {
@@ -794,8 +1040,8 @@ function syncComplexPassResolutions(width?: number, height?: number) {
   const pixelRatio = renderer.getPixelRatio();
   const w = Math.max(1, Math.floor(bounds.width * pixelRatio));
   const h = Math.max(1, Math.floor(bounds.height * pixelRatio));
-  for (const pass of [curlPass, flowmapPass]) {
-    const uniforms = pass?.uniforms as any;
+  for (const pass of [...postFxPassesOf('curl'), ...postFxPassesOf('flowmap')]) {
+    const uniforms = (pass as ShaderPass).uniforms as any;
     if (uniforms?.resolution?.value?.set) uniforms.resolution.value.set(w, h);
   }
 }
@@ -843,19 +1089,315 @@ function syncMirrorFractalUniforms(width?: number, height?: number) {
   }
 }
 
-function syncCurlUniforms() {
-  const uniforms = curlPass?.uniforms as any;
+function syncCurlUniforms(pass: ShaderPass = curlPass, settings: RenderSettings = renderSettings) {
+  const uniforms = pass?.uniforms as any;
   if (!uniforms) return;
-  uniforms.strength.value = clamp(renderSettings.curlStrength, 0, 2);
-  uniforms.curlScale.value = clamp(renderSettings.curlScale, 0.01, 30);
-  uniforms.timeRate.value = clamp(renderSettings.curlTimeRate, 0, 10);
+  uniforms.strength.value = clamp(settings.curlStrength, 0, 2);
+  uniforms.curlScale.value = clamp(settings.curlScale, 0.01, 30);
+  uniforms.timeRate.value = clamp(settings.curlTimeRate, 0, 10);
 }
 
-function syncFlowmapUniforms() {
-  const uniforms = flowmapPass?.uniforms as any;
+function syncFlowmapUniforms(pass: ShaderPass = flowmapPass, settings: RenderSettings = renderSettings) {
+  const uniforms = pass?.uniforms as any;
   if (!uniforms) return;
-  uniforms.strength.value = clamp(renderSettings.flowmapStrength, 0, 2);
-  uniforms.viscosity.value = clamp(renderSettings.flowmapViscosity, 0, 1);
+  uniforms.strength.value = clamp(settings.flowmapStrength, 0, 2);
+  uniforms.viscosity.value = clamp(settings.flowmapViscosity, 0, 1);
+}
+
+function linkedPostFxPass(effect: PostFxEffect): Pass {
+  switch (effect) {
+    case 'bokeh':
+      return bokehPass;
+    case 'bloom':
+      return bloomPass;
+    case 'film':
+      return filmPass;
+    case 'prism':
+      return prismPass;
+    case 'curl':
+      return curlPass;
+    case 'flowmap':
+      return flowmapPass;
+    case 'afterimage':
+      return afterimagePass;
+    case 'custom':
+      return customShaderPass;
+  }
+}
+
+function createPostFxPass(effect: PostFxEffect): Pass {
+  switch (effect) {
+    case 'bokeh':
+      return new BokehPass(scene, camera, { focus: 1, aperture: 0, maxblur: 0 });
+    case 'bloom':
+      return makeBloom();
+    case 'film':
+      return new FilmPass();
+    case 'prism':
+      return new ShaderPass(PrismWarpShader);
+    case 'curl':
+      return new ShaderPass(CurlNoiseDisplacementShader);
+    case 'flowmap':
+      return new ShaderPass(FlowmapAdvectionShader);
+    case 'afterimage':
+      return new AfterimagePass();
+    case 'custom':
+      return new CustomShaderPass(renderSettings.customShaderSource);
+  }
+}
+
+/** The linked pass for `effect` followed by its duplicates that are currently in the chain. */
+function postFxPassesOf(effect: PostFxEffect): Pass[] {
+  const passes = [linkedPostFxPass(effect)];
+  for (const [entry, pass] of postFxDuplicates) {
+    if (entry.effect === effect) passes.push(pass);
+  }
+  return passes;
+}
+
+/** Settings an entry renders with: the Post FX panel's, with a duplicate's own copy laid over them. */
+function postFxSettings(entry: PostFxEntry): RenderSettings {
+  return entry.params ? ({ ...renderSettings, ...entry.params } as RenderSettings) : renderSettings;
+}
+
+function applyPostFxSettings(effect: PostFxEffect, pass: Pass, settings: RenderSettings) {
+  switch (effect) {
+    case 'bokeh': {
+      const uniforms = (pass as BokehPass).uniforms as any;
+      uniforms.focus.value = Math.max(0, settings.bokehFocus);
+      uniforms.aperture.value = clamp(settings.bokehAperture, 0, 0.01);
+      uniforms.maxblur.value = clamp(settings.bokehMaxblur, 0, 0.1);
+      break;
+    }
+    case 'bloom': {
+      const bloom = pass as UnrealBloomPass;
+      bloom.strength = settings.bloomStrength;
+      bloom.radius = settings.bloomRadius;
+      bloom.threshold = settings.bloomThreshold;
+      break;
+    }
+    case 'film': {
+      const uniforms = (pass as FilmPass).uniforms as any;
+      uniforms.intensity.value = clamp(settings.filmIntensity, 0, 1);
+      uniforms.grayscale.value = Boolean(settings.filmGrayscale);
+      break;
+    }
+    case 'prism':
+      syncPrismUniforms(pass as ShaderPass, settings);
+      break;
+    case 'curl':
+      syncCurlUniforms(pass as ShaderPass, settings);
+      break;
+    case 'flowmap':
+      syncFlowmapUniforms(pass as ShaderPass, settings);
+      break;
+    case 'afterimage':
+      (pass as AfterimagePass).damp = clamp(settings.afterimageDamp, 0, 1);
+      break;
+    case 'custom':
+      (pass as CustomShaderPass).setSource(settings.customShaderSource);
+      (pass as CustomShaderPass).setValues(settings.customShaderValues);
+      break;
+  }
+}
+
+/**
+ * Rebuilds the composer chain from `renderSettings.postFxStack`. The scene render comes first and
+ * SMAA, the luminance meter, output, LUT grading, flash wipe and FXAA always run last, in that order.
+ */
+function rebuildPostFxChain() {
+  const stack = renderSettings.postFxStack;
+  for (const [entry, pass] of postFxDuplicates) {
+    if (entry.enabled && stack.includes(entry)) continue;
+    pass.dispose();
+    postFxDuplicates.delete(entry);
+  }
+  for (const pass of [...composer.passes]) composer.removePass(pass);
+  composer.addPass(renderPass);
+  for (const entry of stack) {
+    if (!entry.enabled) continue;
+    let pass = entry.params ? postFxDuplicates.get(entry) : linkedPostFxPass(entry.effect);
+    if (!pass) {
+      pass = createPostFxPass(entry.effect);
+      applyPostFxSettings(entry.effect, pass, postFxSettings(entry));
+      postFxDuplicates.set(entry, pass);
+    }
+    composer.addPass(pass);
+  }
+  composer.addPass(smaaPass);
+  // Meters the still-linear frame that the output pass is about to tone map.
+  composer.addPass(luminanceMeterPass);
+  composer.addPass(outputPass);
+  // .cube LUTs expect display-referred colors, so grading happens after tone mapping.
+  composer.addPass(lutPass);
+  // After the output pass so the wipe reaches pure white regardless of tone mapping.
+  composer.addPass(flashWipePass);
+  composer.addPass(fxaaPass);
+  updateBloomResolution();
+  syncPrismResolution();
+  syncComplexPassResolutions();
+}
+
+/** One folder per stack entry in render order, rebuilt whenever entries move, appear or go away. */
+function rebuildPostFxStackGui(focus?: PostFxEntry) {
+  const folder = postFxStackFolder;
+  if (!folder) return;
+  for (const child of [...folder.children]) child.destroy();
+  const stack = renderSettings.postFxStack;
+  const edit = (change: () => PostFxEntry | undefined) => {
+    const focused = change();
+    rebuildPostFxChain();
+    rebuildPostFxStackGui(focused);
+  };
+  const move = (index: number, to: number) => {
+    const [entry] = stack.splice(index, 1);
+    stack.splice(to, 0, entry);
+    return entry;
+  };
+  stack.forEach((entry, index) => {
+    const info = POST_FX_EFFECTS[entry.effect];
+    const entryFolder = folder.addFolder(`${index + 1}. ${info.label}${entry.params ? ' (copy)' : ''}`);
+    entryFolder.add(entry, 'enabled').name('In chain').onChange(() => rebuildPostFxChain());
+    const actions = {
+      up: () => edit(() => move(index, index - 1)),
+      down: () => edit(() => move(index, index + 1)),
+      duplicate: () =>
+        edit(() => {
+          const copy: PostFxEntry = {
+            effect: entry.effect,
+            enabled: true,
+            params: capturePostFxParams(entry.effect, postFxSettings(entry)),
+          };
+          stack.splice(index + 1, 0, copy);
+          return copy;
+        }),
+      remove: () =>
+        edit(() => {
+          stack.splice(index, 1);
+          return undefined;
+        }),
+    };
+    if (index > 0) entryFolder.add(actions, 'up').name('Move up');
+    if (index < stack.length - 1) entryFolder.add(actions, 'down').name('Move down');
+    if (info.params.length > 0) entryFolder.add(actions, 'duplicate').name('Duplicate');
+    if (entry.params) {
+      // Only copies can go; the linked entry is what the effect's own panel drives.
+      entryFolder.add(actions, 'remove').name('Remove');
+      for (const spec of info.params) {
+        const controller =
+          'toggle' in spec
+            ? entryFolder.add(entry.params, spec.key)
+            : entryFolder.add(entry.params, spec.key, spec.min, spec.max, spec.step);
+        controller.name(spec.label).onChange(() => syncPostProcessingPasses());
+      }
+    }
+    if (entry !== focus) entryFolder.close();
+  });
+}
+
+/**
+ * Re-reads the annotated uniforms of the custom shader source: keeps values that still fit, fills
+ * in defaults for new ones, and registers a `post.custom.<name>` modulation target for each.
+ */
+function syncCustomShaderControls() {
+  const uniforms = parseCustomShaderUniforms(renderSettings.customShaderSource);
+  const previous = renderSettings.customShaderValues;
+  const values: Record<string, number> = {};
+  for (const uniform of uniforms) {
+    const value = previous[uniform.name];
+    values[uniform.name] = Number.isFinite(value) ? clamp(value, uniform.min, uniform.max) : uniform.value;
+  }
+  renderSettings.customShaderValues = values;
+
+  for (const uniform of customShaderUniforms) {
+    if (uniforms.some((u) => u.name === uniform.name)) continue;
+    const id = `post.custom.${uniform.name}`;
+    modulation.unregisterTarget(id);
+    delete modulationBaseSetters[id];
+  }
+  for (const uniform of uniforms) {
+    const id = `post.custom.${uniform.name}`;
+    modulation.registerTarget({
+      id,
+      label: `Custom: ${uniform.name}`,
+      group: 'Post FX',
+      min: uniform.min,
+      max: uniform.max,
+      range: uniform.max - uniform.min,
+      getCurrent: () => renderSettings.customShaderValues[uniform.name] ?? uniform.value,
+      apply: (v: number) => {
+        renderSettings.customShaderValues[uniform.name] = clamp(v, uniform.min, uniform.max);
+      },
+    });
+    modulation.setBaseValue(id, values[uniform.name]);
+    modulationBaseSetters[id] = (v: number) => modulation.setBaseValue(id, v);
+  }
+  customShaderUniforms = uniforms;
+  syncPostProcessingPasses();
+  rebuildCustomShaderGui();
+}
+
+/** Shows the current source, its last compile error and one slider per annotated uniform. */
+function rebuildCustomShaderGui() {
+  if (customShaderEditor) customShaderEditor.value = renderSettings.customShaderSource;
+  if (customShaderErrorView) customShaderErrorView.textContent = customShaderPass.error;
+  const folder = customShaderUniformFolder;
+  if (!folder) return;
+  for (const child of [...folder.children]) child.destroy();
+  for (const uniform of customShaderUniforms) {
+    folder
+      .add(renderSettings.customShaderValues, uniform.name, uniform.min, uniform.max)
+      .onChange((v: number) => {
+        modulationBaseSetters[`post.custom.${uniform.name}`]?.(v);
+      });
+  }
+}
+
+function syncLutUniforms() {
+  const uniforms = lutPass.uniforms as any;
+  lutPass.enabled = Boolean(renderSettings.lutEnabled) && (colorLuts.a !== null || colorLuts.b !== null);
+  uniforms.intensity.value = clamp(renderSettings.lutIntensity, 0, 1);
+  uniforms.crossfade.value = clamp(renderSettings.lutCrossfade, 0, 1);
+}
+
+function syncToneMapping() {
+  applyToneMapping(renderer, renderSettings.toneMapping, renderSettings.outputColorSpace);
+  luminanceMeterPass.enabled = Boolean(renderSettings.autoExposureEnabled);
+  if (!luminanceMeterPass.enabled) autoExposureFactor = 1;
+  renderer.toneMappingExposure = renderSettings.toneMappingExposure * autoExposureFactor;
+}
+
+/**
+ * Eases auto exposure toward the key over the luminance metered last frame and sets the exposure
+ * this frame renders with. The meter reads the frame before tone mapping, so exposure never feeds
+ * back into its own measurement.
+ */
+function updateExposure(dt: number) {
+  if (luminanceMeterPass.enabled) {
+    const target = clamp(
+      renderSettings.autoExposureKey / luminanceMeterPass.luminance,
+      1 / AUTO_EXPOSURE_LIMIT,
+      AUTO_EXPOSURE_LIMIT
+    );
+    autoExposureFactor = adaptExposure(autoExposureFactor, target, renderSettings.autoExposureSpeed, dt);
+  }
+  renderer.toneMappingExposure = renderSettings.toneMappingExposure * autoExposureFactor;
+}
+
+/** Puts `lut` (or the identity table) into slot A or B of the grading pass. */
+function setColorLut(slot: 'a' | 'b', lut: ColorLut | null) {
+  const suffix = slot === 'a' ? 'A' : 'B';
+  const uniforms = lutPass.uniforms as any;
+  const table = lut ?? identityLut();
+  uniforms[`lut${suffix}`].value?.dispose();
+  uniforms[`lut${suffix}`].value = createLutTexture(table);
+  uniforms[`lutSize${suffix}`].value = table.size;
+  uniforms[`domainMin${suffix}`].value.fromArray(table.domainMin);
+  uniforms[`domainMax${suffix}`].value.fromArray(table.domainMax);
+  colorLuts[slot] = lut;
+  colorLutSettings[slot] = lut?.name ?? '(none)';
+  syncLutUniforms();
+  guiInstance?.controllersRecursive().forEach((c) => c.updateDisplay());
 }
 
 function syncPostProcessingPasses() {
@@ -863,30 +1405,19 @@ function syncPostProcessingPasses() {
   renderSettings.bokehFocus = Math.max(0, renderSettings.bokehFocus);
   renderSettings.bokehAperture = clamp(renderSettings.bokehAperture, 0, 0.01);
   renderSettings.bokehMaxblur = clamp(renderSettings.bokehMaxblur, 0, 0.1);
-  (bokehPass.uniforms as any).focus.value = renderSettings.bokehFocus;
-  (bokehPass.uniforms as any).aperture.value = renderSettings.bokehAperture;
-  (bokehPass.uniforms as any).maxblur.value = renderSettings.bokehMaxblur;
-
   bloomPass.enabled = Boolean(renderSettings.bloomEnabled);
-  bloomPass.strength = renderSettings.bloomStrength;
-  bloomPass.radius = renderSettings.bloomRadius;
-  bloomPass.threshold = renderSettings.bloomThreshold;
-
   filmPass.enabled = Boolean(renderSettings.filmEnabled);
-  (filmPass.uniforms as any).intensity.value = clamp(renderSettings.filmIntensity, 0, 1);
-  (filmPass.uniforms as any).grayscale.value = Boolean(renderSettings.filmGrayscale);
-
   prismPass.enabled = Boolean(renderSettings.prismEnabled);
-  syncPrismUniforms();
-
   curlPass.enabled = Boolean(renderSettings.curlEnabled);
-  syncCurlUniforms();
-
   flowmapPass.enabled = Boolean(renderSettings.flowmapEnabled);
-  syncFlowmapUniforms();
-
   afterimagePass.enabled = Boolean(renderSettings.afterimageEnabled);
-  afterimagePass.damp = clamp(renderSettings.afterimageDamp, 0, 1);
+  customShaderPass.enabled = Boolean(renderSettings.customShaderEnabled);
+  syncLutUniforms();
+  syncToneMapping();
+  for (const entry of renderSettings.postFxStack) {
+    if (!entry.params) applyPostFxSettings(entry.effect, linkedPostFxPass(entry.effect), renderSettings);
+  }
+  for (const [entry, pass] of postFxDuplicates) applyPostFxSettings(entry.effect, pass, postFxSettings(entry));
 
   outputPass.enabled = true;
   const smaaOn = Boolean(renderSettings.smaaEnabled);
@@ -1106,27 +1637,51 @@ function frame(now: number) {
 }
 
 function stepFrame(dt: number) {
-  state.elapsed += dt;
   state.fpsSmoothed = state.fpsSmoothed * 0.9 + (1 / dt) * 0.1;
   const playheadSeconds = ignoreAudioForModulation ? null : timelineHandle?.getPlayheadSeconds();
-  const modulationTime = playheadSeconds ?? state.elapsed;
-  modulation.update(modulationTime, dt);
-  frameIndex++;
+  if (timelineLockSettings.locked && typeof playheadSeconds === 'number') {
+    seekLockedScene(playheadSeconds);
+  } else {
+    lockedFrame = null;
+    advanceScene(dt, { modulationTime: playheadSeconds ?? undefined, allowWorker: true });
+  }
+  renderScene(dt);
+}
+
+/**
+ * Moves simulation, modulation and camera motion forward by `dt` without drawing anything, so
+ * timeline seeks can fast-forward many fixed steps cheaply. Modulation follows the scene clock
+ * unless an explicit time (the audio playhead) is given. `allowWorker` lets free-running preview
+ * hand pipe growth to the simulation worker; seeks and renders always step synchronously so they
+ * stay deterministic.
+ */
+function advanceScene(
+  dt: number,
+  opts: { modulationTime?: number; ignorePause?: boolean; allowWorker?: boolean } = {}
+) {
+  state.elapsed += dt;
+  modulation.update(opts.modulationTime ?? state.elapsed, dt);
+  const paused = state.paused && !opts.ignorePause;
   const enteringOrbit = cameraControl.mode === 'orbit' && lastCameraMode !== 'orbit';
   const enteringWallDrift = cameraControl.mode === 'wallDrift' && lastCameraMode !== 'wallDrift';
 
-  if (activeSimulationId === 'tubes' && !state.paused && !state.autoPaused) {
-    const allStuck = sim.update(dt);
-    if (allStuck) {
-      state.autoPaused = true;
-    }
+  if (activeSimulationId === 'tubes' && !paused && !state.autoPaused) {
+    syncBeatSync(opts.modulationTime);
+    const useWorker =
+      opts.allowWorker && simWorkerSettings.enabled && simWorker.available && !videoCaptureSettings.recording;
+    const allStuck = useWorker ? simWorker.update(dt) : sim.update(dt);
+    handleSimulationEvents(sim.drainEvents());
+    advanceResetTransition(dt, allStuck);
   }
   if (activeSimulationId === 'juliabulb') {
-    const simDt = state.paused ? 0 : dt;
-    juliaBulbVisual?.update(simDt, state.elapsed, room.size, mirrorInset, renderSettings);
+    const simDt = paused ? 0 : dt;
+    juliaBulbVisual?.update(simDt, state.elapsed, room.minSize, mirrorInset, renderSettings);
   }
 
-  const orbitRadius = room.size * 0.5;
+  // Motion paths are authored for a cube of radius `orbitRadius`; positions are stretched per axis
+  // by `roomHalf` so corridors and shafts get an elliptical orbit/rail instead of a clipped one.
+  const orbitRadius = room.minSize * 0.5;
+  roomHalf.copy(room.size).multiplyScalar(0.5);
   let lookTarget = ORIGIN;
   let roll = 0;
   if (cameraControl.mode === 'orbit') {
@@ -1148,9 +1703,9 @@ function stepFrame(dt: number) {
       0.35;
 
     orbitState.targetPos.set(
-      Math.cos(easedPhase) * radius,
-      orbitRadius * 0.22 + bob,
-      Math.sin(easedPhase + Math.sin(orbitState.swayPhase) * 0.05) * radius
+      Math.cos(easedPhase) * radius * (roomHalf.x / orbitRadius),
+      (orbitRadius * 0.22 + bob) * (roomHalf.y / orbitRadius),
+      Math.sin(easedPhase + Math.sin(orbitState.swayPhase) * 0.05) * radius * (roomHalf.z / orbitRadius)
     );
     keepOrbitInside(orbitState.targetPos);
     softenCameraToRoom(orbitState.targetPos);
@@ -1164,9 +1719,10 @@ function stepFrame(dt: number) {
     const baseRadius = orbitRadius * railSettings.radialFactor;
     const wobble = Math.sin(t * 1.8) * railSettings.verticalWave * orbitRadius;
     railState.desiredPos.set(
-      Math.sin(t * 1.3) * baseRadius + Math.sin(t * 2.6) * railSettings.noise * orbitRadius,
-      orbitRadius * 0.2 + wobble,
-      Math.cos(t * 0.9 + Math.PI * 0.25) * baseRadius + Math.cos(t * 2.3) * railSettings.noise * orbitRadius
+      (Math.sin(t * 1.3) * baseRadius + Math.sin(t * 2.6) * railSettings.noise * orbitRadius) * (roomHalf.x / orbitRadius),
+      (orbitRadius * 0.2 + wobble) * (roomHalf.y / orbitRadius),
+      (Math.cos(t * 0.9 + Math.PI * 0.25) * baseRadius + Math.cos(t * 2.3) * railSettings.noise * orbitRadius) *
+        (roomHalf.z / orbitRadius)
     );
     const nudgeX =
       (Number(heldKeys.has('ArrowRight')) - Number(heldKeys.has('ArrowLeft'))) * railSettings.manualNudge * orbitRadius;
@@ -1203,16 +1759,18 @@ function stepFrame(dt: number) {
     if (enteringWallDrift) {
       resetWallDriftState();
     }
-    const half = room.size * 0.5 - mirrorInset * 0.5;
     const faceIdx = clamp(Math.round(cameraControl.wallFace ?? 0), 0, wallNormals.length - 1);
     const faceNormal = wallNormals[faceIdx];
     const opposingNormal = faceNormal.clone().negate();
+    // Depth follows the axis the camera faces along; sweeps stay within the room's narrowest side.
+    const half = Math.abs(faceNormal.dot(roomHalf)) - mirrorInset * 0.5;
+    const sweepHalf = orbitRadius - mirrorInset * 0.5;
     const moveSpeed = 0.7 + wallDriftSettings.movement * 0.6;
     wallDriftState.travelPhase += dt * moveSpeed;
     wallDriftState.bobPhase += dt * (0.9 + wallDriftSettings.movement * 0.8);
     buildWallBasis(faceNormal, wallDriftState.tangentA, wallDriftState.tangentB);
 
-    const driftRange = Math.max(0, half * wallDriftSettings.movement);
+    const driftRange = Math.max(0, sweepHalf * wallDriftSettings.movement);
     wallDriftState.target.copy(faceNormal).setLength(Math.max(0, half));
     if (driftRange > 0) {
       const sweepA = Math.sin(wallDriftState.travelPhase * 0.85) * driftRange;
@@ -1225,15 +1783,15 @@ function stepFrame(dt: number) {
     const bobOffset =
       Math.sin(wallDriftState.bobPhase * 1.25 + Math.sin(wallDriftState.travelPhase) * 0.35) *
       wallDriftSettings.bobStrength *
-      half *
+      sweepHalf *
       0.28;
     camera.position.copy(opposingNormal).setLength(Math.max(0, half));
     camera.position.addScaledVector(wallDriftState.tangentB, bobOffset);
     lookTarget = wallDriftState.target;
     roll = 0;
   } else if (cameraControl.mode === 'wall') {
-    const half = room.size * 0.5 - mirrorInset * 0.5;
     const faceIdx = clamp(Math.round(cameraControl.wallFace ?? 0), 0, wallNormals.length - 1);
+    const half = Math.abs(wallNormals[faceIdx].dot(roomHalf)) - mirrorInset * 0.5;
     wallFacingState.target.copy(wallNormals[faceIdx]).setLength(Math.max(0, half));
     // Position camera near the opposing wall instead of center
     const opposingNormal = wallNormals[faceIdx].clone().negate();
@@ -1266,16 +1824,25 @@ function stepFrame(dt: number) {
     camera.rotateZ(roll);
   }
   camera.getWorldDirection(camDir);
+  lastCameraMode = cameraControl.mode;
+}
 
+function renderScene(dt: number) {
+  frameIndex++;
   if (activeSimulationId === 'tubes') {
-    pipeManager.sync(sim.pipes, renderSettings);
+    pipeManager.sync(sim.pipes, renderSettings, sim.time, state.elapsed);
   }
+  syncResetTransitionVisuals();
+  voxelMaskVisual.sync(activeSimulationId === 'tubes' ? sim.maskShape : null, sim.gridDims, voxelMaskSettings.display);
   edgeNeons.sync(room.size, mirrorInset, renderSettings, state.elapsed);
   // Update mirrors after the camera and scene have settled for this frame
   camera.updateMatrixWorld();
   updateMirrorMask();
   updateMirrorDistortionUniforms(state.elapsed);
   syncMirrorFractalUniforms();
+  // Mirror systems scale the renderer's exposure for their own passes, so it has to be current here.
+  updateExposure(dt);
+  luminanceMeterPass.synchronous = videoCaptureSettings.recording;
   roomMirrors.updateFrame?.(renderer, scene, camera);
   if (activeSimulationId === 'tubes') {
     updateInfo(sim, state);
@@ -1287,13 +1854,12 @@ function stepFrame(dt: number) {
     infoOverlay.textContent = `${activeSimulationId} • fps: ${state.fpsSmoothed.toFixed(0)}`;
   }
 
-  lastCameraMode = cameraControl.mode;
-  const prismUniforms = prismPass?.uniforms as any;
-  if (prismUniforms?.time) prismUniforms.time.value = state.elapsed;
-  const curlUniforms = curlPass?.uniforms as any;
-  if (curlUniforms?.time) curlUniforms.time.value = state.elapsed;
-  const flowmapUniforms = flowmapPass?.uniforms as any;
-  if (flowmapUniforms?.time) flowmapUniforms.time.value = state.elapsed;
+  for (const pass of [prismPass, curlPass, flowmapPass, customShaderPass, ...postFxDuplicates.values()]) {
+    if (pass instanceof CustomShaderPass) pass.time = state.elapsed;
+    if (!(pass instanceof ShaderPass)) continue;
+    const uniforms = pass.uniforms as any;
+    if (uniforms?.time) uniforms.time.value = state.elapsed;
+  }
   composer.render(dt);
 }
 
@@ -1308,6 +1874,161 @@ function supportsWebCodecs() {
 }
 
 const CAPTURE_FPS = 60;
+const TIMELINE_CHECKPOINT_SECONDS = 1;
+
+type MotionState = Record<string, number | Vector3>;
+
+type SceneCheckpoint = {
+  elapsed: number;
+  autoPaused: boolean;
+  resetTransition: ResetTransition | null;
+  sim: SimulationSnapshot;
+  julia: JuliaBulbSnapshot | null;
+  modulation: ModulationRuntimeSnapshot;
+  rngStates: { camera: number; julia: number; ui: number };
+  cameraPosition: Vector3;
+  lastCameraMode: CameraMode;
+  orbit: MotionState;
+  rail: MotionState;
+  wallDrift: MotionState;
+  exposure: { factor: number; luminance: number };
+};
+
+// Locked preview steps the scene at the capture rate, exactly like `encodeIvfWithWebCodecs`, so a
+// scrubbed frame matches the frame a render produces for the same timestamp.
+const timelineLockSettings = { locked: false };
+const sceneCheckpoints = new CheckpointStore<SceneCheckpoint>(CAPTURE_FPS * TIMELINE_CHECKPOINT_SECONDS);
+let lockedFrame: number | null = null;
+
+function cloneMotionState(source: MotionState): MotionState {
+  const out: MotionState = {};
+  for (const [key, value] of Object.entries(source)) {
+    out[key] = value instanceof Vector3 ? value.clone() : value;
+  }
+  return out;
+}
+
+function restoreMotionState(target: MotionState, saved: MotionState) {
+  for (const [key, value] of Object.entries(saved)) {
+    const current = target[key];
+    if (value instanceof Vector3 && current instanceof Vector3) {
+      current.copy(value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+function captureSceneCheckpoint(): SceneCheckpoint {
+  return {
+    elapsed: state.elapsed,
+    autoPaused: state.autoPaused,
+    resetTransition: resetTransition ? { ...resetTransition } : null,
+    sim: sim.serialize(),
+    julia: juliaBulbVisual?.captureState() ?? null,
+    modulation: modulation.captureRuntime(),
+    rngStates: { camera: cameraRng.getState(), julia: juliaRng.getState(), ui: uiRng.getState() },
+    cameraPosition: camera.position.clone(),
+    lastCameraMode,
+    orbit: cloneMotionState(orbitState),
+    rail: cloneMotionState(railState),
+    wallDrift: cloneMotionState(wallDriftState),
+    exposure: { factor: autoExposureFactor, luminance: luminanceMeterPass.luminance },
+  };
+}
+
+function restoreSceneCheckpoint(checkpoint: SceneCheckpoint) {
+  state.elapsed = checkpoint.elapsed;
+  state.autoPaused = checkpoint.autoPaused;
+  resetTransition = checkpoint.resetTransition ? { ...checkpoint.resetTransition } : null;
+  sim.deserialize(checkpoint.sim);
+  pipeManager.resetGridSize(sim.gridDims);
+  pipeManager.forceGeometryRefresh();
+  if (checkpoint.julia) {
+    juliaBulbVisual?.restoreState(checkpoint.julia, room.minSize, mirrorInset, renderSettings);
+  }
+  modulation.restoreRuntime(checkpoint.modulation);
+  cameraRng.setState(checkpoint.rngStates.camera);
+  juliaRng.setState(checkpoint.rngStates.julia);
+  uiRng.setState(checkpoint.rngStates.ui);
+  camera.position.copy(checkpoint.cameraPosition);
+  lastCameraMode = checkpoint.lastCameraMode;
+  restoreMotionState(orbitState, checkpoint.orbit);
+  restoreMotionState(railState, checkpoint.rail);
+  restoreMotionState(wallDriftState, checkpoint.wallDrift);
+  autoExposureFactor = checkpoint.exposure.factor;
+  luminanceMeterPass.luminance = checkpoint.exposure.luminance;
+}
+
+/** Drops every checkpoint; the next locked frame replays from t=0 with the current settings. */
+function invalidateSceneCheckpoints() {
+  sceneCheckpoints.clear();
+  lockedFrame = null;
+}
+
+/**
+ * Keeps beat-synced growth on the song: the tick length follows the global BPM, and while the
+ * audio plays in free-running preview the beat clock follows its playhead.
+ */
+function syncBeatSync(playheadSeconds: number | undefined) {
+  const bpm = modulation.getGlobalBpm();
+  if (beatSync.bpm !== bpm) {
+    beatSync.bpm = bpm;
+    sim.config.beatSync = { ...beatSync };
+  }
+  const previous = lastBeatPlayhead;
+  lastBeatPlayhead = playheadSeconds ?? null;
+  if (!beatSync.enabled || playheadSeconds === undefined || previous === null || previous === playheadSeconds) return;
+  if (Math.abs(sim.beatClock - playheadSeconds) > BEAT_CLOCK_TOLERANCE) sim.alignBeatClock(playheadSeconds);
+}
+
+/** Rewinds the deterministic scene to t=0, the same starting point offline renders use. */
+function resetSceneToStart() {
+  state.elapsed = 0;
+  state.autoPaused = false;
+  resetTransition = null;
+  reseedRandomStreams();
+  resetCameraMotionState();
+  sim.reset();
+  sim.alignBeatClock(0);
+  pipeManager.resetGridSize(sim.gridDims);
+  pipeManager.sync([], renderSettings);
+  juliaBulbVisual?.reset(room.minSize, mirrorInset, renderSettings, state.elapsed);
+  // Auto exposure starts unadapted, so renders from t=0 do not depend on what was on screen before.
+  autoExposureFactor = 1;
+  luminanceMeterPass.luminance = 0.18;
+}
+
+/**
+ * Brings the scene to the frame under the timeline playhead: plays forward for normal playback,
+ * and restores the nearest checkpoint before fast-forwarding for seeks and rewinds.
+ */
+function seekLockedScene(playheadSeconds: number) {
+  const targetFrame = Math.max(0, Math.round(playheadSeconds * CAPTURE_FPS));
+  let frame = lockedFrame;
+  const rewinding = frame === null || targetFrame < frame;
+  if (frame === null || rewinding || targetFrame - frame > sceneCheckpoints.intervalFrames) {
+    const checkpoint = sceneCheckpoints.nearest(targetFrame);
+    if (checkpoint && (frame === null || rewinding || checkpoint.frame > frame)) {
+      restoreSceneCheckpoint(checkpoint.snapshot);
+      frame = checkpoint.frame;
+    } else if (frame === null || rewinding) {
+      resetSceneToStart();
+      frame = 0;
+      sceneCheckpoints.record(frame, captureSceneCheckpoint());
+    }
+  }
+
+  const stepDt = 1 / CAPTURE_FPS;
+  while (frame < targetFrame) {
+    advanceScene(stepDt, { ignorePause: true });
+    frame++;
+    if (sceneCheckpoints.wants(frame)) {
+      sceneCheckpoints.record(frame, captureSceneCheckpoint());
+    }
+  }
+  lockedFrame = frame;
+}
 
 function estimateCaptureBitrate(width: number, height: number, fps: number) {
   // Scale bitrate with pixel throughput so low-res renders are faster and smaller,
@@ -1347,6 +2068,21 @@ function videoResolutionToRenderSize(value: unknown): { width: number; height: n
   return { width, height };
 }
 
+/**
+ * Renders one output frame as the average of `substeps.length` renders, stepping the scene by each
+ * substep first, and resolves it to the canvas. The composer must be drawing off screen at
+ * `supersample` times the canvas size.
+ */
+function renderAccumulatedFrame(accumulator: FrameAccumulator, substeps: number[], supersample: number) {
+  const srgb = renderSettings.outputColorSpace === 'srgb';
+  accumulator.begin(renderer, composer.readBuffer.width, composer.readBuffer.height);
+  for (const dt of substeps) {
+    stepFrame(dt);
+    accumulator.add(renderer, composer.readBuffer.texture, 1 / substeps.length, srgb);
+  }
+  accumulator.resolve(renderer, supersample, srgb);
+}
+
 async function encodeIvfWithWebCodecs(durationSeconds: number): Promise<Blob | null> {
   if (!supportsWebCodecs()) return null;
   const width = canvas.width;
@@ -1384,15 +2120,45 @@ async function encodeIvfWithWebCodecs(durationSeconds: number): Promise<Blob | n
   const wasRunning = typeof rafHandle === 'number';
   if (wasRunning) cancelAnimationFrame(rafHandle);
 
-  for (let i = 0; i < totalFrames; i++) {
-    setRecordingProgress(i / totalFrames, 'Encoding (WebCodecs)');
-    stepFrame(1 / CAPTURE_FPS);
-    const frame = new VideoFrame(canvas, { timestamp: i });
-    encoder.encode(frame);
-    frame.close();
-    if (i > 0 && i % 120 === 0) {
-      await encoder.flush();
-      await new Promise((r) => setTimeout(r, 0));
+  const quality = { ...captureQuality };
+  // Large outputs drop to a lower factor rather than exceed the GPU's render target size.
+  const maxTextureSize = renderer.capabilities.maxTextureSize;
+  while (quality.supersample > 1 && Math.max(width, height) * quality.supersample > maxTextureSize) {
+    quality.supersample = quality.supersample === 4 ? 2 : 1;
+    console.warn(`Supersampling reduced to ${quality.supersample}x to fit the ${maxTextureSize}px texture limit`);
+  }
+  const accumulator = quality.subframes > 1 || quality.supersample > 1 ? new FrameAccumulator() : null;
+  const substeps = shutterSubsteps(1 / CAPTURE_FPS, quality.subframes, quality.shutterAngle);
+  // Keep roughly the plain capture's flush cadence in rendered sub-frames, so progress stays live.
+  const flushInterval = Math.max(1, Math.round(120 / (quality.subframes * quality.supersample ** 2)));
+  if (accumulator) {
+    composer.renderToScreen = false;
+    composer.setPixelRatio(renderer.getPixelRatio() * quality.supersample);
+    updateBloomResolution();
+  }
+
+  try {
+    for (let i = 0; i < totalFrames; i++) {
+      setRecordingProgress(i / totalFrames, 'Encoding (WebCodecs)');
+      if (accumulator) {
+        renderAccumulatedFrame(accumulator, substeps, quality.supersample);
+      } else {
+        stepFrame(1 / CAPTURE_FPS);
+      }
+      const frame = new VideoFrame(canvas, { timestamp: i });
+      encoder.encode(frame);
+      frame.close();
+      if (i > 0 && i % flushInterval === 0) {
+        await encoder.flush();
+        await new Promise((r) => setTimeout(r, 0));
+      }
+    }
+  } finally {
+    if (accumulator) {
+      accumulator.dispose();
+      composer.renderToScreen = true;
+      composer.setPixelRatio(composerPixelRatio);
+      updateBloomResolution();
     }
   }
 
@@ -1443,13 +2209,8 @@ async function renderVideoCapture(
   const prevIgnoreAudio = ignoreAudioForModulation;
   ignoreAudioForModulation = true;
   if (opts.startAtZero) {
-    state.elapsed = 0;
     state.paused = false;
-    state.autoPaused = false;
-    sim.reset();
-    pipeManager.resetGridSize(sim.config.gridSize);
-    pipeManager.sync([], renderSettings);
-    juliaBulbVisual?.reset(room.size, mirrorInset, renderSettings, state.elapsed);
+    resetSceneToStart();
   }
 
   const renderSize = videoResolutionToRenderSize(opts.videoResolution);
@@ -1585,6 +2346,8 @@ function setupGui() {
   const gui = new GUI();
   guiInstance = gui;
   gui.title('Pipes 98-ish');
+  // Any finished edit changes what a render from t=0 would produce, so locked previews replay.
+  gui.onFinishChange(() => invalidateSceneCheckpoints());
 
   const simFolder = gui.addFolder('Simulation');
   simFolder
@@ -1604,22 +2367,27 @@ function setupGui() {
     .onFinishChange((v: number) => {
       const size = Math.max(8, Math.floor(v));
       defaultSimConfig.gridSize = size;
-      sim.reset({ gridSize: size });
-      pipeManager.resetGridSize(size);
-      room.updateSize(size, renderSettings);
-      teapotVisual?.syncToRoom(room.size);
-      juliaBulbVisual?.syncToRoom(room.size, mirrorInset, renderSettings);
-      roomMirrors.update(room.size, renderSettings.roomColor);
-      disposeGridLines(gridLines);
-      scene.remove(gridLines);
-      gridLines = createGridOutline(size);
-      syncGridVisibility();
-      scene.add(gridLines);
-      const bounds = cameraDistanceBounds();
-      cameraControl.distance = clamp(cameraControl.distance, bounds.min, bounds.max);
-      refreshCameraDistanceController();
-      refreshBokehFocusController();
+      defaultSimConfig.gridSizeX = size;
+      defaultSimConfig.gridSizeY = size;
+      defaultSimConfig.gridSizeZ = size;
+      gridAxisControllers.forEach((c) => c.updateDisplay());
+      applyGridDims();
     });
+  gridAxisControllers = (
+    [
+      ['gridSizeX', 'Grid X (width)'],
+      ['gridSizeY', 'Grid Y (height)'],
+      ['gridSizeZ', 'Grid Z (depth)'],
+    ] as const
+  ).map(([key, label]) =>
+    simFolder
+      .add(defaultSimConfig, key, 8, 128, 1)
+      .name(label)
+      .onFinishChange((v: number) => {
+        defaultSimConfig[key] = Math.max(8, Math.floor(v));
+        applyGridDims();
+      })
+  );
   targetCountController = simFolder.add(defaultSimConfig, 'targetPipeCount', 1, 64, 1).name('Pipe cap').onChange((v: number) => {
     sim.config.targetPipeCount = v;
     modulationBaseSetters['sim.targetCount']?.(sim.config.targetPipeCount);
@@ -1653,33 +2421,199 @@ function setupGui() {
     .onChange((v: boolean) => {
       sim.config.disableTailShrink = v;
     });
+  simFolder
+    .add(defaultSimConfig, 'branchProbability', 0, 0.5, 0.01)
+    .name('Branch probability')
+    .onChange((v: number) => {
+      sim.config.branchProbability = clamp(v, 0, 0.5);
+      modulationBaseSetters['sim.branchChance']?.(sim.config.branchProbability);
+    });
+  simFolder
+    .add(defaultSimConfig, 'maxBranchDepth', 0, 6, 1)
+    .name('Max branch depth')
+    .onChange((v: number) => {
+      sim.config.maxBranchDepth = Math.max(0, Math.floor(v));
+    });
+  simFolder
+    .add(speciesSettings, 'preset', {
+      ...Object.fromEntries(Object.entries(SPECIES_PRESETS).map(([id, preset]) => [preset.label, id])),
+      'Custom (from project)': 'custom',
+    })
+    .name('Species (resets)')
+    .onChange((id: string) => {
+      const preset = SPECIES_PRESETS[id];
+      if (!preset) return;
+      defaultSimConfig.species = copySpecies(preset.species);
+      reseedRandomStreams();
+      sim.reset({ species: defaultSimConfig.species });
+      state.autoPaused = false;
+    });
+  simFolder
+    .add(defaultSimConfig, 'symmetry', SYMMETRY_LABELS)
+    .name('Symmetry (resets)')
+    .onChange(() => {
+      reseedRandomStreams();
+      sim.reset({ symmetry: defaultSimConfig.symmetry });
+      state.autoPaused = false;
+    });
+  simFolder
+    .add(defaultSimConfig, 'surfaceCrawl')
+    .name('Crawl surfaces (resets)')
+    .onChange(() => {
+      reseedRandomStreams();
+      sim.reset({ surfaceCrawl: defaultSimConfig.surfaceCrawl });
+      state.autoPaused = false;
+    });
+  simFolder
+    .add(defaultSimConfig, 'wrap')
+    .name('Wrap through walls (resets)')
+    .onChange(() => {
+      reseedRandomStreams();
+      sim.reset({ wrap: defaultSimConfig.wrap });
+      state.autoPaused = false;
+    });
+  const resetFolder = simFolder.addFolder('Reset');
+  resetFolder.add(resetSettings, 'strategy', RESET_STRATEGIES).name('Strategy');
+  resetFolder.add(resetSettings, 'trigger', RESET_TRIGGERS).name('Trigger (or stuck)');
+  resetFolder.add(resetSettings, 'fillThreshold', 0.05, 1, 0.01).name('Fill ratio');
+  resetFolder.add(resetSettings, 'interval', 1, 600, 1).name('Timer (s)');
+  resetFolder.add(resetSettings, 'duration', 0.1, 10, 0.1).name('Transition (s)');
+  resetFolder.close();
+  const beatFolder = simFolder.addFolder('Beat sync');
+  const applyBeatSync = () => {
+    sim.config.beatSync = { ...beatSync };
+  };
+  beatFolder.add(beatSync, 'enabled').name('Lock growth to BPM').onChange(applyBeatSync);
+  beatFolder.add(beatSync, 'division', BEAT_DIVISIONS).name('Tick division').onChange(applyBeatSync);
+  beatFolder.add(beatSync, 'turnsOn', BEAT_GRIDS).name('Turns on').onChange(applyBeatSync);
+  beatFolder.add(beatSync, 'forceTurns').name('Force turns').onChange(applyBeatSync);
+  beatFolder.add(beatSync, 'spawnsOn', BEAT_GRIDS).name('Spawns on').onChange(applyBeatSync);
+  beatFolder.close();
+  const growthFolder = simFolder.addFolder('Growth');
+  growthFolder
+    .add(
+      defaultSimConfig,
+      'growthPolicy',
+      Object.fromEntries(GROWTH_POLICY_IDS.map((id) => [GROWTH_POLICIES[id].label, id]))
+    )
+    .name('Policy')
+    .onChange((v: unknown) => {
+      const id = normalizeGrowthPolicyId(v) ?? 'randomWalk';
+      defaultSimConfig.growthPolicy = id;
+      sim.config.growthPolicy = id;
+      syncGrowthParamControllers();
+    });
+  growthParamControllers = GROWTH_POLICY_IDS.flatMap((id) =>
+    GROWTH_POLICIES[id].params.map((spec) => ({
+      spec,
+      controller: growthFolder
+        .add(growthParams, spec.key, spec.min, spec.max, spec.step)
+        .name(spec.label)
+        .onChange((v: number) => {
+          setGrowthParam(spec, v);
+          modulationBaseSetters[`growth.${spec.key}`]?.(growthParams[spec.key]);
+        }),
+    }))
+  );
+  syncGrowthParamControllers();
+
+  const steeringFolder = simFolder.addFolder('Steering field');
+  steeringFolder
+    .add(
+      defaultSimConfig,
+      'steeringField',
+      Object.fromEntries(STEERING_FIELD_IDS.map((id) => [STEERING_FIELDS[id].label, id]))
+    )
+    .name('Field')
+    .onChange((v: unknown) => {
+      const id = normalizeSteeringFieldId(v) ?? 'none';
+      defaultSimConfig.steeringField = id;
+      sim.config.steeringField = id;
+      syncSteeringParamControllers();
+    });
+  steeringParamControllers = STEERING_PARAM_SPECS.map((spec) => ({
+    spec,
+    controller: steeringFolder
+      .add(steeringParams, spec.key, spec.min, spec.max, spec.step)
+      .name(spec.label)
+      .onChange((v: number) => {
+        setSteeringParam(spec, v);
+        modulationBaseSetters[`steer.${spec.key}`]?.(steeringParams[spec.key]);
+      }),
+  }));
+  syncSteeringParamControllers();
+
+  const maskFolder = simFolder.addFolder('Voxel mask');
+  const maskFileInput = document.createElement('input');
+  maskFileInput.type = 'file';
+  maskFileInput.accept = '.vox,.json,application/json';
+  maskFileInput.style.display = 'none';
+  document.body.appendChild(maskFileInput);
+  maskFileInput.addEventListener('change', async () => {
+    const file = maskFileInput.files?.[0];
+    if (!file) return;
+    try {
+      setVoxelMask(await loadVoxelMaskFile(file));
+    } catch (err) {
+      console.error('Failed to load voxel mask', err);
+    }
+  });
+  const maskActions = {
+    load: () => {
+      maskFileInput.value = '';
+      maskFileInput.click();
+    },
+    clear: () => setVoxelMask(null),
+  };
+  maskFolder.add(maskActions, 'load').name('Load .vox / JSON (resets)');
+  maskFolder.add(voxelMaskSettings, 'name').name('Loaded').disable();
+  maskFolder
+    .add(voxelMaskSettings, 'mode', { Obstacles: 'obstacle', 'Containment (grow inside)': 'containment' })
+    .name('Mode (resets)')
+    .onChange(() => setVoxelMask(voxelMask));
+  maskFolder
+    .add(voxelMaskSettings, 'display', { Hidden: 'hidden', Solid: 'solid', Wireframe: 'wireframe' })
+    .name('Display');
+  maskFolder.add(maskActions, 'clear').name('Clear mask (resets)');
   simFolder.add(state, 'paused').name('Pause').onChange((v: boolean) => {
     if (!v) state.autoPaused = false;
   });
+  simFolder.add(simWorkerSettings, 'enabled').name('Run in worker');
   simFolder
-    .add(
-      {
-        reset: () => {
-          sim.reset();
-          pipeManager.resetGridSize(sim.config.gridSize);
-          room.updateSize(sim.config.gridSize, renderSettings);
-          teapotVisual?.syncToRoom(room.size);
-          juliaBulbVisual?.reset(room.size, mirrorInset, renderSettings, state.elapsed);
-          roomMirrors.update(room.size, renderSettings.roomColor);
-          disposeGridLines(gridLines);
-          scene.remove(gridLines);
-          gridLines = createGridOutline(sim.config.gridSize);
-          syncGridVisibility();
-          scene.add(gridLines);
-          refreshCameraDistanceController();
-          refreshBokehFocusController();
-          state.autoPaused = false;
-          modulation.syncBaseFromTargets();
-        },
-      },
-      'reset'
-    )
-    .name('Reset');
+    .add(timelineLockSettings, 'locked')
+    .name('Lock to timeline')
+    .onChange(() => {
+      lockedFrame = null;
+    });
+  const simActions = {
+    reset: () => {
+      reseedRandomStreams();
+      sim.reset();
+      pipeManager.resetGridSize(sim.gridDims);
+      room.updateSize(sim.gridDims, renderSettings);
+      teapotVisual?.syncToRoom(room.minSize);
+      juliaBulbVisual?.reset(room.minSize, mirrorInset, renderSettings, state.elapsed);
+      roomMirrors.update(room.size, renderSettings.roomColor);
+      rebuildGrid(sim.gridDims);
+      refreshCameraDistanceController();
+      refreshBokehFocusController();
+      state.autoPaused = false;
+      modulation.syncBaseFromTargets();
+    },
+    newSeed: () => {
+      setProjectSeed(randomSeed());
+      simActions.reset();
+    },
+  };
+  seedController = simFolder
+    .add(seedSettings, 'seed')
+    .name('Seed (resets)')
+    .onFinishChange((v: number) => {
+      setProjectSeed(v);
+      simActions.reset();
+    });
+  simFolder.add(simActions, 'newSeed').name('New seed');
+  simFolder.add(simActions, 'reset').name('Reset');
   simFolder
     .add(
       {
@@ -1691,6 +2625,11 @@ function setupGui() {
     )
     .name('Randomize all');
   simFolder.add(videoCaptureSettings, 'durationSeconds', 5, 20, 1).name('Video length (s)');
+  const captureQualityFolder = simFolder.addFolder('Render quality (WebCodecs)');
+  captureQualityFolder.add(captureQuality, 'subframes', 1, MAX_SUBFRAMES, 1).name('Motion blur sub-steps');
+  captureQualityFolder.add(captureQuality, 'shutterAngle', 1, 360, 1).name('Shutter angle (°)');
+  captureQualityFolder.add(captureQuality, 'supersample', { '1x': 1, '2x': 2, '4x': 4 }).name('Supersample');
+  captureQualityFolder.close();
   simFolder
     .add(
       {
@@ -1729,6 +2668,61 @@ function setupGui() {
       'Catmull-Rom (chordal)': 'chordal',
     })
     .name('Path type');
+  pipeFolder.add(renderSettings, 'pipeProfile', PIPE_PROFILES).name('Profile');
+  pipeFolder
+    .add(renderSettings, 'profileTwist', -180, 180, 1)
+    .name('Profile twist (°/cell)')
+    .onChange(() => {
+      modulationBaseSetters['pipes.profileTwist']?.(renderSettings.profileTwist);
+    });
+  pipeFolder.add(renderSettings, 'profileCustom').name('Custom profile (x,y …)');
+  const radiusFolder = pipeFolder.addFolder('Radius animation');
+  radiusFolder
+    .add(renderSettings, 'radiusTaper', 0, 1, 0.01)
+    .name('Tail taper')
+    .onChange((v: number) => {
+      modulationBaseSetters['pipes.radiusTaper']?.(v);
+    });
+  radiusFolder.add(renderSettings, 'radiusTaperLength', 0.5, 40, 0.5).name('Taper length (cells)');
+  radiusFolder
+    .add(renderSettings, 'radiusHead', -0.9, 3, 0.01)
+    .name('Head bulge')
+    .onChange((v: number) => {
+      modulationBaseSetters['pipes.radiusHead']?.(v);
+    });
+  radiusFolder.add(renderSettings, 'radiusHeadLength', 0.5, 20, 0.5).name('Bulge length (cells)');
+  radiusFolder
+    .add(renderSettings, 'radiusPulse', 0, 3, 0.01)
+    .name('Pulse size')
+    .onChange((v: number) => {
+      modulationBaseSetters['pipes.radiusPulse']?.(v);
+    });
+  radiusFolder.add(renderSettings, 'radiusPulseWavelength', 1, 64, 0.5).name('Pulse spacing (cells)');
+  radiusFolder
+    .add(renderSettings, 'radiusPulseSpeed', 0, 60, 0.1)
+    .name('Travel speed (cells/s)')
+    .onChange((v: number) => {
+      modulationBaseSetters['pipes.radiusPulseSpeed']?.(v);
+    });
+  radiusFolder.add(renderSettings, 'radiusPulseSync').name('Sync speed to BPM');
+  radiusFolder.add(renderSettings, 'radiusPulseDivision', BEAT_DIVISIONS).name('One spacing per');
+  radiusFolder
+    .add(renderSettings, 'radiusSwell', -0.9, 3, 0.01)
+    .name('Swell (sent tail → head)')
+    .onChange((v: number) => {
+      modulationBaseSetters['pipes.radiusSwell']?.(v);
+    });
+  radiusFolder.close();
+  pipeFolder.add(renderSettings, 'jointStyle', JOINT_STYLES).name('Joint style');
+  pipeFolder.add(renderSettings, 'turnFlashEnabled').name('Flash on turns');
+  const ghostFolder = pipeFolder.addFolder('Ghost trails');
+  ghostFolder.add(renderSettings, 'ghostEnabled').name('Enabled');
+  ghostFolder.add(renderSettings, 'ghostStyle', { Emissive: 'emissive', Wireframe: 'wireframe' }).name('Style');
+  ghostFolder.add(renderSettings, 'ghostLifetime', 0.5, 30, 0.5).name('Lifetime (s)');
+  ghostFolder.add(renderSettings, 'ghostOpacity', 0, 1, 0.01).name('Opacity');
+  ghostFolder.addColor(renderSettings, 'ghostFadeColor').name('Fade to color');
+  ghostFolder.add(renderSettings, 'ghostDecay', 0.25, 4, 0.05).name('Decay curve');
+  ghostFolder.close();
   pipeFolder
     .add(renderSettings, 'hidePipesInMainCamera')
     .name('Hide in main camera')
@@ -1769,7 +2763,7 @@ function setupGui() {
     });
   juliaFolder.add(renderSettings, 'juliaScale', 0.12, 0.75, 0.005).name('Size').onChange((v: number) => {
     renderSettings.juliaScale = clamp(v, 0.12, 0.75);
-    juliaBulbVisual?.syncToRoom(room.size, mirrorInset, renderSettings);
+    juliaBulbVisual?.syncToRoom(room.minSize, mirrorInset, renderSettings);
     modulationBaseSetters['julia.size']?.(renderSettings.juliaScale);
   });
   juliaFolder.add(renderSettings, 'juliaSpeed', 0, 0.4, 0.005).name('Speed').onChange((v: number) => {
@@ -1892,9 +2886,9 @@ function setupGui() {
     .onChange((v: number) => {
       roomPadding = Math.min(70, Math.max(0, v));
       roomGuiSettings.wallGap = roomPadding;
-      room.updateSize(sim.config.gridSize, renderSettings);
-      teapotVisual?.syncToRoom(room.size);
-      juliaBulbVisual?.syncToRoom(room.size, mirrorInset, renderSettings);
+      room.updateSize(sim.gridDims, renderSettings);
+      teapotVisual?.syncToRoom(room.minSize);
+      juliaBulbVisual?.syncToRoom(room.minSize, mirrorInset, renderSettings);
       roomMirrors.update(room.size, renderSettings.roomColor);
       clampCameraToRoom(camera.position);
       const { min, max } = cameraDistanceBounds();
@@ -1984,7 +2978,7 @@ function setupGui() {
       mirrorInset = Math.max(0, v);
       roomMirrors.setInset(mirrorInset);
       roomMirrors.update(room.size, renderSettings.roomColor);
-      juliaBulbVisual?.syncToRoom(room.size, mirrorInset, renderSettings);
+      juliaBulbVisual?.syncToRoom(room.minSize, mirrorInset, renderSettings);
       modulationBaseSetters['mirror.inset']?.(mirrorInset);
     });
   mirrorFolder
@@ -2250,7 +3244,7 @@ function setupGui() {
     .onChange((mode: CameraMode) => {
       cameraControl.mode = mode;
       if (mode === 'manual' && cameraControl.distance === 0) {
-        cameraControl.distance = room.size * 0.48;
+        cameraControl.distance = room.minSize * 0.48;
       }
       refreshCameraDistanceController();
       cameraZoomController?.setValue(cameraControl.zoomFactor);
@@ -2403,6 +3397,117 @@ function setupGui() {
   const postFolder = gui.addFolder('Post FX');
   const fxaaController = postFolder.add(renderSettings, 'fxaaEnabled').name('FXAA');
   const smaaController = postFolder.add(renderSettings, 'smaaEnabled').name('SMAA');
+  postFxStackFolder = postFolder.addFolder('Stack order');
+  rebuildPostFxStackGui();
+  postFxStackFolder.close();
+
+  const toneFolder = postFolder.addFolder('Tone mapping');
+  toneFolder.add(renderSettings, 'toneMapping', TONE_MAPPING_LABELS).name('Operator').onChange(() => syncToneMapping());
+  toneFolder
+    .add(renderSettings, 'toneMappingExposure', 0, 4, 0.01)
+    .name('Exposure')
+    .onChange((v: number) => {
+      renderSettings.toneMappingExposure = clamp(v, 0, 8);
+      syncToneMapping();
+      modulationBaseSetters['post.exposure']?.(renderSettings.toneMappingExposure);
+    });
+  toneFolder
+    .add(renderSettings, 'outputColorSpace', OUTPUT_COLOR_SPACE_LABELS)
+    .name('Output color space')
+    .onChange(() => syncToneMapping());
+  toneFolder.add(renderSettings, 'autoExposureEnabled').name('Auto exposure').onChange(() => syncToneMapping());
+  toneFolder
+    .add(renderSettings, 'autoExposureKey', 0.02, 1, 0.01)
+    .name('Auto target (mid grey)')
+    .onChange((v: number) => {
+      modulationBaseSetters['post.autoExposureKey']?.(v);
+    });
+  toneFolder
+    .add(renderSettings, 'autoExposureSpeed', 0.05, 10, 0.05)
+    .name('Auto adapt speed')
+    .onChange((v: number) => {
+      modulationBaseSetters['post.autoExposureSpeed']?.(v);
+    });
+  toneFolder.close();
+
+  const lutFolder = postFolder.addFolder('Color grading (LUT)');
+  lutFolder.add(renderSettings, 'lutEnabled').name('Enabled').onChange(() => syncLutUniforms());
+  lutFolder.add(renderSettings, 'lutIntensity', 0, 1, 0.01).name('Intensity').onChange((v: number) => {
+    renderSettings.lutIntensity = clamp(v, 0, 1);
+    syncLutUniforms();
+    modulationBaseSetters['post.lutIntensity']?.(renderSettings.lutIntensity);
+  });
+  lutFolder.add(renderSettings, 'lutCrossfade', 0, 1, 0.01).name('Crossfade A → B').onChange((v: number) => {
+    renderSettings.lutCrossfade = clamp(v, 0, 1);
+    syncLutUniforms();
+    modulationBaseSetters['post.lutCrossfade']?.(renderSettings.lutCrossfade);
+  });
+  const lutFileInput = document.createElement('input');
+  lutFileInput.type = 'file';
+  lutFileInput.accept = '.cube';
+  lutFileInput.style.display = 'none';
+  document.body.appendChild(lutFileInput);
+  let lutSlot: 'a' | 'b' = 'a';
+  lutFileInput.addEventListener('change', async () => {
+    const file = lutFileInput.files?.[0];
+    if (!file) return;
+    try {
+      setColorLut(lutSlot, await loadCubeLutFile(file));
+    } catch (err) {
+      console.error('Failed to load LUT', err);
+    }
+  });
+  const lutActions = {
+    loadA: () => {
+      lutSlot = 'a';
+      lutFileInput.value = '';
+      lutFileInput.click();
+    },
+    loadB: () => {
+      lutSlot = 'b';
+      lutFileInput.value = '';
+      lutFileInput.click();
+    },
+    clearA: () => setColorLut('a', null),
+    clearB: () => setColorLut('b', null),
+  };
+  lutFolder.add(lutActions, 'loadA').name('Load LUT A (.cube)');
+  lutFolder.add(colorLutSettings, 'a').name('LUT A').disable();
+  lutFolder.add(lutActions, 'clearA').name('Clear LUT A');
+  lutFolder.add(lutActions, 'loadB').name('Load LUT B (.cube)');
+  lutFolder.add(colorLutSettings, 'b').name('LUT B').disable();
+  lutFolder.add(lutActions, 'clearB').name('Clear LUT B');
+  lutFolder.close();
+
+  const customShaderFolder = postFolder.addFolder('Custom shader');
+  customShaderFolder.add(renderSettings, 'customShaderEnabled').name('Enabled').onChange((v: boolean) => {
+    customShaderPass.enabled = v;
+    customShaderPass.compile(renderer);
+  });
+  customShaderEditor = document.createElement('textarea');
+  customShaderEditor.className = 'custom-shader-source';
+  customShaderEditor.spellcheck = false;
+  // Keep typing (arrow keys in particular) away from the camera controls.
+  customShaderEditor.addEventListener('keydown', (e) => e.stopPropagation());
+  customShaderFolder.$children.appendChild(customShaderEditor);
+  customShaderFolder
+    .add(
+      {
+        compile: () => {
+          renderSettings.customShaderSource = customShaderEditor?.value ?? renderSettings.customShaderSource;
+          syncCustomShaderControls();
+          customShaderPass.compile(renderer);
+        },
+      },
+      'compile'
+    )
+    .name('Compile');
+  customShaderErrorView = document.createElement('pre');
+  customShaderErrorView.className = 'custom-shader-error';
+  customShaderFolder.$children.appendChild(customShaderErrorView);
+  customShaderUniformFolder = customShaderFolder.addFolder('Uniforms');
+  rebuildCustomShaderGui();
+  customShaderFolder.close();
   fxaaController.onChange((v: boolean) => {
     renderSettings.fxaaEnabled = v;
     if (v) {
@@ -2653,6 +3758,40 @@ function setupModulationTargets() {
     },
   });
 
+  register('sim.branchChance', 'Simulation', 'Branch probability', {
+    min: 0,
+    max: 0.5,
+    range: 0.5,
+    get: () => defaultSimConfig.branchProbability ?? 0,
+    set: (v: number) => {
+      const clamped = clamp(v, 0, 0.5);
+      defaultSimConfig.branchProbability = clamped;
+      sim.config.branchProbability = clamped;
+    },
+  });
+
+  for (const id of GROWTH_POLICY_IDS) {
+    for (const spec of GROWTH_POLICIES[id].params) {
+      register(`growth.${spec.key}`, 'Growth', spec.label, {
+        min: spec.min,
+        max: spec.max,
+        range: spec.max - spec.min,
+        get: () => growthParams[spec.key],
+        set: (v: number) => setGrowthParam(spec, v),
+      });
+    }
+  }
+
+  for (const spec of STEERING_PARAM_SPECS) {
+    register(`steer.${spec.key}`, 'Steering', spec.label, {
+      min: spec.min,
+      max: spec.max,
+      range: spec.max - spec.min,
+      get: () => steeringParams[spec.key],
+      set: (v: number) => setSteeringParam(spec, v),
+    });
+  }
+
   register('room.roughness', 'Room', 'Roughness', {
     min: 0,
     max: 1,
@@ -2703,9 +3842,9 @@ function setupModulationTargets() {
     set: (v: number) => {
       roomPadding = clamp(v, 0, 70);
       roomGuiSettings.wallGap = roomPadding;
-      room.updateSize(sim.config.gridSize, renderSettings);
-      teapotVisual?.syncToRoom(room.size);
-      juliaBulbVisual?.syncToRoom(room.size, mirrorInset, renderSettings);
+      room.updateSize(sim.gridDims, renderSettings);
+      teapotVisual?.syncToRoom(room.minSize);
+      juliaBulbVisual?.syncToRoom(room.minSize, mirrorInset, renderSettings);
       roomMirrors.update(room.size, renderSettings.roomColor);
       clampCameraToRoom(camera.position);
       const { min, max } = cameraDistanceBounds();
@@ -2724,7 +3863,7 @@ function setupModulationTargets() {
       mirrorInset = Math.max(0, v);
       roomMirrors.setInset(mirrorInset);
       roomMirrors.update(room.size, renderSettings.roomColor);
-      juliaBulbVisual?.syncToRoom(room.size, mirrorInset, renderSettings);
+      juliaBulbVisual?.syncToRoom(room.minSize, mirrorInset, renderSettings);
     },
   });
   register('mirror.maxResolution', 'Mirrors', 'Max resolution', {
@@ -2821,6 +3960,60 @@ function setupModulationTargets() {
       renderSettings.cornerTension = clamp(v, 0, 3);
     },
   });
+  register('pipes.profileTwist', 'Pipes', 'Profile twist', {
+    min: -180,
+    max: 180,
+    range: 360,
+    get: () => renderSettings.profileTwist,
+    set: (v: number) => {
+      renderSettings.profileTwist = clamp(v, -180, 180);
+    },
+  });
+  register('pipes.radiusTaper', 'Pipes', 'Tail taper', {
+    min: 0,
+    max: 1,
+    range: 1,
+    get: () => renderSettings.radiusTaper,
+    set: (v: number) => {
+      renderSettings.radiusTaper = clamp(v, 0, 1);
+    },
+  });
+  register('pipes.radiusHead', 'Pipes', 'Head bulge', {
+    min: -0.9,
+    max: 3,
+    range: 2,
+    get: () => renderSettings.radiusHead,
+    set: (v: number) => {
+      renderSettings.radiusHead = clamp(v, -0.9, 3);
+    },
+  });
+  register('pipes.radiusPulse', 'Pipes', 'Radius pulse size', {
+    min: 0,
+    max: 3,
+    range: 2,
+    get: () => renderSettings.radiusPulse,
+    set: (v: number) => {
+      renderSettings.radiusPulse = clamp(v, 0, 3);
+    },
+  });
+  register('pipes.radiusPulseSpeed', 'Pipes', 'Radius travel speed', {
+    min: 0,
+    max: 60,
+    range: 30,
+    get: () => renderSettings.radiusPulseSpeed,
+    set: (v: number) => {
+      renderSettings.radiusPulseSpeed = clamp(v, 0, 60);
+    },
+  });
+  register('pipes.radiusSwell', 'Pipes', 'Radius swell', {
+    min: -0.9,
+    max: 3,
+    range: 2,
+    get: () => renderSettings.radiusSwell,
+    set: (v: number) => {
+      renderSettings.radiusSwell = clamp(v, -0.9, 3);
+    },
+  });
   register('pipes.metalness', 'Pipes', 'Metalness', {
     min: 0,
     max: 1,
@@ -2878,7 +4071,7 @@ function setupModulationTargets() {
     get: () => renderSettings.juliaScale,
     set: (v: number) => {
       renderSettings.juliaScale = clamp(v, 0.12, 0.75);
-      juliaBulbVisual?.syncToRoom(room.size, mirrorInset, renderSettings);
+      juliaBulbVisual?.syncToRoom(room.minSize, mirrorInset, renderSettings);
     },
   });
   register('julia.speed', 'Julia bulb', 'Speed', {
@@ -3518,6 +4711,56 @@ function setupModulationTargets() {
     },
   });
 
+  register('post.exposure', 'Post FX', 'Exposure', {
+    min: 0,
+    max: 4,
+    range: 4,
+    get: () => renderSettings.toneMappingExposure,
+    set: (v: number) => {
+      renderSettings.toneMappingExposure = clamp(v, 0, 8);
+      syncToneMapping();
+    },
+  });
+  register('post.autoExposureKey', 'Post FX', 'Auto exposure target', {
+    min: 0.02,
+    max: 1,
+    range: 1,
+    get: () => renderSettings.autoExposureKey,
+    set: (v: number) => {
+      renderSettings.autoExposureKey = clamp(v, 0.001, 10);
+    },
+  });
+  register('post.autoExposureSpeed', 'Post FX', 'Auto exposure speed', {
+    min: 0.05,
+    max: 10,
+    range: 10,
+    get: () => renderSettings.autoExposureSpeed,
+    set: (v: number) => {
+      renderSettings.autoExposureSpeed = clamp(v, 0, 100);
+    },
+  });
+
+  register('post.lutIntensity', 'Post FX', 'LUT intensity', {
+    min: 0,
+    max: 1,
+    range: 1,
+    get: () => renderSettings.lutIntensity,
+    set: (v: number) => {
+      renderSettings.lutIntensity = clamp(v, 0, 1);
+      syncLutUniforms();
+    },
+  });
+  register('post.lutCrossfade', 'Post FX', 'LUT crossfade A → B', {
+    min: 0,
+    max: 1,
+    range: 1,
+    get: () => renderSettings.lutCrossfade,
+    set: (v: number) => {
+      renderSettings.lutCrossfade = clamp(v, 0, 1);
+      syncLutUniforms();
+    },
+  });
+
   register('camera.orbitSpeed', 'Camera', 'Orbit speed', {
     min: 0.02,
     max: 0.6,
@@ -3699,6 +4942,71 @@ function setupModulationTargets() {
   return setters;
 }
 
+/**
+ * Clears the grid once the configured trigger fires, using the chosen strategy. Retracts run inside
+ * the simulation (`beginWipe`); dissolves and flashes are timed here and reset the simulation at
+ * their clear point.
+ */
+function advanceResetTransition(dt: number, allStuck: boolean) {
+  if (resetTransition) {
+    resetTransition.elapsed += dt;
+    const progress = resetTransition.elapsed / Math.max(0.01, resetSettings.duration);
+    if (!resetTransition.cleared && progress >= resetClearPoint(resetTransition.strategy)) {
+      resetTransition.cleared = true;
+      sim.reset();
+    }
+    if (progress >= 1) resetTransition = null;
+    return;
+  }
+  if (sim.wiping) return;
+
+  const run = { allStuck, fillRatio: sim.fillRatio, time: sim.time };
+  if (!shouldTriggerReset(resetSettings, run)) {
+    if (allStuck) state.autoPaused = true;
+    return;
+  }
+  switch (resetSettings.strategy) {
+    case 'retract':
+      sim.beginWipe(resetSettings.duration);
+      break;
+    case 'dissolve':
+    case 'flash':
+      resetTransition = { strategy: resetSettings.strategy, elapsed: 0, cleared: false };
+      break;
+    default:
+      sim.reset();
+  }
+}
+
+function syncResetTransitionVisuals() {
+  const progress = resetTransition ? resetTransition.elapsed / Math.max(0.01, resetSettings.duration) : 0;
+  const { fade, flash } = resetTransitionLevels(activeSimulationId === 'tubes' ? resetTransition : null, progress);
+  const transparent = fade < 1;
+  if (pipeMaterial.transparent !== transparent) {
+    pipeMaterial.transparent = transparent;
+    pipeMaterial.needsUpdate = true;
+  }
+  pipeMaterial.opacity = fade;
+  pipeGlowMaterial.opacity = renderSettings.neonStrength * fade;
+  flashWipePass.enabled = flash > 0;
+  (flashWipePass.uniforms as any).amount.value = flash;
+}
+
+/** Hook point for everything that reacts to pipe growth rather than polling pipe state. */
+function handleSimulationEvents(events: SimulationEvent[]) {
+  for (const event of events) {
+    if (event.type === 'turn' && renderSettings.turnFlashEnabled) {
+      const pipe = sim.pipes.find((p) => p.id === event.pipeId);
+      if (pipe) pipeManager.addTurnFlash(pipe, event.cell, event.time);
+    }
+    // Ghosts age on the scene clock, which keeps running when the simulation resets.
+    if (event.type === 'dying' && renderSettings.ghostEnabled) {
+      const pipe = sim.pipes.find((p) => p.id === event.pipeId);
+      if (pipe) pipeManager.addGhost(pipe, state.elapsed);
+    }
+  }
+}
+
 function updateInfo(currentSim: Simulation, currentState: { fpsSmoothed: number; elapsed: number }) {
   const counts = {
     growing: 0,
@@ -3713,8 +5021,8 @@ function updateInfo(currentSim: Simulation, currentState: { fpsSmoothed: number;
   infoOverlay.textContent = `pipes: ${currentSim.pipes.length} • G:${counts.growing} D:${counts.dying} S:${counts.stuck} • fps: ${currentState.fpsSmoothed.toFixed(0)}`;
 }
 
-function createGridOutline(size: number): LineSegments {
-  const geo = new BoxGeometry(size, size, size);
+function createGridOutline(dims: Vec3): LineSegments {
+  const geo = new BoxGeometry(dims.x, dims.y, dims.z);
   const edges = new EdgesGeometry(geo);
   const mat = new LineBasicMaterial({ color: 0x33425f, transparent: true, opacity: 0.35 });
   const lines = new LineSegments(edges, mat);
@@ -3731,14 +5039,41 @@ function disposeGridLines(lines: LineSegments) {
   }
 }
 
-function rebuildGrid(size: number) {
+function rebuildGrid(dims: Vec3) {
   disposeGridLines(gridLines);
   scene.remove(gridLines);
-  gridLines = createGridOutline(size);
+  gridLines = createGridOutline(dims);
   syncGridVisibility();
   scene.add(gridLines);
 }
 
+/** Applies `mask` (or clears it) with the current mode and restarts the run from the project seed. */
+function setVoxelMask(mask: VoxelMask | null) {
+  voxelMask = mask;
+  voxelMaskSettings.name = mask?.name ?? '(none)';
+  reseedRandomStreams();
+  sim.setVoxelMask(mask, voxelMaskSettings.mode);
+  state.autoPaused = false;
+  guiInstance?.controllersRecursive().forEach((c) => c.updateDisplay());
+}
+
+/** Restarts the simulation and resizes the room for the grid axes currently in `defaultSimConfig`. */
+function applyGridDims() {
+  const dims = resolveGridDims(defaultSimConfig);
+  reseedRandomStreams();
+  sim.reset({ gridSize: defaultSimConfig.gridSize, gridSizeX: dims.x, gridSizeY: dims.y, gridSizeZ: dims.z });
+  pipeManager.resetGridSize(dims);
+  room.updateSize(dims, renderSettings);
+  teapotVisual?.syncToRoom(room.minSize);
+  juliaBulbVisual?.syncToRoom(room.minSize, mirrorInset, renderSettings);
+  roomMirrors.update(room.size, renderSettings.roomColor);
+  rebuildGrid(dims);
+  const bounds = cameraDistanceBounds();
+  cameraControl.distance = clamp(cameraControl.distance, bounds.min, bounds.max);
+  refreshCameraDistanceController();
+  refreshBokehFocusController();
+}
+
 function resetOrbitState(anchor: Vector3 = camera.position) {
   orbitState.targetPos.copy(anchor);
   orbitState.smoothedPos.copy(anchor);
@@ -3747,14 +5082,55 @@ function resetOrbitState(anchor: Vector3 = camera.position) {
 }
 
 function resetWallDriftState() {
-  wallDriftState.travelPhase = Math.random() * Math.PI * 2;
-  wallDriftState.bobPhase = Math.random() * Math.PI * 2;
+  wallDriftState.travelPhase = cameraRng() * Math.PI * 2;
+  wallDriftState.bobPhase = cameraRng() * Math.PI * 2;
+}
+
+/**
+ * Puts every camera mode back into its "just entered" state so a restarted run (render, project
+ * load) does not inherit smoothing/phase state from whatever the preview was doing.
+ */
+function resetCameraMotionState() {
+  camera.position.set(0, 0, 0);
+  resetOrbitState(camera.position);
+  railState.phase = 0;
+  railState.desiredPos.set(0, 0, 0);
+  railState.currentPos.set(0, 0, 0);
+  railState.lastPos.set(0, 0, 0);
+  railState.velocity.set(0, 0, 0);
+  railState.rawVelocity.set(0, 0, 0);
+  railState.desiredTarget.set(0, 0, 0);
+  railState.smoothedTarget.set(0, 0, 0);
+  railState.roll = 0;
+  resetWallDriftState();
+  lastCameraMode = cameraControl.mode;
+}
+
+function setProjectSeed(seed: number) {
+  seedSettings.seed = normalizeSeed(seed);
+  seedController?.updateDisplay();
+  reseedRandomStreams();
+}
+
+/**
+ * Rewinds all seeded streams to the start of the current seed. Call right before restarting the
+ * simulation so the run that follows is reproducible.
+ */
+function reseedRandomStreams() {
+  const seed = seedSettings.seed;
+  simRng.reseed(deriveSeed(seed, 'sim'));
+  cameraRng.reseed(deriveSeed(seed, 'camera'));
+  juliaRng.reseed(deriveSeed(seed, 'julia'));
+  uiRng.reseed(deriveSeed(seed, 'ui'));
+  modulation.setSeed(seed);
+  invalidateSceneCheckpoints();
 }
 
 function cameraDistanceBounds() {
+  const dims = sim.gridDims;
   return {
-    min: Math.max(2, (sim.config.gridSize + roomPadding) * 0.3),
-    max: room.size * 0.45,
+    min: Math.max(2, (Math.min(dims.x, dims.y, dims.z) + roomPadding) * 0.3),
+    max: room.maxSize * 0.45,
   };
 }
 
@@ -3776,7 +5152,7 @@ function refreshCameraDistanceController() {
 function bokehFocusMax() {
   // Focus is "distance along the camera look direction" in world units.
   // Keep this range large enough for big grids/padding, otherwise focus changes can appear to do nothing.
-  return Math.max(200, room.size * 2);
+  return Math.max(200, room.maxSize * 2);
 }
 
 function refreshBokehFocusController() {
@@ -3791,17 +5167,18 @@ function refreshBokehFocusController() {
   }
 }
 
-function cameraBoundsLimit(margin = CAMERA_MARGIN) {
+/** Per-axis half extent the camera may reach; the room can be a box, so each axis has its own. */
+function cameraBoundsLimit(margin = CAMERA_MARGIN, target = cameraLimit) {
   const inset = mirrorInset + CAMERA_WALL_EPS;
-  const halfSize = room.size * 0.5;
-  return Math.max(0.5, halfSize - inset - margin);
+  const axisLimit = (extent: number) => Math.max(0.5, extent * 0.5 - inset - margin);
+  return target.set(axisLimit(room.size.x), axisLimit(room.size.y), axisLimit(room.size.z));
 }
 
 function clampCameraToRoom(v: Vector3, margin = CAMERA_MARGIN) {
   const limit = cameraBoundsLimit(margin);
-  v.x = clamp(v.x, -limit, limit);
-  v.y = clamp(v.y, -limit, limit);
-  v.z = clamp(v.z, -limit, limit);
+  v.x = clamp(v.x, -limit.x, limit.x);
+  v.y = clamp(v.y, -limit.y, limit.y);
+  v.z = clamp(v.z, -limit.z, limit.z);
 }
 
 function buildWallBasis(normal: Vector3, outA: Vector3, outB: Vector3) {
@@ -3829,9 +5206,9 @@ function softLimitAxis(value: number, limit: number, softness = 0.12) {
 
 function softenCameraToRoom(v: Vector3, margin = CAMERA_MARGIN) {
   const limit = cameraBoundsLimit(margin);
-  v.x = softLimitAxis(v.x, limit);
-  v.y = softLimitAxis(v.y, limit);
-  v.z = softLimitAxis(v.z, limit);
+  v.x = softLimitAxis(v.x, limit.x);
+  v.y = softLimitAxis(v.y, limit.y);
+  v.z = softLimitAxis(v.z, limit.z);
 }
 
 function easeOut(t: number) {
@@ -3840,12 +5217,12 @@ function easeOut(t: number) {
 
 function keepOrbitInside(v: Vector3, margin = CAMERA_MARGIN) {
   const limit = cameraBoundsLimit(margin);
-  const safe = limit * 0.9;
-  const maxAbs = Math.max(Math.abs(v.x), Math.abs(v.y), Math.abs(v.z));
-  if (maxAbs <= safe || maxAbs < 1e-6) return;
-  const span = Math.max(0.0001, limit - safe);
-  const t = clamp((maxAbs - safe) / span, 0, 1);
-  const scale = 1 - easeOut(t) * (1 - safe / maxAbs);
+  // Measure against each axis' own limit so elongated rooms ease in along the short axes only as needed.
+  const safe = 0.9;
+  const maxRatio = Math.max(Math.abs(v.x) / limit.x, Math.abs(v.y) / limit.y, Math.abs(v.z) / limit.z);
+  if (maxRatio <= safe || maxRatio < 1e-6) return;
+  const t = clamp((maxRatio - safe) / (1 - safe), 0, 1);
+  const scale = 1 - easeOut(t) * (1 - safe / maxRatio);
   v.multiplyScalar(scale);
 }
 
@@ -3907,16 +5284,53 @@ function randomizeCameraSettings() {
   modulation.syncBaseFromTargets();
 }
 
+function setGrowthParam(spec: GrowthParamSpec, v: number) {
+  const value = clamp(spec.step >= 1 ? Math.round(v) : v, spec.min, spec.max);
+  growthParams[spec.key] = value;
+  if (sim.config.growthParams) sim.config.growthParams[spec.key] = value;
+  else sim.config.growthParams = { ...growthParams };
+}
+
+/** Shows only the parameters used by the selected growth policy. */
+function syncGrowthParamControllers() {
+  const params = new Set(GROWTH_POLICIES[defaultSimConfig.growthPolicy ?? 'randomWalk'].params.map((spec) => spec.key));
+  for (const { spec, controller } of growthParamControllers) {
+    controller.show(params.has(spec.key));
+    controller.updateDisplay();
+  }
+}
+
+function setSteeringParam(spec: SteeringParamSpec, v: number) {
+  const value = clamp(spec.step >= 1 ? Math.round(v) : v, spec.min, spec.max);
+  steeringParams[spec.key] = value;
+  if (sim.config.steeringParams) sim.config.steeringParams[spec.key] = value;
+  else sim.config.steeringParams = { ...steeringParams };
+}
+
+/** Shows only the parameters used by the selected steering field. */
+function syncSteeringParamControllers() {
+  const params = new Set(STEERING_FIELDS[defaultSimConfig.steeringField ?? 'none'].params.map((spec) => spec.key));
+  for (const { spec, controller } of steeringParamControllers) {
+    controller.show(params.has(spec.key));
+    controller.updateDisplay();
+  }
+}
+
 function clamp(v: number, min: number, max: number) {
   return Math.min(max, Math.max(min, v));
 }
 
 function randomizeAll() {
+  // Roll a fresh seed first so the randomized look (and the run that follows) can be reproduced.
+  setProjectSeed(randomSeed());
   defaultSimConfig.gridSize = randInt(14, 64);
+  defaultSimConfig.gridSizeX = defaultSimConfig.gridSize;
+  defaultSimConfig.gridSizeY = defaultSimConfig.gridSize;
+  defaultSimConfig.gridSizeZ = defaultSimConfig.gridSize;
   defaultSimConfig.targetPipeCount = randInt(6, 32);
   const maxLen = randBool(0.2) ? 0 : randInt(40, 260);
   defaultSimConfig.maxPipeLength = maxLen === 0 ? 0 : Math.max(4, maxLen);
-  defaultSimConfig.turnProbability = Math.random();
+  defaultSimConfig.turnProbability = uiRng();
   turnProxy.turnChance = defaultSimConfig.turnProbability * 100;
   defaultSimConfig.disableTailShrink = randBool(0.35);
 
@@ -3950,22 +5364,25 @@ function randomizeAll() {
 
   sim.reset({
     gridSize: defaultSimConfig.gridSize,
+    gridSizeX: defaultSimConfig.gridSizeX,
+    gridSizeY: defaultSimConfig.gridSizeY,
+    gridSizeZ: defaultSimConfig.gridSizeZ,
     maxPipeLength: defaultSimConfig.maxPipeLength,
     targetPipeCount: defaultSimConfig.targetPipeCount,
     growthInterval: defaultSimConfig.growthInterval,
     turnProbability: defaultSimConfig.turnProbability,
     disableTailShrink: defaultSimConfig.disableTailShrink,
   });
-  pipeManager.resetGridSize(defaultSimConfig.gridSize);
-  room.updateSize(defaultSimConfig.gridSize, renderSettings);
-  teapotVisual?.syncToRoom(room.size);
-  juliaBulbVisual?.syncToRoom(room.size, mirrorInset, renderSettings);
+  pipeManager.resetGridSize(sim.gridDims);
+  room.updateSize(sim.gridDims, renderSettings);
+  teapotVisual?.syncToRoom(room.minSize);
+  juliaBulbVisual?.syncToRoom(room.minSize, mirrorInset, renderSettings);
   room.material.color.set(renderSettings.roomColor);
   room.material.roughness = renderSettings.roomRoughness;
   room.material.metalness = renderSettings.roomMetalness;
   room.material.reflectivity = renderSettings.roomReflectivity;
   roomMirrors.update(room.size, renderSettings.roomColor);
-  rebuildGrid(defaultSimConfig.gridSize);
+  rebuildGrid(sim.gridDims);
 
   updatePipeMaterial(renderSettings);
   pipeManager.forceGeometryRefresh();
@@ -3979,6 +5396,7 @@ function randomizeAll() {
   state.autoPaused = false;
 
   gridSizeController?.setValue(defaultSimConfig.gridSize);
+  gridAxisControllers.forEach((c) => c.updateDisplay());
   targetCountController?.setValue(defaultSimConfig.targetPipeCount);
   maxLengthController?.setValue(defaultSimConfig.maxPipeLength);
   growthIntervalController?.setValue(defaultSimConfig.growthInterval);
@@ -3990,16 +5408,22 @@ function randomizeAll() {
 }
 
 function createRoom(
-  gridSize: number,
+  gridDims: Vec3,
   settings: Pick<RenderSettings, 'roomMetalness' | 'roomReflectivity' | 'roomRoughness' | 'roomColor'>
 ): {
   mesh: Mesh;
   material: MeshPhysicalMaterial;
-  readonly size: number;
-  updateSize: (s: number, rs: RenderSettings) => void;
+  /** Inner extents per axis (grid + padding on both sides). */
+  readonly size: Vector3;
+  /** Shortest/longest extent, for visuals and ranges that assume a cube. */
+  readonly minSize: number;
+  readonly maxSize: number;
+  updateSize: (dims: Vec3, rs: RenderSettings) => void;
 } {
-  let currentSize = gridSize + roomPadding * 2;
-  const geom = new BoxGeometry(currentSize, currentSize, currentSize);
+  const extentsFor = (dims: Vec3) =>
+    new Vector3(dims.x + roomPadding * 2, dims.y + roomPadding * 2, dims.z + roomPadding * 2);
+  let currentSize = extentsFor(gridDims);
+  const geom = new BoxGeometry(currentSize.x, currentSize.y, currentSize.z);
   const mat = new MeshPhysicalMaterial({
     color: new Color(settings.roomColor),
     roughness: settings.roomRoughness,
@@ -4011,10 +5435,10 @@ function createRoom(
   });
   const mesh = new Mesh(geom, mat);
 
-  const updateSize = (newGridSize: number, rs: RenderSettings) => {
-    currentSize = newGridSize + roomPadding * 2;
+  const updateSize = (newGridDims: Vec3, rs: RenderSettings) => {
+    currentSize = extentsFor(newGridDims);
     mesh.geometry.dispose();
-    mesh.geometry = new BoxGeometry(currentSize, currentSize, currentSize);
+    mesh.geometry = new BoxGeometry(currentSize.x, currentSize.y, currentSize.z);
     mat.roughness = rs.roomRoughness;
     mat.metalness = rs.roomMetalness;
     mat.reflectivity = rs.roomReflectivity;
@@ -4027,6 +5451,12 @@ function createRoom(
     get size() {
       return currentSize;
     },
+    get minSize() {
+      return Math.min(currentSize.x, currentSize.y, currentSize.z);
+    },
+    get maxSize() {
+      return Math.max(currentSize.x, currentSize.y, currentSize.z);
+    },
     updateSize,
   };
 }
@@ -4048,11 +5478,11 @@ class EdgeNeonSystem {
     depthWrite: false,
     toneMapped: false,
   });
-  private geometry: CylinderGeometry | null = null;
+  private geometries: CylinderGeometry[] = [];
   private meshes: Mesh[] = [];
   private glowMeshes: Mesh[] = [];
   private lights: PointLight[] = [];
-  private lastRoomSize = 0;
+  private lastRoomSize = new Vector3();
   private lastInset = 0;
   private lastRadius = 0;
   private baseColor = new Color();
@@ -4068,14 +5498,14 @@ class EdgeNeonSystem {
     this.scene.add(this.group);
   }
 
-  sync(roomSize: number, wallInset: number, settings: RenderSettings, time: number) {
+  sync(roomSize: Vector3, wallInset: number, settings: RenderSettings, time: number) {
     const targetWidth = settings.edgeNeonWidth ?? settings.pipeRadius * 0.9;
     const width = Math.min(0.5, Math.max(0.02, targetWidth));
     const radius = Math.min(0.25, Math.max(0.01, width * 0.5));
     const inset = Math.max(0.08, wallInset + 0.12);
     if (
-      !this.geometry ||
-      Math.abs(roomSize - this.lastRoomSize) > 1e-4 ||
+      this.geometries.length === 0 ||
+      roomSize.distanceToSquared(this.lastRoomSize) > 1e-8 ||
       Math.abs(inset - this.lastInset) > 1e-4 ||
       Math.abs(radius - this.lastRadius) > 1e-4
     ) {
@@ -4084,36 +5514,39 @@ class EdgeNeonSystem {
     this.updateAppearance(settings, time);
   }
 
-  private rebuild(roomSize: number, inset: number, radius: number) {
+  private rebuild(roomSize: Vector3, inset: number, radius: number) {
     this.disposeGeometry();
-    const half = Math.max(radius * 2, roomSize * 0.5 - inset);
-    const length = Math.max(radius * 4, half * 2);
-    this.geometry = new CylinderGeometry(radius, radius, length, 12, 1, true);
-    const offsets = [-half, half];
-    for (const y of offsets) {
-      for (const z of offsets) {
-        this.createEdge(new Vector3(-half, y, z), new Vector3(half, y, z), roomSize);
+    const halfOf = (extent: number) => Math.max(radius * 2, extent * 0.5 - inset);
+    const hx = halfOf(roomSize.x);
+    const hy = halfOf(roomSize.y);
+    const hz = halfOf(roomSize.z);
+    // One geometry per axis: edges along X, Y and Z differ in length once the room is a box.
+    const [geoX, geoY, geoZ] = [hx, hy, hz].map((half) => new CylinderGeometry(radius, radius, half * 2, 12, 1, true));
+    this.geometries = [geoX, geoY, geoZ];
+    const reach = Math.max(roomSize.x, roomSize.y, roomSize.z);
+    for (const y of [-hy, hy]) {
+      for (const z of [-hz, hz]) {
+        this.createEdge(new Vector3(-hx, y, z), new Vector3(hx, y, z), geoX, reach);
       }
     }
-    for (const x of offsets) {
-      for (const z of offsets) {
-        this.createEdge(new Vector3(x, -half, z), new Vector3(x, half, z), roomSize);
+    for (const x of [-hx, hx]) {
+      for (const z of [-hz, hz]) {
+        this.createEdge(new Vector3(x, -hy, z), new Vector3(x, hy, z), geoY, reach);
       }
     }
-    for (const x of offsets) {
-      for (const y of offsets) {
-        this.createEdge(new Vector3(x, y, -half), new Vector3(x, y, half), roomSize);
+    for (const x of [-hx, hx]) {
+      for (const y of [-hy, hy]) {
+        this.createEdge(new Vector3(x, y, -hz), new Vector3(x, y, hz), geoZ, reach);
       }
     }
-    this.lastRoomSize = roomSize;
+    this.lastRoomSize.copy(roomSize);
     this.lastInset = inset;
     this.lastRadius = radius;
   }
 
-  private createEdge(start: Vector3, end: Vector3, roomSize: number) {
-    if (!this.geometry) return;
-    const mesh = new Mesh(this.geometry, this.baseMaterial);
-    const glow = new Mesh(this.geometry, this.glowMaterial);
+  private createEdge(start: Vector3, end: Vector3, geometry: CylinderGeometry, roomSize: number) {
+    const mesh = new Mesh(geometry, this.baseMaterial);
+    const glow = new Mesh(geometry, this.glowMaterial);
     const mid = new Vector3().addVectors(start, end).multiplyScalar(0.5);
     this.tmpDir.copy(end).sub(start).normalize();
     this.tmpQuat.setFromUnitVectors(this.up, this.tmpDir);
@@ -4161,7 +5594,7 @@ class EdgeNeonSystem {
     for (const glow of this.glowMeshes) {
       glow.scale.setScalar(glowScale);
     }
-    const lightDistance = Math.max(2, this.lastRoomSize * 0.75);
+    const lightDistance = Math.max(2, Math.max(this.lastRoomSize.x, this.lastRoomSize.y, this.lastRoomSize.z) * 0.75);
     const lightIntensity = active ? intensity * 35 : 0;
     for (const light of this.lights) {
       light.visible = active;
@@ -4185,8 +5618,8 @@ class EdgeNeonSystem {
     this.meshes = [];
     this.glowMeshes = [];
     this.lights = [];
-    this.geometry?.dispose();
-    this.geometry = null;
+    this.geometries.forEach((geometry) => geometry.dispose());
+    this.geometries = [];
   }
 
   dispose() {
@@ -4197,22 +5630,67 @@ class EdgeNeonSystem {
   }
 }
 const cellSize = 1;
-const toWorldInto = (gridSize: number, cell: Vec3, target: Vector3): Vector3 => {
-  const half = gridSize / 2;
+const toWorldInto = (gridDims: Vec3, cell: Vec3, target: Vector3): Vector3 => {
   return target
-    .set(cell.x - half + 0.5, cell.y - half + 0.5, cell.z - half + 0.5)
+    .set(cell.x - gridDims.x / 2 + 0.5, cell.y - gridDims.y / 2 + 0.5, cell.z - gridDims.z / 2 + 0.5)
     .multiplyScalar(cellSize);
 };
 
+const WORLD_AXES = ['x', 'y', 'z'] as const;
+
+/** Shifts `point` by whole room lengths to the copy nearest `reference`, undoing a wrap-around step. */
+const unwrapNear = (gridDims: Vec3, point: Vector3, reference: Vector3): Vector3 => {
+  for (const axis of WORLD_AXES) {
+    const period = gridDims[axis] * cellSize;
+    point[axis] -= Math.round((point[axis] - reference[axis]) / period) * period;
+  }
+  return point;
+};
+
+/**
+ * Shifts a segment of an unwrapped path by whole room lengths so its midpoint lies inside the room;
+ * the pieces of a pipe crossing a face then poke out of one wall and back in through the other.
+ */
+const wrapSegmentIntoRoom = (gridDims: Vec3, start: Vector3, end: Vector3) => {
+  for (const axis of WORLD_AXES) {
+    const period = gridDims[axis] * cellSize;
+    const shift = Math.floor(((start[axis] + end[axis]) / 2 + period / 2) / period) * period;
+    start[axis] -= shift;
+    end[axis] -= shift;
+  }
+};
+
 const tmpPipeColor = new Color();
-const tmpPipePrev = new Vector3();
-const tmpPipeA = new Vector3();
-const tmpPipeB = new Vector3();
 const tmpPipeMid = new Vector3();
 const tmpPipeDir = new Vector3();
 const tmpPipeScale = new Vector3();
 const tmpPipeMat = new Matrix4();
 const tmpPipeQuat = new Quaternion();
+const tmpForkCell = new Vector3();
+const tmpForkNext = new Vector3();
+// Junction fittings are a little fatter than the pipe so the fork reads as a separate part.
+const FITTING_HUB_SCALE = 1.45;
+const FITTING_COLLAR_SCALE = 1.25;
+const FITTING_COLLAR_LENGTH = 0.4; // fraction of one cell
+const FITTING_SHADE = 0.7;
+// Corner joint sizes, relative to the pipe radius.
+const BALL_JOINT_SCALE = 1.5;
+const ELBOW_JOINT_SCALE = 1.2;
+const TEAPOT_JOINT_SCALE = 4;
+const tmpJointIn = new Vector3();
+const tmpJointOut = new Vector3();
+const tmpJointSide = new Vector3();
+const TURN_FLASH_SECONDS = 0.3;
+const TURN_FLASH_SCALE = 2.6; // peak size relative to the pipe radius
+const MAX_TURN_FLASHES = 256;
+// Ghost segments live in one fixed-size instanced mesh; once it is full the oldest are dropped.
+const MAX_GHOST_SEGMENTS = 4096;
+const GHOST_EMISSIVE_SCALE = 0.6; // emissive ghosts are thinner than the pipe they trail
+const tmpGhostColor = new Color();
+const tmpGhostFade = new Color();
+
+/** One cell-to-cell piece of a dead pipe's path, in world space. */
+type PipeGhost = { start: Vector3; end: Vector3; time: number; color: Color; radiusScale: number };
 const PIPE_SEG_UP = new Vector3(0, 1, 0);
 
 function ensureWhiteVertexColors(geometry: BufferGeometry) {
@@ -4241,10 +5719,21 @@ function ensureInstanceColors(mesh: InstancedMesh): InstancedBufferAttribute {
 
 function setPipeBaseColor(out: Color, pipe: Pipe) {
   const hue = pipe.colorSeed - Math.floor(pipe.colorSeed);
+  const palette = sim.speciesOf(pipe)?.palette;
+  if (palette && palette.length > 0) {
+    out.set(palette[Math.floor(hue * palette.length) % palette.length]);
+    return;
+  }
   out.setHSL(hue, 0.65, 0.6);
 }
 
-function setSegmentInstance(mesh: InstancedMesh, index: number, start: Vector3, end: Vector3, radius: number) {
+/** Rendered tube radius for a pipe: the global radius scaled by its species. */
+function pipeRadiusFor(pipe: Pipe, settings: RenderSettings): number {
+  return settings.pipeRadius * (sim.speciesOf(pipe)?.radiusScale ?? 1);
+}
+
+/** A unit cylinder (y in [-0.5, 0.5]) stretched from `start` to `end` at `radius`, composed into `tmpPipeMat`. */
+function composeSegmentMatrix(start: Vector3, end: Vector3, radius: number): Matrix4 {
   tmpPipeDir.subVectors(end, start);
   const length = tmpPipeDir.length();
   if (length <= 1e-8) {
@@ -4257,8 +5746,11 @@ function setSegmentInstance(mesh: InstancedMesh, index: number, start: Vector3,
     tmpPipeQuat.setFromUnitVectors(PIPE_SEG_UP, tmpPipeDir);
     tmpPipeScale.set(radius, length, radius);
   }
-  tmpPipeMat.compose(tmpPipeMid, tmpPipeQuat, tmpPipeScale);
-  mesh.setMatrixAt(index, tmpPipeMat);
+  return tmpPipeMat.compose(tmpPipeMid, tmpPipeQuat, tmpPipeScale);
+}
+
+function setSegmentInstance(mesh: InstancedMesh, index: number, start: Vector3, end: Vector3, radius: number) {
+  mesh.setMatrixAt(index, composeSegmentMatrix(start, end, radius));
 }
 
 function attachNeonSizeUniform(material: MeshBasicMaterial) {
@@ -4277,325 +5769,651 @@ function attachNeonSizeUniform(material: MeshBasicMaterial) {
   material.customProgramCacheKey = () => 'pipes-glow-neonSize-v1';
 }
 
-type PipeSharedResources = {
-  segmentGeometry: CylinderGeometry;
-  jointGeometry: SphereGeometry;
-  glowMaterial: MeshBasicMaterial;
-};
-
-class PipeVisual {
-  readonly group = new Group();
-  private lastVersion = -1;
-  private lastRadius = renderSettings.pipeRadius;
-  private lastSegments = renderSettings.tubularSegments;
-  private lastCornerTension = renderSettings.cornerTension;
-  private lastPathType: PathType = renderSettings.pathType;
-  private material: MeshPhysicalMaterial;
-  private gridSize: number;
-  private segmentMesh: InstancedMesh;
-  private glowSegmentMesh: InstancedMesh;
-  private jointMesh: InstancedMesh;
-  private glowJointMesh: InstancedMesh;
-  private pathPoints: Vector3[] = [];
-  private pathPointPool: Vector3[] = [];
-  private curve: CatmullRomCurve3 | null = null;
-
-  constructor(material: MeshPhysicalMaterial, gridSize: number, pipe: Pipe, settings: RenderSettings, resources: PipeSharedResources) {
-    this.material = material;
-    this.gridSize = gridSize;
-    this.segmentMesh = this.createSegmentMesh(resources.segmentGeometry, this.material, 1);
-    this.glowSegmentMesh = this.createSegmentMesh(resources.segmentGeometry, resources.glowMaterial, 1);
-    this.glowSegmentMesh.instanceMatrix = this.segmentMesh.instanceMatrix;
+/** The sweep copies of the pipe material follow it, so material controls and reset dissolves reach them too. */
+function followPipeMaterial(target: MeshPhysicalMaterial, source: MeshPhysicalMaterial) {
+  target.metalness = source.metalness;
+  target.roughness = source.roughness;
+  target.transmission = source.transmission;
+  target.ior = source.ior;
+  target.thickness = source.thickness;
+  target.envMap = source.envMap;
+  target.envMapIntensity = source.envMapIntensity;
+  target.transparent = source.transparent;
+  target.opacity = source.opacity;
+  if (target.userData.sourceVersion !== source.version) {
+    target.userData.sourceVersion = source.version;
+    target.needsUpdate = true;
+  }
+}
 
-    this.jointMesh = this.createJointMesh(resources.jointGeometry, this.material, 1);
-    this.glowJointMesh = this.createJointMesh(resources.jointGeometry, resources.glowMaterial, 1);
-    this.glowJointMesh.instanceMatrix = this.jointMesh.instanceMatrix;
+/** A depth material for a pass's depth override, which a sweep or fitting material then takes over. */
+function createSweepDepthMaterial(): MeshDepthMaterial {
+  const depth = new MeshDepthMaterial({ depthPacking: RGBADepthPacking, blending: NoBlending });
+  depth.allowOverride = false;
+  return depth;
+}
 
-    this.group.add(this.segmentMesh, this.jointMesh, this.glowSegmentMesh, this.glowJointMesh);
-    this.update(pipe, settings, resources);
+const HIDDEN_FITTING = new Matrix4().makeScale(0, 0, 0);
+// Past this many scattered writes in one frame (a full rebuild), an attribute goes up whole.
+const MAX_FITTING_UPDATE_RANGES = 64;
+
+/**
+ * One kind of fitting for every pipe, drawn by a single instanced mesh. Instances are handed out
+ * and taken back one at a time, so a growth step uploads only the fittings it adds or removes;
+ * radius, color and radius waves come from the path info in the shader (`attachPipeFitting`).
+ */
+class FittingPool {
+  mesh: InstancedMesh;
+  readonly shaded: MeshPhysicalMaterial;
+  readonly depth: MeshDepthMaterial;
+  private scene: Scene;
+  private source: MeshPhysicalMaterial;
+  private base: BufferGeometry;
+  // Per instance: the pipe's info slot and the anchored index of the path point it sits on.
+  private points = new InstancedBufferAttribute(new Float32Array(2), 2);
+  private free: number[] = [];
+  private used = 0;
+
+  constructor(
+    scene: Scene,
+    base: BufferGeometry,
+    shaded: MeshPhysicalMaterial,
+    depth: MeshDepthMaterial,
+    source: MeshPhysicalMaterial
+  ) {
+    this.scene = scene;
+    this.base = base;
+    this.shaded = shaded;
+    this.depth = depth;
+    this.source = source;
+    this.points.setUsage(DynamicDrawUsage);
+    this.mesh = this.createMesh(1);
   }
 
-  setGeometries(resources: PipeSharedResources) {
-    this.segmentMesh.geometry = resources.segmentGeometry;
-    this.glowSegmentMesh.geometry = resources.segmentGeometry;
-    this.jointMesh.geometry = resources.jointGeometry;
-    this.glowJointMesh.geometry = resources.jointGeometry;
+  /** Swaps in new shared geometry, e.g. after the radial slice count changed. */
+  setGeometry(base: BufferGeometry) {
+    if (base === this.base) return;
+    this.base = base;
+    const previous = this.mesh.geometry;
+    this.mesh.geometry = this.wrapGeometry();
+    previous.dispose();
   }
 
-  private createSegmentMesh(geometry: CylinderGeometry, material: MeshPhysicalMaterial | MeshBasicMaterial, capacity: number) {
-    const mesh = new InstancedMesh(geometry, material, capacity);
-    mesh.layers.set(PIPE_LAYER);
-    mesh.frustumCulled = false;
-    mesh.instanceMatrix.setUsage(DynamicDrawUsage);
-    return mesh;
+  add(matrix: Matrix4, slot: number, anchored: number): number {
+    const index = this.free.pop() ?? this.used++;
+    if (index >= this.points.count) this.grow(index + 1);
+    this.mesh.count = this.used;
+    this.set(index, matrix, slot, anchored);
+    return index;
   }
 
-  private createJointMesh(geometry: SphereGeometry, material: MeshPhysicalMaterial | MeshBasicMaterial, capacity: number) {
-    const mesh = new InstancedMesh(geometry, material, capacity);
-    mesh.layers.set(PIPE_LAYER);
-    mesh.frustumCulled = false;
-    mesh.instanceMatrix.setUsage(DynamicDrawUsage);
-    return mesh;
+  set(index: number, matrix: Matrix4, slot: number, anchored: number) {
+    const matrices = this.mesh.instanceMatrix;
+    matrix.toArray(matrices.array, index * 16);
+    matrices.addUpdateRange(index * 16, 16);
+    matrices.needsUpdate = true;
+    this.points.setXY(index, slot, anchored);
+    this.points.addUpdateRange(index * 2, 2);
+    this.points.needsUpdate = true;
   }
 
-  private ensurePathPoints(count: number) {
-    while (this.pathPoints.length < count) {
-      this.pathPoints.push(this.pathPointPool.pop() ?? new Vector3());
-    }
-    while (this.pathPoints.length > count) {
-      const next = this.pathPoints.pop();
-      if (next) this.pathPointPool.push(next);
-    }
+  /** Hides instance `index` until it is handed out again. */
+  remove(index: number) {
+    this.set(index, HIDDEN_FITTING, 0, 0);
+    this.free.push(index);
   }
 
-  private ensureCapacity(segmentCount: number, jointCount: number, resources: PipeSharedResources) {
-    if (segmentCount > this.segmentMesh.instanceMatrix.count) {
-      const nextCapacity = Math.max(segmentCount, Math.ceil(this.segmentMesh.instanceMatrix.count * 1.5));
-      const prevSegment = this.segmentMesh;
-      const prevGlow = this.glowSegmentMesh;
-      this.segmentMesh = this.createSegmentMesh(resources.segmentGeometry, this.material, nextCapacity);
-      this.glowSegmentMesh = this.createSegmentMesh(resources.segmentGeometry, resources.glowMaterial, nextCapacity);
-      this.glowSegmentMesh.instanceMatrix = this.segmentMesh.instanceMatrix;
-      this.group.remove(prevSegment, prevGlow);
-      this.group.add(this.segmentMesh, this.glowSegmentMesh);
-    }
-
-    if (jointCount > this.jointMesh.instanceMatrix.count) {
-      const nextCapacity = Math.max(jointCount, Math.ceil(this.jointMesh.instanceMatrix.count * 1.5));
-      const prevJoint = this.jointMesh;
-      const prevGlow = this.glowJointMesh;
-      this.jointMesh = this.createJointMesh(resources.jointGeometry, this.material, nextCapacity);
-      this.glowJointMesh = this.createJointMesh(resources.jointGeometry, resources.glowMaterial, nextCapacity);
-      this.glowJointMesh.instanceMatrix = this.jointMesh.instanceMatrix;
-      this.group.remove(prevJoint, prevGlow);
-      this.group.add(this.jointMesh, this.glowJointMesh);
-    }
+  clear() {
+    this.free.length = 0;
+    this.used = 0;
+    this.mesh.count = 0;
   }
 
-  update(pipe: Pipe, settings: RenderSettings, resources: PipeSharedResources): void {
-    const needsGeometry =
-      pipe.version !== this.lastVersion ||
-      settings.pipeRadius !== this.lastRadius ||
-      settings.tubularSegments !== this.lastSegments ||
-      settings.cornerTension !== this.lastCornerTension ||
-      settings.pathType !== this.lastPathType;
-
-    const baseSegments = Math.max(0, pipe.cells.length - 1);
-    let samplesPerSegment = Math.max(1, Math.floor(settings.tubularSegments));
-    if (baseSegments > 0) {
-      const minSamples = Math.ceil(6 / baseSegments);
-      samplesPerSegment = Math.max(samplesPerSegment, minSamples);
-    }
-    const segmentCount = baseSegments > 0 ? baseSegments * samplesPerSegment : 0;
-    const jointCount = pipe.cells.length;
-
-    if (needsGeometry) {
-      this.ensureCapacity(segmentCount, jointCount, resources);
-      this.setGeometries(resources);
-      this.lastVersion = pipe.version;
-      this.lastRadius = settings.pipeRadius;
-      this.lastSegments = settings.tubularSegments;
-      this.lastCornerTension = settings.cornerTension;
-      this.lastPathType = settings.pathType;
-    }
-
-    if (needsGeometry) {
-      // Populate control points
-      this.ensurePathPoints(pipe.cells.length);
-      for (let i = 0; i < pipe.cells.length; i++) {
-        toWorldInto(this.gridSize, pipe.cells[i], this.pathPoints[i]);
-      }
-      if (pipe.headLerp < 1 && pipe.cells.length > 1) {
-        toWorldInto(this.gridSize, pipe.prevHead, tmpPipePrev);
-        this.pathPoints[this.pathPoints.length - 1].lerpVectors(
-          tmpPipePrev,
-          this.pathPoints[this.pathPoints.length - 1],
-          pipe.headLerp
-        );
-      }
-
-      // Segments
-      this.segmentMesh.count = segmentCount;
-      this.glowSegmentMesh.count = segmentCount;
-      if (segmentCount > 0) {
-        setPipeBaseColor(tmpPipeColor, pipe);
-        const baseR = tmpPipeColor.r;
-        const baseG = tmpPipeColor.g;
-        const baseB = tmpPipeColor.b;
-        const segColorAttr = ensureInstanceColors(this.segmentMesh);
-        const segColors = segColorAttr.array as Float32Array;
-        this.glowSegmentMesh.instanceColor = segColorAttr;
-
-        if (settings.pathType === 'polyline') {
-          let idx = 0;
-          for (let seg = 0; seg < baseSegments; seg++) {
-            const p0 = this.pathPoints[seg];
-            const p1 = this.pathPoints[seg + 1];
-            for (let s = 0; s < samplesPerSegment; s++) {
-              const a0 = s / samplesPerSegment;
-              const a1 = (s + 1) / samplesPerSegment;
-              tmpPipeA.lerpVectors(p0, p1, a0);
-              tmpPipeB.lerpVectors(p0, p1, a1);
-              setSegmentInstance(this.segmentMesh, idx, tmpPipeA, tmpPipeB, settings.pipeRadius);
-              segColors[idx * 3] = baseR;
-              segColors[idx * 3 + 1] = baseG;
-              segColors[idx * 3 + 2] = baseB;
-              idx++;
-            }
-          }
-        } else {
-          if (!this.curve) {
-            this.curve = new CatmullRomCurve3(this.pathPoints, false, 'centripetal', settings.cornerTension);
-          }
-          this.curve.points = this.pathPoints;
-          this.curve.curveType = settings.pathType === 'catmullrom' ? 'catmullrom' : settings.pathType;
-          this.curve.tension = settings.cornerTension;
-
-          let idx = 0;
-          for (let seg = 0; seg < baseSegments; seg++) {
-            for (let s = 0; s < samplesPerSegment; s++) {
-              const u0 = (seg + s / samplesPerSegment) / baseSegments;
-              const u1 = (seg + (s + 1) / samplesPerSegment) / baseSegments;
-              this.curve.getPoint(u0, tmpPipeA);
-              this.curve.getPoint(u1, tmpPipeB);
-              setSegmentInstance(this.segmentMesh, idx, tmpPipeA, tmpPipeB, settings.pipeRadius);
-              segColors[idx * 3] = baseR;
-              segColors[idx * 3 + 1] = baseG;
-              segColors[idx * 3 + 2] = baseB;
-              idx++;
-            }
-          }
-        }
-        this.segmentMesh.instanceMatrix.needsUpdate = true;
-        segColorAttr.needsUpdate = true;
-      }
-
-      // Joints (polyline only; helps hide hard corners)
-      const showJoints = settings.pathType === 'polyline' && jointCount > 0;
-      const drawJoints = showJoints ? jointCount : 0;
-      this.jointMesh.visible = showJoints;
-      this.jointMesh.count = drawJoints;
-      this.glowJointMesh.visible = showJoints && settings.neonEnabled;
-      this.glowJointMesh.count = drawJoints;
-      if (showJoints) {
-        setPipeBaseColor(tmpPipeColor, pipe);
-        const baseR = tmpPipeColor.r;
-        const baseG = tmpPipeColor.g;
-        const baseB = tmpPipeColor.b;
-        const jointColorAttr = ensureInstanceColors(this.jointMesh);
-        const jointColors = jointColorAttr.array as Float32Array;
-        this.glowJointMesh.instanceColor = jointColorAttr;
-        for (let i = 0; i < jointCount; i++) {
-          tmpPipeMat.compose(this.pathPoints[i], tmpPipeQuat.identity(), tmpPipeScale.setScalar(settings.pipeRadius));
-          this.jointMesh.setMatrixAt(i, tmpPipeMat);
-          jointColors[i * 3] = baseR;
-          jointColors[i * 3 + 1] = baseG;
-          jointColors[i * 3 + 2] = baseB;
-        }
-        this.jointMesh.instanceMatrix.needsUpdate = true;
-        jointColorAttr.needsUpdate = true;
-      }
+  flush() {
+    for (const attribute of [this.mesh.instanceMatrix, this.points]) {
+      if (attribute.updateRanges.length > MAX_FITTING_UPDATE_RANGES) attribute.clearUpdateRanges();
     }
+  }
 
-    this.glowSegmentMesh.visible = settings.neonEnabled;
-    this.glowJointMesh.visible = settings.neonEnabled && this.jointMesh.visible;
+  /** The shared geometry plus this pool's own per-instance points. */
+  private wrapGeometry(): BufferGeometry {
+    const geometry = new BufferGeometry();
+    for (const name of Object.keys(this.base.attributes)) geometry.setAttribute(name, this.base.getAttribute(name));
+    geometry.setIndex(this.base.getIndex());
+    geometry.setAttribute('pipeFittingPoint', this.points);
+    return geometry;
   }
 
-  dispose() {
-    this.group.clear();
+  private createMesh(capacity: number): InstancedMesh {
+    const mesh = new InstancedMesh(this.wrapGeometry(), this.shaded, capacity);
+    mesh.layers.set(PIPE_LAYER);
+    mesh.frustumCulled = false;
+    mesh.instanceMatrix.setUsage(DynamicDrawUsage);
+    mesh.count = this.used;
+    mesh.onBeforeRender = () => followPipeMaterial(this.shaded, this.source);
+    this.scene.add(mesh);
+    return mesh;
   }
 
-  forceGeometryRefresh() {
-    this.lastVersion = -1;
+  /** Moves the instances into a mesh with room for at least `count` of them. */
+  private grow(count: number) {
+    const capacity = Math.max(count, Math.ceil(this.points.count * 1.5));
+    const points = new InstancedBufferAttribute(new Float32Array(capacity * 2), 2);
+    points.setUsage(DynamicDrawUsage);
+    points.array.set(this.points.array);
+    this.points = points;
+    const previous = this.mesh;
+    this.mesh = this.createMesh(capacity);
+    this.mesh.instanceMatrix.array.set(previous.instanceMatrix.array);
+    this.mesh.material = previous.material;
+    this.scene.remove(previous);
+    previous.geometry.dispose();
+    previous.dispose();
   }
 }
 
+/** The fittings one pipe owns, kept in step with its path a growth step at a time. */
+type PipeFittings = {
+  version: number;
+  /** Path rewrites seen so far; a rewrite renumbers the points, so the corners are found afresh. */
+  rewrites: number;
+  /** Corner fittings by anchored point index, oldest first. */
+  corners: Array<{ anchored: number; pool: FittingPool; index: number }>;
+  /** Anchored index of the newest point already checked for a corner. */
+  checked: number;
+  /** Hub and collar instances on the fork cell, or -1 without a fork. */
+  hub: number;
+  collar: number;
+};
+
 class PipeVisualManager {
-  private visuals = new Map<number, PipeVisual>();
+  // Last synced version and radius per pipe; the paths themselves live on the GPU.
+  private pipeStates = new Map<number, { version: number; radius: number }>();
   private activeIds = new Set<number>();
   private scene: Scene;
   private material: MeshPhysicalMaterial;
   private glowMaterial: MeshBasicMaterial;
-  private gridSize: number;
+  private gridDims: Vec3;
+  private roomPeriod: Vec3 = { x: 1, y: 1, z: 1 };
+  private paths: PipePathStore;
+  private radiusWaves = new PipeRadiusWaves();
+  // Every pipe is drawn by these four meshes: tube pieces and polyline joints, plus their neon halos.
+  private sweepSegments: Mesh<InstancedBufferGeometry, MeshPhysicalMaterial>;
+  private sweepJoints: Mesh<InstancedBufferGeometry, MeshPhysicalMaterial>;
+  private glowSweepSegments: Mesh<InstancedBufferGeometry, MeshBasicMaterial>;
+  private glowSweepJoints: Mesh<InstancedBufferGeometry, MeshBasicMaterial>;
+  private glowSweepScale = { value: renderSettings.neonSize };
+  // Depth twins of the sweep materials, swapped in while a pass (bokeh) draws the scene with a depth
+  // override; the fitting pools carry their own.
+  private sweepDepthSwaps: Array<{ mesh: Mesh<InstancedBufferGeometry, Material>; shaded: Material; depth: MeshDepthMaterial }> = [];
   private lastRadialSegments = -1;
+  private lastSweepShape = '';
   private segmentGeometry: CylinderGeometry | null = null;
   private jointGeometry: SphereGeometry | null = null;
-
-  constructor(scene: Scene, material: MeshPhysicalMaterial, glowMaterial: MeshBasicMaterial, gridSize: number) {
+  private elbowGeometry: BufferGeometry | null = null;
+  private teapotGeometry: BufferGeometry;
+  // Corner fittings for every pipe share one instanced mesh per kind, so joints cost three draw calls in total.
+  private ballJoints: FittingPool;
+  private elbowJoints: FittingPool;
+  private teapotJoints: FittingPool;
+  // Tee fittings where attached branches leave their parents: a hub on the fork cell plus a collar.
+  private fittingHubs: FittingPool;
+  private fittingCollars: FittingPool;
+  private fittingPools: FittingPool[];
+  private fittings = new Map<number, PipeFittings>();
+  // Set when every fitting must be placed again: joint style or room layout changes.
+  private jointsDirty = true;
+  private lastJointStyle: JointStyle | null = null;
+  private turnFlashes: Array<{ cell: Vec3; time: number; color: Color; radiusScale: number }> = [];
+  private turnFlashMesh: InstancedMesh;
+  private ghosts: PipeGhost[] = [];
+  private ghostMesh: InstancedMesh;
+  private ghostMaterial: MeshBasicMaterial;
+
+  constructor(scene: Scene, material: MeshPhysicalMaterial, glowMaterial: MeshBasicMaterial, gridDims: Vec3) {
     this.scene = scene;
     this.material = material;
     this.glowMaterial = glowMaterial;
-    this.gridSize = gridSize;
+    this.gridDims = { ...gridDims };
+    this.paths = new PipePathStore((cell, out, previous) => {
+      toWorldInto(this.gridDims, cell, out);
+      // Wrap-around runs are stored as one continuous path and cut back into the room per piece.
+      if (previous && sim.config.wrap === true) unwrapNear(this.gridDims, out, previous);
+      return out;
+    });
+    this.teapotGeometry = createTeapotGeometry(8);
+    ensureWhiteVertexColors(this.teapotGeometry);
+    const placeholder = new BufferGeometry();
+    const fittingUniforms = { ...this.paths.uniforms, ...this.radiusWaves.uniforms };
+    const fittingPool = (base: BufferGeometry, shaded: MeshPhysicalMaterial, depth: MeshDepthMaterial) =>
+      new FittingPool(scene, base, shaded, depth, material);
+    const fittingMaterial = material.clone();
+    const fittingDepth = createSweepDepthMaterial();
+    const collarMaterial = material.clone();
+    const collarDepth = createSweepDepthMaterial();
+    attachPipeFitting(fittingMaterial, 'fitting', fittingUniforms, FITTING_SHADE);
+    attachPipeFitting(fittingDepth, 'fitting', fittingUniforms, FITTING_SHADE);
+    attachPipeFitting(collarMaterial, 'collar', fittingUniforms, FITTING_SHADE);
+    attachPipeFitting(collarDepth, 'collar', fittingUniforms, FITTING_SHADE);
+    this.ballJoints = fittingPool(placeholder, fittingMaterial, fittingDepth);
+    this.elbowJoints = fittingPool(placeholder, fittingMaterial, fittingDepth);
+    this.teapotJoints = fittingPool(this.teapotGeometry, fittingMaterial, fittingDepth);
+    this.fittingHubs = fittingPool(placeholder, fittingMaterial, fittingDepth);
+    this.fittingCollars = fittingPool(placeholder, collarMaterial, collarDepth);
+    this.fittingPools = [this.ballJoints, this.elbowJoints, this.teapotJoints, this.fittingHubs, this.fittingCollars];
+
+    const solidScale = { value: 1 };
+    this.sweepSegments = this.createSweepMesh('segment', material.clone(), solidScale);
+    this.sweepJoints = this.createSweepMesh('joint', material.clone(), solidScale);
+    this.glowSweepSegments = this.createSweepMesh('segment', glowMaterial.clone(), this.glowSweepScale);
+    this.glowSweepJoints = this.createSweepMesh('joint', glowMaterial.clone(), this.glowSweepScale);
+    for (const mesh of [this.sweepSegments, this.sweepJoints]) {
+      const shaded = mesh.material;
+      mesh.onBeforeRender = () => followPipeMaterial(shaded, this.material);
+    }
+    for (const mesh of [this.glowSweepSegments, this.glowSweepJoints]) {
+      const shaded = mesh.material;
+      mesh.onBeforeRender = () => {
+        shaded.opacity = this.glowMaterial.opacity;
+      };
+    }
+    scene.onBeforeRender = () => this.syncSweepDepthMaterials(scene.overrideMaterial);
+
+    this.turnFlashMesh = new InstancedMesh(placeholder, glowMaterial, MAX_TURN_FLASHES);
+    this.turnFlashMesh.layers.set(PIPE_LAYER);
+    this.turnFlashMesh.frustumCulled = false;
+    this.turnFlashMesh.instanceMatrix.setUsage(DynamicDrawUsage);
+    this.turnFlashMesh.count = 0;
+    scene.add(this.turnFlashMesh);
+    this.ghostMaterial = new MeshBasicMaterial({
+      vertexColors: true,
+      transparent: true,
+      depthWrite: false,
+      blending: AdditiveBlending,
+    });
+    this.ghostMesh = new InstancedMesh(placeholder, this.ghostMaterial, MAX_GHOST_SEGMENTS);
+    this.ghostMesh.layers.set(PIPE_LAYER);
+    this.ghostMesh.frustumCulled = false;
+    this.ghostMesh.instanceMatrix.setUsage(DynamicDrawUsage);
+    this.ghostMesh.count = 0;
+    scene.add(this.ghostMesh);
+  }
+
+  private createSweepMesh<M extends MeshPhysicalMaterial | MeshBasicMaterial>(
+    kind: 'segment' | 'joint',
+    material: M,
+    scale: { value: number }
+  ) {
+    const uniforms = { ...this.paths.uniforms, ...this.radiusWaves.uniforms };
+    attachPipeSweep(material, kind, uniforms, scale);
+    const depth = createSweepDepthMaterial();
+    attachPipeSweep(depth, kind, uniforms, scale);
+    const mesh = new Mesh(new InstancedBufferGeometry(), material);
+    mesh.layers.set(PIPE_LAYER);
+    // Vertices are placed by the shader, so the geometry's bounds say nothing about where pipes are.
+    mesh.frustumCulled = false;
+    mesh.visible = false;
+    this.scene.add(mesh);
+    this.sweepDepthSwaps.push({ mesh, shaded: material, depth });
+    return mesh;
+  }
+
+  /**
+   * A scene-wide override material draws raw geometry, which for the sweep meshes is a unit tube at
+   * the origin, and for the fittings ignores their radius. Depth overrides (the bokeh pass's depth
+   * render) get their own depth twins instead; materials are picked before objects are listed, so
+   * this runs from `scene.onBeforeRender`.
+   */
+  private syncSweepDepthMaterials(override: Material | null) {
+    const depthOverride = override instanceof MeshDepthMaterial ? override : null;
+    for (const { mesh, shaded, depth } of [...this.sweepDepthSwaps, ...this.fittingPools]) {
+      if (depthOverride && depth.depthPacking !== depthOverride.depthPacking) {
+        depth.depthPacking = depthOverride.depthPacking;
+        depth.needsUpdate = true;
+      }
+      mesh.material = depthOverride ? depth : shaded;
+    }
   }
 
-  resetGridSize(size: number) {
-    this.gridSize = size;
+  addTurnFlash(pipe: Pipe, cell: Vec3, time: number) {
+    const color = new Color();
+    setPipeBaseColor(color, pipe);
+    this.turnFlashes.push({ cell: { ...cell }, time, color, radiusScale: sim.speciesOf(pipe)?.radiusScale ?? 1 });
+    if (this.turnFlashes.length > MAX_TURN_FLASHES) this.turnFlashes.shift();
   }
 
-  forceGeometryRefresh() {
-    for (const visual of this.visuals.values()) {
-      visual.forceGeometryRefresh();
+  /** Leaves a fading copy of the pipe's current path behind, as it starts to retract. */
+  addGhost(pipe: Pipe, time: number) {
+    const path = pipe.forkCell ? [pipe.forkCell, ...pipe.cells] : pipe.cells;
+    if (path.length < 2) return;
+    const color = new Color();
+    setPipeBaseColor(color, pipe);
+    const radiusScale = sim.speciesOf(pipe)?.radiusScale ?? 1;
+    const wrapped = sim.config.wrap === true;
+    for (let i = 1; i < path.length; i++) {
+      const start = toWorldInto(this.gridDims, path[i - 1], new Vector3());
+      const end = toWorldInto(this.gridDims, path[i], new Vector3());
+      if (wrapped) {
+        unwrapNear(this.gridDims, end, start);
+        wrapSegmentIntoRoom(this.gridDims, start, end);
+      }
+      this.ghosts.push({ start, end, time, color, radiusScale });
+    }
+    if (this.ghosts.length > MAX_GHOST_SEGMENTS) this.ghosts.splice(0, this.ghosts.length - MAX_GHOST_SEGMENTS);
+  }
+
+  /**
+   * Ghosts fade from the pipe's color toward the fade color while dimming along the decay curve.
+   * Like turn flashes they are dropped when the scene clock runs backwards (seeks, restarts).
+   */
+  private syncGhosts(sceneTime: number | undefined, settings: RenderSettings) {
+    const now = sceneTime ?? 0;
+    const lifetime = Math.max(0.1, settings.ghostLifetime);
+    if (sceneTime === undefined || !settings.ghostEnabled) {
+      this.ghosts.length = 0;
+    } else {
+      this.ghosts = this.ghosts.filter((g) => g.time <= now && now - g.time < lifetime);
+    }
+    this.ghostMaterial.wireframe = settings.ghostStyle === 'wireframe';
+    this.ghostMaterial.opacity = clamp(settings.ghostOpacity, 0, 1);
+    tmpGhostFade.set(settings.ghostFadeColor);
+    const thickness = settings.ghostStyle === 'wireframe' ? 1 : GHOST_EMISSIVE_SCALE;
+    const colors = ensureInstanceColors(this.ghostMesh);
+    for (let i = 0; i < this.ghosts.length; i++) {
+      const ghost = this.ghosts[i];
+      const age = (now - ghost.time) / lifetime;
+      const level = Math.pow(1 - age, Math.max(0.01, settings.ghostDecay));
+      setSegmentInstance(this.ghostMesh, i, ghost.start, ghost.end, settings.pipeRadius * ghost.radiusScale * thickness);
+      tmpGhostColor.copy(ghost.color).lerp(tmpGhostFade, age).multiplyScalar(level);
+      colors.setXYZ(i, tmpGhostColor.r, tmpGhostColor.g, tmpGhostColor.b);
+    }
+    this.ghostMesh.count = this.ghosts.length;
+    this.ghostMesh.visible = this.ghosts.length > 0;
+    this.ghostMesh.instanceMatrix.needsUpdate = true;
+    colors.needsUpdate = true;
+  }
+
+  /**
+   * Flashes age against simulation time rather than frames, so a timeline seek that fast-forwards
+   * shows exactly the flashes a real-time run would at that moment.
+   */
+  private syncTurnFlashes(simTime: number | undefined, settings: RenderSettings) {
+    const now = simTime ?? 0;
+    if (simTime === undefined || !settings.turnFlashEnabled) {
+      this.turnFlashes.length = 0;
+    } else {
+      this.turnFlashes = this.turnFlashes.filter((f) => f.time <= now && now - f.time < TURN_FLASH_SECONDS);
+    }
+    const colors = ensureInstanceColors(this.turnFlashMesh);
+    for (let i = 0; i < this.turnFlashes.length; i++) {
+      const flash = this.turnFlashes[i];
+      const fade = 1 - (now - flash.time) / TURN_FLASH_SECONDS;
+      toWorldInto(this.gridDims, flash.cell, tmpPipeMid);
+      const scale = settings.pipeRadius * flash.radiusScale * TURN_FLASH_SCALE * fade;
+      tmpPipeMat.compose(tmpPipeMid, tmpPipeQuat.identity(), tmpPipeScale.setScalar(scale));
+      this.turnFlashMesh.setMatrixAt(i, tmpPipeMat);
+      tmpPipeColor.copy(flash.color).multiplyScalar(fade);
+      colors.setXYZ(i, tmpPipeColor.r, tmpPipeColor.g, tmpPipeColor.b);
     }
+    this.turnFlashMesh.count = this.turnFlashes.length;
+    this.turnFlashMesh.visible = this.turnFlashes.length > 0;
+    this.turnFlashMesh.instanceMatrix.needsUpdate = true;
+    colors.needsUpdate = true;
+  }
+
+
+  resetGridSize(dims: Vec3) {
+    this.gridDims = { ...dims };
+    this.jointsDirty = true;
+    this.invalidatePaths();
+    // Ghost positions belong to the old layout (and to a run the scene may have rewound past).
+    this.ghosts.length = 0;
+  }
+
+  forceGeometryRefresh() {
+    this.invalidatePaths();
+    this.jointsDirty = true;
   }
 
-  sync(pipes: Pipe[], settings: RenderSettings) {
+  private invalidatePaths() {
+    for (const state of this.pipeStates.values()) state.version = -1;
+    this.paths.invalidate();
+  }
+
+  sync(pipes: Pipe[], settings: RenderSettings, simTime?: number, sceneTime?: number) {
     this.syncGlowMaterial(settings);
-    const resources = this.ensureSharedResources(settings);
+    this.ensureSharedResources(settings);
+    const wrapped = sim.config.wrap === true;
+    if (wrapped) {
+      this.roomPeriod.x = this.gridDims.x * cellSize;
+      this.roomPeriod.y = this.gridDims.y * cellSize;
+      this.roomPeriod.z = this.gridDims.z * cellSize;
+    }
+    this.paths.setSweep({
+      curve: settings.pathType,
+      tension: settings.cornerTension,
+      tubularSegments: settings.tubularSegments,
+      twist: (settings.profileTwist * Math.PI) / 180,
+      roomPeriod: wrapped ? this.roomPeriod : null,
+    });
+    const barSeconds = (60 / Math.max(10, modulation.getGlobalBpm())) * BEATS_PER_BAR;
+    this.radiusWaves.advance(
+      {
+        taper: settings.radiusTaper,
+        taperLength: settings.radiusTaperLength,
+        headSwell: settings.radiusHead,
+        headLength: settings.radiusHeadLength,
+        pulse: settings.radiusPulse,
+        pulseWavelength: settings.radiusPulseWavelength,
+        speed: settings.radiusPulseSync
+          ? settings.radiusPulseWavelength / (barSeconds * settings.radiusPulseDivision)
+          : settings.radiusPulseSpeed,
+        swell: settings.radiusSwell,
+      },
+      sceneTime
+    );
 
     this.activeIds.clear();
     for (const pipe of pipes) {
       this.activeIds.add(pipe.id);
     }
-    for (const [id, visual] of this.visuals.entries()) {
+    for (const id of this.pipeStates.keys()) {
       if (!this.activeIds.has(id)) {
-        this.scene.remove(visual.group);
-        visual.dispose();
-        this.visuals.delete(id);
+        this.paths.release(id);
+        this.pipeStates.delete(id);
+        this.releaseFittings(id);
       }
     }
 
     for (const pipe of pipes) {
-      let visual = this.visuals.get(pipe.id);
-      if (!visual) {
-        visual = new PipeVisual(this.material, this.gridSize, pipe, settings, resources);
-        this.visuals.set(pipe.id, visual);
-        this.scene.add(visual.group);
+      const radius = pipeRadiusFor(pipe, settings);
+      const state = this.pipeStates.get(pipe.id);
+      if (state?.version === pipe.version && state.radius === radius) continue;
+      if (state?.version !== pipe.version) {
+        this.paths.syncPath(pipe.id, pipe.forkCell, pipe.cells, pipe.prevHead, pipe.headLerp);
       }
-      visual.update(pipe, settings, resources);
+      setPipeBaseColor(tmpPipeColor, pipe);
+      this.paths.setStyle(pipe.id, tmpPipeColor.r, tmpPipeColor.g, tmpPipeColor.b, radius);
+      this.pipeStates.set(pipe.id, { version: pipe.version, radius });
+    }
+    this.paths.flush();
+
+    const texels = this.paths.texelCount;
+    // Spheres only round off circle pipes; other profiles are mitred at their corners.
+    const showJoints = settings.pathType === 'polyline' && settings.pipeProfile === 'circle';
+    for (const mesh of [this.sweepSegments, this.sweepJoints, this.glowSweepSegments, this.glowSweepJoints]) {
+      mesh.geometry.instanceCount = texels;
+    }
+    this.sweepSegments.visible = texels > 0;
+    this.sweepJoints.visible = texels > 0 && showJoints;
+    this.glowSweepSegments.visible = texels > 0 && settings.neonEnabled;
+    this.glowSweepJoints.visible = texels > 0 && showJoints && settings.neonEnabled;
+
+    if (settings.jointStyle !== this.lastJointStyle) this.jointsDirty = true;
+    this.syncJointFittings(pipes, settings);
+    this.syncTurnFlashes(simTime, settings);
+    this.syncGhosts(sceneTime, settings);
+  }
+
+  /**
+   * Keeps a fitting on every corner (a cell where the path changes direction) of every pipe, and a
+   * tee fitting where each attached branch leaves its parent. Only pipes whose path moved are
+   * visited, and of those only the ends that grew or shrank.
+   */
+  private syncJointFittings(pipes: Pipe[], settings: RenderSettings) {
+    if (this.jointsDirty) {
+      this.jointsDirty = false;
+      this.lastJointStyle = settings.jointStyle;
+      this.fittings.clear();
+      for (const pool of this.fittingPools) pool.clear();
+    }
+    for (const pipe of pipes) {
+      if (this.fittings.get(pipe.id)?.version !== pipe.version) this.syncPipeFittings(pipe, settings.jointStyle);
+    }
+    for (const pool of this.fittingPools) pool.flush();
+  }
+
+  private syncPipeFittings(pipe: Pipe, style: JointStyle) {
+    const ref = this.paths.pathRef(pipe.id);
+    if (!ref) return;
+    let fittings = this.fittings.get(pipe.id);
+    if (fittings?.rewrites !== ref.rewrites) {
+      this.releaseFittings(pipe.id);
+      fittings = { version: pipe.version, rewrites: ref.rewrites, corners: [], checked: -Infinity, hub: -1, collar: -1 };
+      this.fittings.set(pipe.id, fittings);
+    }
+    fittings.version = pipe.version;
+
+    const forkCell = pipe.forkCell;
+    const offset = forkCell ? 1 : 0;
+    const cellAt = (i: number) => (i < offset ? forkCell! : pipe.cells[i - offset]);
+    // Corners can only sit between the ends: anchored indices anchor + 1 to anchor + length - 2.
+    const first = ref.anchor + 1;
+    const last = ref.anchor + pipe.cells.length + offset - 2;
+    const corners = fittings.corners;
+    while (corners.length > 0 && corners[0].anchored < first) {
+      const corner = corners.shift()!;
+      corner.pool.remove(corner.index);
+    }
+    while (corners.length > 0 && corners[corners.length - 1].anchored > last) {
+      const corner = corners.pop()!;
+      corner.pool.remove(corner.index);
+    }
+    fittings.checked = Math.min(fittings.checked, last);
+    for (let anchored = Math.max(fittings.checked + 1, first); style !== 'none' && anchored <= last; anchored++) {
+      const i = anchored - ref.anchor;
+      const cell = cellAt(i);
+      const stepIn = sim.cellDelta(cellAt(i - 1), cell);
+      const stepOut = sim.cellDelta(cell, cellAt(i + 1));
+      tmpJointIn.set(stepIn.x, stepIn.y, stepIn.z);
+      tmpJointOut.set(stepOut.x, stepOut.y, stepOut.z);
+      if (tmpJointIn.equals(tmpJointOut)) continue;
+
+      toWorldInto(this.gridDims, cell, tmpPipeMid);
+      tmpJointSide.crossVectors(tmpJointOut, tmpJointIn);
+      tmpPipeMat.makeBasis(tmpJointOut, tmpJointIn, tmpJointSide);
+
+      let pool: FittingPool;
+      let scale: number;
+      if (style === 'teapot' && isTeapotJoint(pipe.id, cell)) {
+        pool = this.teapotJoints;
+        scale = TEAPOT_JOINT_SCALE;
+      } else if (style === 'elbow') {
+        pool = this.elbowJoints;
+        scale = ELBOW_JOINT_SCALE;
+      } else {
+        pool = this.ballJoints;
+        scale = BALL_JOINT_SCALE;
+      }
+      tmpPipeMat.scale(tmpPipeScale.setScalar(scale)).setPosition(tmpPipeMid);
+      corners.push({ anchored, pool, index: pool.add(tmpPipeMat, ref.slot, anchored) });
+    }
+    fittings.checked = Math.max(fittings.checked, last);
+
+    // The fork cell is the path's first point, and stays its first point while the branch is attached.
+    const forked = forkCell !== null && pipe.cells.length > 0;
+    if (forked && fittings.hub < 0) {
+      toWorldInto(this.gridDims, forkCell, tmpForkCell);
+      const step = sim.cellDelta(forkCell, pipe.cells[0]);
+      tmpForkNext.set(step.x, step.y, step.z).multiplyScalar(cellSize * FITTING_COLLAR_LENGTH).add(tmpForkCell);
+      tmpPipeMat.compose(tmpForkCell, tmpPipeQuat.identity(), tmpPipeScale.setScalar(FITTING_HUB_SCALE));
+      fittings.hub = this.fittingHubs.add(tmpPipeMat, ref.slot, ref.anchor);
+      const collar = composeSegmentMatrix(tmpForkCell, tmpForkNext, FITTING_COLLAR_SCALE);
+      fittings.collar = this.fittingCollars.add(collar, ref.slot, ref.anchor);
+    } else if (!forked && fittings.hub >= 0) {
+      this.fittingHubs.remove(fittings.hub);
+      this.fittingCollars.remove(fittings.collar);
+      fittings.hub = -1;
+      fittings.collar = -1;
     }
   }
 
+  private releaseFittings(id: number) {
+    const fittings = this.fittings.get(id);
+    if (!fittings) return;
+    for (const corner of fittings.corners) corner.pool.remove(corner.index);
+    if (fittings.hub >= 0) {
+      this.fittingHubs.remove(fittings.hub);
+      this.fittingCollars.remove(fittings.collar);
+    }
+    this.fittings.delete(id);
+  }
+
   private syncGlowMaterial(settings: RenderSettings) {
     this.glowMaterial.opacity = settings.neonStrength;
     const shader = (this.glowMaterial as any).userData?.shader;
     if (shader?.uniforms?.neonSize) {
       shader.uniforms.neonSize.value = settings.neonSize;
     }
+    this.glowSweepScale.value = settings.neonSize;
   }
 
-  private ensureSharedResources(settings: RenderSettings): PipeSharedResources {
+  private ensureSharedResources(settings: RenderSettings) {
     const radial = Math.max(4, Math.floor(settings.radialSegments));
+    const pieces = pipeSweepPieces(settings.tubularSegments);
     if (!this.segmentGeometry || !this.jointGeometry || radial !== this.lastRadialSegments) {
       const prevSegment = this.segmentGeometry;
       const prevJoint = this.jointGeometry;
 
       const nextSegment = new CylinderGeometry(1, 1, 1, radial, 1, true);
       const nextJoint = new SphereGeometry(1, radial, Math.max(2, Math.floor(radial / 2)));
+      const nextElbow = createMitredElbowGeometry(radial);
       ensureWhiteVertexColors(nextSegment);
       ensureWhiteVertexColors(nextJoint);
+      ensureWhiteVertexColors(nextElbow);
 
       this.segmentGeometry = nextSegment;
       this.jointGeometry = nextJoint;
-      this.lastRadialSegments = radial;
-
-      for (const visual of this.visuals.values()) {
-        visual.setGeometries({ segmentGeometry: nextSegment, jointGeometry: nextJoint, glowMaterial: this.glowMaterial });
-      }
+      this.elbowGeometry?.dispose();
+      this.elbowGeometry = nextElbow;
+      this.ballJoints.setGeometry(nextJoint);
+      this.elbowJoints.setGeometry(nextElbow);
+      this.fittingHubs.setGeometry(nextJoint);
+      this.fittingCollars.setGeometry(nextSegment);
+      this.turnFlashMesh.geometry = nextJoint;
+      this.ghostMesh.geometry = nextSegment;
+
+      const sweepJoint = createSweepJointGeometry(radial);
+      ensureWhiteVertexColors(sweepJoint);
+      this.sweepJoints.geometry.dispose();
+      this.sweepJoints.geometry = sweepJoint;
+      this.glowSweepJoints.geometry = sweepJoint;
 
       prevSegment?.dispose();
       prevJoint?.dispose();
     }
-    return { segmentGeometry: this.segmentGeometry, jointGeometry: this.jointGeometry, glowMaterial: this.glowMaterial };
+    const custom = settings.pipeProfile === 'custom' ? settings.profileCustom : '';
+    const shape = `${settings.pipeProfile}:${radial}:${pieces}:${custom}`;
+    if (shape !== this.lastSweepShape) {
+      const edges = profileEdges(settings.pipeProfile, radial, custom);
+      const sweepSegment = createSweepSegmentGeometry(edges, pieces);
+      ensureWhiteVertexColors(sweepSegment);
+      this.sweepSegments.geometry.dispose();
+      this.sweepSegments.geometry = sweepSegment;
+      this.glowSweepSegments.geometry = sweepSegment;
+      this.lastSweepShape = shape;
+    }
+    this.lastRadialSegments = radial;
   }
 }
 
@@ -4609,7 +6427,7 @@ const pipeGlowMaterial = new MeshBasicMaterial({
   opacity: renderSettings.neonStrength,
 });
 attachNeonSizeUniform(pipeGlowMaterial);
-pipeManager = new PipeVisualManager(scene, pipeMaterial, pipeGlowMaterial, defaultSimConfig.gridSize);
+pipeManager = new PipeVisualManager(scene, pipeMaterial, pipeGlowMaterial, resolveGridDims(defaultSimConfig));
 requestAnimationFrame(frame);
 setupGui();
 
@@ -4626,7 +6444,15 @@ function downloadTextFile(filename: string, text: string, mimeType = 'applicatio
 function buildProjectSettings(): ProjectSettings {
   return {
     simulationId: activeSimulationId,
+    seed: seedSettings.seed,
     simConfig: { ...defaultSimConfig },
+    voxelMask: voxelMask ? { mask: voxelMask, mode: voxelMaskSettings.mode, display: voxelMaskSettings.display } : null,
+    colorLuts: {
+      a: colorLuts.a ? encodeColorLut(colorLuts.a) : null,
+      b: colorLuts.b ? encodeColorLut(colorLuts.b) : null,
+    },
+    reset: { ...resetSettings },
+    captureQuality: { ...captureQuality },
     renderSettings: { ...renderSettings },
     roomPadding,
     mirror: {
@@ -4668,12 +6494,45 @@ function applyProjectSettings(settings: ProjectSettings) {
 
   const cfg = settings.simConfig;
   defaultSimConfig.gridSize = Math.max(8, Math.floor(cfg.gridSize));
+  // Older projects only stored the cubic gridSize.
+  const dims = resolveGridDims(cfg);
+  defaultSimConfig.gridSizeX = Math.max(8, dims.x);
+  defaultSimConfig.gridSizeY = Math.max(8, dims.y);
+  defaultSimConfig.gridSizeZ = Math.max(8, dims.z);
   defaultSimConfig.targetPipeCount = Math.max(1, Math.floor(cfg.targetPipeCount));
   defaultSimConfig.maxPipeLength = Math.max(0, Math.floor(cfg.maxPipeLength));
   defaultSimConfig.growthInterval = Math.max(0.001, cfg.growthInterval);
   defaultSimConfig.turnProbability = clamp(cfg.turnProbability, 0, 1);
   defaultSimConfig.disableTailShrink = Boolean(cfg.disableTailShrink);
   turnProxy.turnChance = defaultSimConfig.turnProbability * 100;
+  defaultSimConfig.branchProbability = clamp(Number(cfg.branchProbability ?? 0) || 0, 0, 0.5);
+  defaultSimConfig.maxBranchDepth = clamp(Math.floor(Number(cfg.maxBranchDepth ?? 2) || 0), 0, 6);
+  // Projects saved before growth policies existed keep the random walk and default parameters.
+  defaultSimConfig.growthPolicy = normalizeGrowthPolicyId(cfg.growthPolicy) ?? 'randomWalk';
+  const loadedGrowthParams = (cfg.growthParams ?? {}) as Partial<GrowthPolicyParams>;
+  for (const id of GROWTH_POLICY_IDS) {
+    for (const spec of GROWTH_POLICIES[id].params) {
+      const value = Number(loadedGrowthParams[spec.key] ?? DEFAULT_GROWTH_PARAMS[spec.key]);
+      growthParams[spec.key] = clamp(Number.isFinite(value) ? value : DEFAULT_GROWTH_PARAMS[spec.key], spec.min, spec.max);
+    }
+  }
+  syncGrowthParamControllers();
+  // Projects saved before steering fields existed grow unsteered.
+  defaultSimConfig.steeringField = normalizeSteeringFieldId(cfg.steeringField) ?? 'none';
+  const loadedSteeringParams = (cfg.steeringParams ?? {}) as Partial<SteeringParams>;
+  for (const spec of STEERING_PARAM_SPECS) {
+    const value = Number(loadedSteeringParams[spec.key] ?? DEFAULT_STEERING_PARAMS[spec.key]);
+    steeringParams[spec.key] = clamp(Number.isFinite(value) ? value : DEFAULT_STEERING_PARAMS[spec.key], spec.min, spec.max);
+  }
+  syncSteeringParamControllers();
+  // Projects saved before species existed grow a single uniform kind of pipe.
+  defaultSimConfig.species = normalizePipeSpecies(cfg.species);
+  speciesSettings.preset = findSpeciesPreset(defaultSimConfig.species) ?? 'custom';
+  defaultSimConfig.symmetry = normalizeSymmetryMode(cfg.symmetry) ?? 'none';
+  defaultSimConfig.surfaceCrawl = cfg.surfaceCrawl === true;
+  defaultSimConfig.wrap = cfg.wrap === true;
+  // Projects saved before beat sync existed keep their free-running growth interval.
+  Object.assign(beatSync, normalizeBeatSync(cfg.beatSync) ?? DEFAULT_BEAT_SYNC, { bpm: modulation.getGlobalBpm() });
 
   roomPadding = clamp(settings.roomPadding, 0, 70);
   roomGuiSettings.wallGap = roomPadding;
@@ -4685,6 +6544,41 @@ function applyProjectSettings(settings: ProjectSettings) {
       (renderSettings as any)[key] = value;
     }
   }
+  renderSettings.jointStyle = normalizeJointStyle(renderSettings.jointStyle) ?? 'none';
+  // Projects from before ghost trails existed leave dying pipes without afterimages.
+  renderSettings.ghostEnabled = loadedRenderSettings.ghostEnabled === true;
+  renderSettings.ghostStyle = renderSettings.ghostStyle === 'wireframe' ? 'wireframe' : 'emissive';
+  renderSettings.ghostLifetime = clamp(Number(renderSettings.ghostLifetime) || 6, 0.1, 60);
+  renderSettings.ghostOpacity = clamp(Number(renderSettings.ghostOpacity) || 0, 0, 1);
+  if (typeof renderSettings.ghostFadeColor !== 'string') renderSettings.ghostFadeColor = '#2a3cff';
+  renderSettings.ghostDecay = clamp(Number(renderSettings.ghostDecay) || 1.5, 0.01, 10);
+  renderSettings.pipeProfile = normalizePipeProfile(renderSettings.pipeProfile) ?? 'circle';
+  renderSettings.profileTwist = clamp(Number(renderSettings.profileTwist) || 0, -180, 180);
+  if (typeof renderSettings.profileCustom !== 'string') renderSettings.profileCustom = '';
+  const radiusDivision = Number(renderSettings.radiusPulseDivision);
+  renderSettings.radiusPulseDivision = Object.values(BEAT_DIVISIONS).some((d) => Math.abs(d - radiusDivision) < 1e-9)
+    ? radiusDivision
+    : 1 / 4;
+  renderSettings.radiusPulseSync = renderSettings.radiusPulseSync === true;
+  // Projects from before the stack existed replay the fixed order the passes used to run in.
+  renderSettings.postFxStack = normalizePostFxStack(loadedRenderSettings.postFxStack) ?? defaultPostFxStack();
+  renderSettings.customShaderEnabled = loadedRenderSettings.customShaderEnabled === true;
+  renderSettings.lutEnabled = loadedRenderSettings.lutEnabled === true;
+  // Projects from before these were settings rendered with ACES at 1.1 into sRGB.
+  renderSettings.toneMapping = normalizeToneMappingMode(loadedRenderSettings.toneMapping) ?? 'aces';
+  renderSettings.outputColorSpace = normalizeOutputColorSpace(loadedRenderSettings.outputColorSpace) ?? 'srgb';
+  const loadedExposure = Number(loadedRenderSettings.toneMappingExposure);
+  renderSettings.toneMappingExposure = Number.isFinite(loadedExposure) ? clamp(loadedExposure, 0, 8) : 1.1;
+  renderSettings.autoExposureEnabled = loadedRenderSettings.autoExposureEnabled === true;
+  renderSettings.autoExposureKey = clamp(Number(renderSettings.autoExposureKey) || 0.18, 0.001, 10);
+  renderSettings.autoExposureSpeed = clamp(Number(renderSettings.autoExposureSpeed) || 0, 0, 100);
+  if (typeof renderSettings.customShaderSource !== 'string') renderSettings.customShaderSource = DEFAULT_CUSTOM_SHADER;
+  if (typeof renderSettings.customShaderValues !== 'object' || renderSettings.customShaderValues === null) {
+    renderSettings.customShaderValues = {};
+  }
+  for (const entry of renderSettings.postFxStack) {
+    if (entry.params) entry.params = capturePostFxParams(entry.effect, postFxSettings(entry));
+  }
 
   // Back-compat: older projects may still have post-fractal settings. Since the post fractal pass
   // has been removed, migrate them into the mirror fractal settings if the mirror settings are absent.
@@ -4799,23 +6693,50 @@ function applyProjectSettings(settings: ProjectSettings) {
 
   applyCameraZoom(cameraControl.zoomFactor);
 
+  // Older projects have no seed; keep the current one so they still load.
+  if (settings.seed !== undefined) {
+    seedSettings.seed = normalizeSeed(settings.seed);
+  }
+  reseedRandomStreams();
+  resetCameraMotionState();
+
   state.elapsed = 0;
   state.paused = false;
   state.autoPaused = false;
+  resetTransition = null;
+  const savedReset: Partial<ResetSettings> = settings.reset ?? {};
+  resetSettings.strategy = normalizeResetStrategy(savedReset.strategy) ?? DEFAULT_RESET_SETTINGS.strategy;
+  resetSettings.trigger = normalizeResetTrigger(savedReset.trigger) ?? DEFAULT_RESET_SETTINGS.trigger;
+  resetSettings.fillThreshold = clamp(Number(savedReset.fillThreshold) || DEFAULT_RESET_SETTINGS.fillThreshold, 0.05, 1);
+  resetSettings.interval = clamp(Number(savedReset.interval) || DEFAULT_RESET_SETTINGS.interval, 1, 600);
+  resetSettings.duration = clamp(Number(savedReset.duration) || DEFAULT_RESET_SETTINGS.duration, 0.1, 10);
+  const savedMask = settings.voxelMask;
+  voxelMask =
+    savedMask?.mask && Array.isArray(savedMask.mask.voxels) && savedMask.mask.size ? savedMask.mask : null;
+  voxelMaskSettings.mode = normalizeVoxelMaskMode(savedMask?.mode) ?? 'obstacle';
+  voxelMaskSettings.display = normalizeVoxelMaskDisplay(savedMask?.display) ?? 'solid';
+  voxelMaskSettings.name = voxelMask?.name ?? '(none)';
+  sim.setVoxelMask(voxelMask, voxelMaskSettings.mode);
   sim.reset(defaultSimConfig);
-  pipeManager.resetGridSize(sim.config.gridSize);
+  setColorLut('a', decodeColorLut(settings.colorLuts?.a));
+  setColorLut('b', decodeColorLut(settings.colorLuts?.b));
+  Object.assign(captureQuality, normalizeCaptureQuality(settings.captureQuality) ?? DEFAULT_CAPTURE_QUALITY);
+  pipeManager.resetGridSize(sim.gridDims);
   pipeManager.sync([], renderSettings);
 
-  room.updateSize(sim.config.gridSize, renderSettings);
-  teapotVisual?.syncToRoom(room.size);
-  juliaBulbVisual?.reset(room.size, mirrorInset, renderSettings, state.elapsed);
+  room.updateSize(sim.gridDims, renderSettings);
+  teapotVisual?.syncToRoom(room.minSize);
+  juliaBulbVisual?.reset(room.minSize, mirrorInset, renderSettings, state.elapsed);
   roomMirrors.update(room.size, renderSettings.roomColor);
-  rebuildGrid(sim.config.gridSize);
+  rebuildGrid(sim.gridDims);
 
   setActiveSimulation(desiredSimulationId);
 
   syncPipeVisibilityToMainCamera();
   updatePipeMaterial(renderSettings);
+  rebuildPostFxChain();
+  rebuildPostFxStackGui();
+  syncCustomShaderControls();
   syncPostProcessingPasses();
   updateBloomResolution();
   syncPrismResolution();
@@ -4869,9 +6790,13 @@ timelineHandle = initTimeline({
   onBpmChange: (bpm) => {
     modulationGlobals.bpm = bpm;
     modulation.setGlobalBpm(bpm);
+    invalidateSceneCheckpoints();
   },
   onSaveProject: () => saveProject(),
   onLoadProject: (project) => loadProject(project),
+  onRegionInserted: () => invalidateSceneCheckpoints(),
+  onRegionUpdated: () => invalidateSceneCheckpoints(),
+  onRegionRemoved: () => invalidateSceneCheckpoints(),
   onRenderVideo: (durationSeconds) => {
     const safeDuration = Number.isFinite(durationSeconds) ? Math.max(0.1, durationSeconds) : 10;
     const schedule = timelineHandle?.getRenderSchedule();
@@ -7,4 +7,5 @@ export type {
   MirrorReflectionMode,
   MirrorSystem,
   MirrorSystemDeps,
+  RoomExtents,
 } from './types';
@@ -1,6 +1,6 @@
 import { DoubleSide, Mesh, PerspectiveCamera, PlaneGeometry, Scene, Vector2, Vector3, WebGLRenderer } from 'three';
 import { Reflector } from 'three/examples/jsm/objects/Reflector.js';
-import type { MirrorDistortionUniforms, MirrorSystem } from './types';
+import type { MirrorDistortionUniforms, MirrorSystem, RoomExtents } from './types';
 
 type MirrorUniformBag = {
   warpStrength?: { value: number };
@@ -13,7 +13,7 @@ type RayMirrorSystemOptions = {
   roomMesh: Mesh;
   pipeLayer: number;
   baseShader: any;
-  size: number;
+  size: RoomExtents;
   color: string;
   inset: number;
   resolution: { width: number; height: number };
@@ -43,7 +43,7 @@ export class RayMirrorSystem implements MirrorSystem {
   private mirrorUniforms = new Map<number, MirrorUniformBag>();
   private updateMask = new Set<number>();
 
-  private size: number;
+  private size: RoomExtents;
   private color: string;
   private inset: number;
   private resolution: { width: number; height: number };
@@ -92,7 +92,7 @@ export class RayMirrorSystem implements MirrorSystem {
   }
 
 
-  update(size: number, color: string) {
+  update(size: RoomExtents, color: string) {
     this.size = size;
     this.color = color;
     this.mirrorUniforms.clear();
@@ -312,24 +312,27 @@ export class RayMirrorSystem implements MirrorSystem {
     }
   }
 
-  private buildMirrors(size: number, color: string): Reflector[] {
+  private buildMirrors(size: RoomExtents, color: string): Reflector[] {
     this.faceCenters = [];
     this.baseRenders = [];
-    const half = size / 2 - this.inset;
+    const halfX = size.x / 2 - this.inset;
+    const halfY = size.y / 2 - this.inset;
+    const halfZ = size.z / 2 - this.inset;
     return [
-      this.makeFace(new Vector3(half, 0, 0), (m) => m.rotateY(-Math.PI / 2), size, color, 0), // +X
-      this.makeFace(new Vector3(-half, 0, 0), (m) => m.rotateY(Math.PI / 2), size, color, 1), // -X
-      this.makeFace(new Vector3(0, half, 0), (m) => m.rotateX(Math.PI / 2), size, color, 2), // +Y
-      this.makeFace(new Vector3(0, -half, 0), (m) => m.rotateX(-Math.PI / 2), size, color, 3), // -Y
-      this.makeFace(new Vector3(0, 0, half), (m) => m.rotateY(Math.PI), size, color, 4), // +Z
-      this.makeFace(new Vector3(0, 0, -half), (m) => m.rotateY(0), size, color, 5), // -Z
+      this.makeFace(new Vector3(halfX, 0, 0), (m) => m.rotateY(-Math.PI / 2), size.z, size.y, color, 0), // +X
+      this.makeFace(new Vector3(-halfX, 0, 0), (m) => m.rotateY(Math.PI / 2), size.z, size.y, color, 1), // -X
+      this.makeFace(new Vector3(0, halfY, 0), (m) => m.rotateX(Math.PI / 2), size.x, size.z, color, 2), // +Y
+      this.makeFace(new Vector3(0, -halfY, 0), (m) => m.rotateX(-Math.PI / 2), size.x, size.z, color, 3), // -Y
+      this.makeFace(new Vector3(0, 0, halfZ), (m) => m.rotateY(Math.PI), size.x, size.y, color, 4), // +Z
+      this.makeFace(new Vector3(0, 0, -halfZ), (m) => m.rotateY(0), size.x, size.y, color, 5), // -Z
     ];
   }
 
   private makeFace(
     position: Vector3,
     rotate: (mirror: Reflector) => void,
-    faceSize: number,
+    faceWidth: number,
+    faceHeight: number,
     faceColor: string,
     faceIndex: number
   ) {
@@ -519,7 +522,7 @@ export class RayMirrorSystem implements MirrorSystem {
       `,
     };
 
-    const mirror = new Reflector(new PlaneGeometry(faceSize, faceSize), {
+    const mirror = new Reflector(new PlaneGeometry(faceWidth, faceHeight), {
       clipBias: 0,
       textureWidth: this.resolution.width,
       textureHeight: this.resolution.height,
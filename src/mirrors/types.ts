@@ -8,9 +8,12 @@ export type MirrorDistortionUniforms = {
   time: number;
 };
 
+/** Full inner room extents per axis; each mirror face spans the two axes parallel to it. */
+export type RoomExtents = { x: number; y: number; z: number };
+
 export type MirrorSystem = {
   readonly faces: Reflector[];
-  update: (size: number, color: string) => void;
+  update: (size: RoomExtents, color: string) => void;
   setResolution: (width: number, height: number) => void;
   setDistortion: (u: MirrorDistortionUniforms) => void;
   setEnabled: (enabled: boolean) => void;
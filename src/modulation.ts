@@ -1,3 +1,5 @@
+import { createSeededRng, deriveSeed, normalizeSeed, type SeededRng } from './random';
+
 export type Waveform =
   | 'sine'
   | 'triangle'
@@ -57,11 +59,26 @@ export type ModulationTarget = {
 };
 
 type LfoRuntimeState = {
+  rng: SeededRng;
   lastValue: number;
   holdValue: number;
   lastHoldTime: number;
 };
 
+type LfoRuntimeSnapshot = Omit<LfoRuntimeState, 'rng'> & { rngState: number };
+
+/**
+ * Everything `update` accumulates over time (noise streams, smoothing, segment holds and the bases
+ * they commit), so a checkpointed scene can resume modulation exactly where it left off.
+ */
+export type ModulationRuntimeSnapshot = {
+  lastUpdateSeconds: number | null;
+  baseValues: Array<[string, number]>;
+  heldTargets: Array<[string, HeldTargetState]>;
+  lfoRuntime: Array<[string, LfoRuntimeSnapshot]>;
+  envelopeRuntime: Array<[string, LfoRuntimeSnapshot]>;
+};
+
 type HeldTargetState = {
   /**
    * Base value captured when a segment first becomes active for this target.
@@ -93,6 +110,7 @@ export class ModulationManager {
   private scratchValues = new Map<string, number>();
   private bypass = false;
   private globalBpm = 120;
+  private seed = 0;
   private lastUpdateSeconds: number | null = null;
 
   registerTarget(target: ModulationTarget) {
@@ -102,6 +120,13 @@ export class ModulationManager {
     }
   }
 
+  /** Drops a target that no longer exists; LFOs and envelopes still pointing at it are skipped. */
+  unregisterTarget(id: string) {
+    this.targets.delete(id);
+    this.baseValues.delete(id);
+    this.heldTargets.delete(id);
+  }
+
   getTargets() {
     return Array.from(this.targets.values());
   }
@@ -127,6 +152,48 @@ export class ModulationManager {
     return this.globalBpm;
   }
 
+  /**
+   * Seeds the noise/sample&hold waveforms. Each modulator draws from its own stream derived
+   * from this seed and its id, so identical schedules always produce identical noise.
+   */
+  setSeed(seed: number) {
+    this.seed = normalizeSeed(seed);
+    this.lfoRuntime.clear();
+    this.envelopeRuntime.clear();
+  }
+
+  getSeed() {
+    return this.seed;
+  }
+
+  captureRuntime(): ModulationRuntimeSnapshot {
+    const captureStates = (runtime: Map<string, LfoRuntimeState>) =>
+      Array.from(runtime, ([id, { rng, ...rest }]): [string, LfoRuntimeSnapshot] => [id, { ...rest, rngState: rng.getState() }]);
+    return {
+      lastUpdateSeconds: this.lastUpdateSeconds,
+      baseValues: Array.from(this.baseValues),
+      heldTargets: Array.from(this.heldTargets, ([id, held]): [string, HeldTargetState] => [id, { ...held }]),
+      lfoRuntime: captureStates(this.lfoRuntime),
+      envelopeRuntime: captureStates(this.envelopeRuntime),
+    };
+  }
+
+  restoreRuntime(snapshot: ModulationRuntimeSnapshot) {
+    const restoreStates = (runtime: Map<string, LfoRuntimeState>, saved: Array<[string, LfoRuntimeSnapshot]>) => {
+      runtime.clear();
+      for (const [id, { rngState, ...rest }] of saved) {
+        const rng = createSeededRng(deriveSeed(this.seed, id));
+        rng.setState(rngState);
+        runtime.set(id, { ...rest, rng });
+      }
+    };
+    this.lastUpdateSeconds = snapshot.lastUpdateSeconds;
+    this.baseValues = new Map(snapshot.baseValues);
+    this.heldTargets = new Map(snapshot.heldTargets.map(([id, held]) => [id, { ...held }]));
+    restoreStates(this.lfoRuntime, snapshot.lfoRuntime);
+    restoreStates(this.envelopeRuntime, snapshot.envelopeRuntime);
+  }
+
   isBypassed() {
     return this.bypass;
   }
@@ -330,6 +397,16 @@ export class ModulationManager {
     }
   }
 
+  private createRuntimeState(id: string, timeSeconds: number): LfoRuntimeState {
+    const rng = createSeededRng(deriveSeed(this.seed, id));
+    return {
+      rng,
+      lastValue: 0,
+      holdValue: rng() * 2 - 1,
+      lastHoldTime: timeSeconds,
+    };
+  }
+
   private targetScale(target: ModulationTarget) {
     if (target.range !== undefined) return target.range;
     const span = (target.max ?? 0) - (target.min ?? 0);
@@ -338,11 +415,7 @@ export class ModulationManager {
   }
 
   private sampleWave(lfo: LfoConfig, timeSeconds: number, dt: number) {
-    const state: LfoRuntimeState = this.lfoRuntime.get(lfo.id) ?? {
-      lastValue: 0,
-      holdValue: Math.random() * 2 - 1,
-      lastHoldTime: timeSeconds,
-    };
+    const state: LfoRuntimeState = this.lfoRuntime.get(lfo.id) ?? this.createRuntimeState(lfo.id, timeSeconds);
 
     // Treat bpmCoefficient as a musical duration (fraction of a 4-beat bar).
     // The smaller the coefficient, the faster the modulation (shorter period).
@@ -393,12 +466,12 @@ export class ModulationManager {
         break;
       }
       case 'noise':
-        raw = Math.random() * 2 - 1;
+        raw = state.rng() * 2 - 1;
         break;
       case 'sampleHold': {
         const interval = 1 / Math.max(0.0001, effectiveFreq || 0.0001);
         if (timeSeconds - state.lastHoldTime >= interval) {
-          state.holdValue = Math.random() * 2 - 1;
+          state.holdValue = state.rng() * 2 - 1;
           state.lastHoldTime = timeSeconds;
         }
         raw = state.holdValue;
@@ -428,11 +501,7 @@ export class ModulationManager {
     const t = clamp((timeSeconds - start) / duration, 0, 1);
     const phase = t * TAU;
 
-    const state: LfoRuntimeState = this.envelopeRuntime.get(env.id) ?? {
-      lastValue: 0,
-      holdValue: Math.random() * 2 - 1,
-      lastHoldTime: timeSeconds,
-    };
+    const state: LfoRuntimeState = this.envelopeRuntime.get(env.id) ?? this.createRuntimeState(env.id, timeSeconds);
 
     const effectiveFreq = 1 / duration;
     let raw: number;
@@ -474,12 +543,12 @@ export class ModulationManager {
         break;
       }
       case 'noise':
-        raw = Math.random() * 2 - 1;
+        raw = state.rng() * 2 - 1;
         break;
       case 'sampleHold': {
         const interval = 1 / Math.max(0.0001, effectiveFreq || 0.0001);
         if (timeSeconds - state.lastHoldTime >= interval) {
-          state.holdValue = Math.random() * 2 - 1;
+          state.holdValue = state.rng() * 2 - 1;
           state.lastHoldTime = timeSeconds;
         }
         raw = state.holdValue;
@@ -0,0 +1,62 @@
+import { CylinderGeometry, type BufferGeometry } from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { hashStringToSeed } from './random';
+import type { Vec3 } from './simulation';
+
+export type JointStyle = 'none' | 'sphere' | 'elbow' | 'teapot';
+
+export const JOINT_STYLES: Record<string, JointStyle> = {
+  'None (curves only)': 'none',
+  'Ball joints': 'sphere',
+  'Mitred elbows': 'elbow',
+  'Ball joints + rare teapot': 'teapot',
+};
+
+export function normalizeJointStyle(value: unknown): JointStyle | null {
+  return value === 'none' || value === 'sphere' || value === 'elbow' || value === 'teapot' ? value : null;
+}
+
+/** Roughly one corner in this many becomes a teapot in the 'teapot' style. */
+const TEAPOT_JOINT_ODDS = 48;
+
+/**
+ * Whether the corner at `cell` of pipe `pipeId` gets the teapot. Hashing the pipe and cell keeps
+ * the choice stable while the pipe grows and identical across seeded replays.
+ */
+export function isTeapotJoint(pipeId: number, cell: Vec3): boolean {
+  return hashStringToSeed(`${pipeId}:${cell.x},${cell.y},${cell.z}`) % TEAPOT_JOINT_ODDS === 0;
+}
+
+/**
+ * Unit-radius elbow made of two tube legs cut at 45°: it enters along +Y, turns at the origin and
+ * leaves along +X, so an instance matrix with basis (out, in, out × in) orients it on any corner.
+ * `legLength` is measured in radii from the corner center.
+ */
+export function createMitredElbowGeometry(radialSegments: number, legLength = 1.6): BufferGeometry {
+  const radial = Math.max(4, Math.floor(radialSegments));
+  const length = Math.max(1.05, legLength);
+  const eps = 1e-6;
+
+  // Incoming leg spans y ∈ [-length, 0]; its top ring is pushed onto the mitre plane y = -x.
+  const incoming = new CylinderGeometry(1, 1, length, radial, 1, true);
+  incoming.translate(0, -length / 2, 0);
+  const inPos = incoming.getAttribute('position');
+  for (let i = 0; i < inPos.count; i++) {
+    if (Math.abs(inPos.getY(i)) < eps) inPos.setY(i, -inPos.getX(i));
+  }
+
+  // Outgoing leg spans x ∈ [0, length]; its near ring lands on the same plane (x = -y).
+  const outgoing = new CylinderGeometry(1, 1, length, radial, 1, true);
+  outgoing.rotateZ(-Math.PI / 2);
+  outgoing.translate(length / 2, 0, 0);
+  const outPos = outgoing.getAttribute('position');
+  for (let i = 0; i < outPos.count; i++) {
+    if (Math.abs(outPos.getX(i)) < eps) outPos.setX(i, -outPos.getY(i));
+  }
+
+  const merged = mergeGeometries([incoming, outgoing]);
+  incoming.dispose();
+  outgoing.dispose();
+  if (!merged) throw new Error('Failed to build elbow geometry');
+  return merged;
+}
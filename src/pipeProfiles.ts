@@ -0,0 +1,129 @@
+/**
+ * Pipe cross-sections. A profile is a set of 2D edges in units of the pipe radius; the sweep
+ * extrudes each edge along the path, with the profile's x/y mapped to the tube's local x/z.
+ */
+export type PipeProfile = 'circle' | 'square' | 'ribbon' | 'star' | 'hollow' | 'custom';
+
+export const PIPE_PROFILES: Record<string, PipeProfile> = {
+  Circle: 'circle',
+  Square: 'square',
+  'Flat ribbon': 'ribbon',
+  Star: 'star',
+  'Hollow double wall': 'hollow',
+  'Custom polyline': 'custom',
+};
+
+export function normalizePipeProfile(value: unknown): PipeProfile | null {
+  return Object.values(PIPE_PROFILES).includes(value as PipeProfile) ? (value as PipeProfile) : null;
+}
+
+export type ProfilePoint = { x: number; y: number };
+
+/** One straight side of the cross-section, with a normal at each end (equal for hard edges). */
+export type ProfileEdge = { from: ProfilePoint; to: ProfilePoint; fromNormal: ProfilePoint; toNormal: ProfilePoint };
+
+// Sizes in radii. The square has the circle's area, so switching profiles keeps the visual weight.
+const SQUARE_HALF_SIDE = Math.sqrt(Math.PI) / 2;
+const RIBBON_HALF_WIDTH = 1.5;
+const RIBBON_HALF_THICKNESS = 0.2;
+const STAR_POINTS = 5;
+const STAR_OUTER = 1.15;
+const STAR_INNER = 0.5;
+const HOLLOW_INNER = 0.75;
+
+/**
+ * Parses a custom profile typed as `x,y` pairs separated by spaces or semicolons, e.g.
+ * `-1,0 0,1 1,0 0,-1 -1,0`. Returns null unless there are at least two points.
+ */
+export function parseProfilePolyline(text: string): ProfilePoint[] | null {
+  const points: ProfilePoint[] = [];
+  for (const pair of text.split(/[\s;]+/)) {
+    if (!pair) continue;
+    const [x, y] = pair.split(',').map(Number);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+    points.push({ x, y });
+  }
+  return points.length >= 2 ? points : null;
+}
+
+/** Edges of `profile`; custom polylines that fail to parse fall back to the circle. */
+export function profileEdges(profile: PipeProfile, radialSegments: number, customPolyline: string): ProfileEdge[] {
+  const radial = Math.max(4, Math.floor(radialSegments));
+  switch (profile) {
+    case 'square': {
+      const s = SQUARE_HALF_SIDE;
+      return flatLoop([{ x: s, y: s }, { x: s, y: -s }, { x: -s, y: -s }, { x: -s, y: s }]);
+    }
+    case 'ribbon': {
+      const w = RIBBON_HALF_WIDTH;
+      const t = RIBBON_HALF_THICKNESS;
+      return flatLoop([{ x: w, y: t }, { x: w, y: -t }, { x: -w, y: -t }, { x: -w, y: t }]);
+    }
+    case 'star': {
+      const points: ProfilePoint[] = [];
+      for (let i = 0; i < STAR_POINTS * 2; i++) {
+        const angle = (i / (STAR_POINTS * 2)) * Math.PI * 2;
+        const r = i % 2 === 0 ? STAR_OUTER : STAR_INNER;
+        points.push({ x: Math.sin(angle) * r, y: Math.cos(angle) * r });
+      }
+      return flatLoop(points);
+    }
+    case 'hollow':
+      return [...roundLoop(radial, 1, false), ...roundLoop(radial, HOLLOW_INNER, true)];
+    case 'custom': {
+      const points = parseProfilePolyline(customPolyline);
+      if (!points) return roundLoop(radial, 1, false);
+      const first = points[0];
+      const last = points[points.length - 1];
+      if (points.length > 3 && Math.hypot(first.x - last.x, first.y - last.y) < 1e-6) return flatLoop(points.slice(0, -1));
+      // An open line has no inside, so both of its faces are built.
+      const edges = flatStrip(points);
+      return [...edges, ...flatStrip([...points].reverse())];
+    }
+    default:
+      return roundLoop(radial, 1, false);
+  }
+}
+
+/** A smooth ring laid out like `CylinderGeometry`'s (x = sin θ, y = cos θ), normals facing out or in. */
+function roundLoop(segments: number, radius: number, inward: boolean): ProfileEdge[] {
+  const edges: ProfileEdge[] = [];
+  const sign = inward ? -1 : 1;
+  for (let i = 0; i < segments; i++) {
+    const a = (i / segments) * Math.PI * 2;
+    const b = ((i + 1) / segments) * Math.PI * 2;
+    edges.push({
+      from: { x: Math.sin(a) * radius, y: Math.cos(a) * radius },
+      to: { x: Math.sin(b) * radius, y: Math.cos(b) * radius },
+      fromNormal: { x: Math.sin(a) * sign, y: Math.cos(a) * sign },
+      toNormal: { x: Math.sin(b) * sign, y: Math.cos(b) * sign },
+    });
+  }
+  return edges;
+}
+
+/** A closed polygon with hard edges whose normals face away from its inside, whichever way it winds. */
+function flatLoop(points: ProfilePoint[]): ProfileEdge[] {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  const loop = area > 0 ? [...points].reverse() : points;
+  return flatStrip([...loop, loop[0]]);
+}
+
+/** Hard-edged sides along an open polyline, each facing to the left of its direction. */
+function flatStrip(points: ProfilePoint[]): ProfileEdge[] {
+  const edges: ProfileEdge[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const from = points[i];
+    const to = points[i + 1];
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    if (length < 1e-9) continue;
+    const normal = { x: -(to.y - from.y) / length, y: (to.x - from.x) / length };
+    edges.push({ from, to, fromNormal: normal, toNormal: normal });
+  }
+  return edges;
+}
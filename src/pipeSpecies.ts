@@ -0,0 +1,89 @@
+/**
+ * A kind of pipe. Each spawned root picks one by weight and its branches inherit it, so a run can
+ * mix thick slow trunks with thin fast tendrils. Optional fields fall back to the global config.
+ */
+export type PipeSpecies = {
+  name: string;
+  /** Relative spawn chance; species with weight 0 never spawn. */
+  weight: number;
+  /** Multiplies `growthInterval`: 2 grows at half speed, 0.5 at double speed. */
+  intervalScale: number;
+  turnProbability?: number;
+  /** Cells before the tail starts shrinking; 0 means infinite. */
+  maxPipeLength?: number;
+  /** Multiplies the rendered pipe radius. */
+  radiusScale: number;
+  /** CSS colors the species draws from; empty uses the usual full-spectrum hues. */
+  palette: string[];
+};
+
+export const MIN_INTERVAL_SCALE = 0.25;
+export const MAX_INTERVAL_SCALE = 8;
+
+export const SPECIES_PRESETS: Record<string, { label: string; species: PipeSpecies[] }> = {
+  uniform: { label: 'Uniform (one kind)', species: [] },
+  trunksAndTendrils: {
+    label: 'Trunks + tendrils',
+    species: [
+      {
+        name: 'Trunk',
+        weight: 1,
+        intervalScale: 2.5,
+        turnProbability: 0.08,
+        radiusScale: 2.2,
+        palette: ['#6b4f3a', '#8a6a4f', '#a0522d'],
+      },
+      {
+        name: 'Tendril',
+        weight: 3,
+        intervalScale: 0.5,
+        turnProbability: 0.45,
+        maxPipeLength: 40,
+        radiusScale: 0.45,
+        palette: ['#9be15d', '#00e3ae', '#c6ff8e'],
+      },
+    ],
+  },
+  cablesAndConduits: {
+    label: 'Cables + conduits',
+    species: [
+      { name: 'Cable', weight: 3, intervalScale: 0.8, turnProbability: 0.3, radiusScale: 0.6, palette: ['#ff3fa4', '#39d5ff', '#ffe14d'] },
+      { name: 'Conduit', weight: 1, intervalScale: 1.6, turnProbability: 0.12, radiusScale: 1.6, palette: ['#9aa3ad', '#c8ccd1', '#6f7782'] },
+    ],
+  },
+};
+
+export function copySpecies(list: readonly PipeSpecies[]): PipeSpecies[] {
+  return list.map((species) => ({ ...species, palette: [...species.palette] }));
+}
+
+/** Sanitizes a species list from a project file, dropping entries that cannot be used. */
+export function normalizePipeSpecies(value: unknown): PipeSpecies[] {
+  if (!Array.isArray(value)) return [];
+  const out: PipeSpecies[] = [];
+  for (const entry of value) {
+    if (typeof entry !== 'object' || entry === null) continue;
+    const raw = entry as Partial<Record<keyof PipeSpecies, unknown>>;
+    const num = (v: unknown, fallback: number) => (Number.isFinite(Number(v)) && v !== null ? Number(v) : fallback);
+    const species: PipeSpecies = {
+      name: String(raw.name ?? `Species ${out.length + 1}`),
+      weight: Math.max(0, num(raw.weight, 1)),
+      intervalScale: Math.min(MAX_INTERVAL_SCALE, Math.max(MIN_INTERVAL_SCALE, num(raw.intervalScale, 1))),
+      radiusScale: Math.min(4, Math.max(0.1, num(raw.radiusScale, 1))),
+      palette: Array.isArray(raw.palette) ? raw.palette.filter((c): c is string => typeof c === 'string') : [],
+    };
+    if (raw.turnProbability !== undefined) species.turnProbability = Math.min(1, Math.max(0, num(raw.turnProbability, 0.2)));
+    if (raw.maxPipeLength !== undefined) species.maxPipeLength = Math.max(0, Math.floor(num(raw.maxPipeLength, 0)));
+    out.push(species);
+  }
+  return out;
+}
+
+/** Name of the preset matching `list`, or null for a custom list. */
+export function findSpeciesPreset(list: readonly PipeSpecies[] | undefined): string | null {
+  const json = JSON.stringify(normalizePipeSpecies(list ?? []));
+  for (const [id, preset] of Object.entries(SPECIES_PRESETS)) {
+    if (JSON.stringify(normalizePipeSpecies(preset.species)) === json) return id;
+  }
+  return null;
+}
@@ -0,0 +1,814 @@
+import {
+  BufferAttribute,
+  DataTexture,
+  FloatType,
+  InstancedBufferGeometry,
+  NearestFilter,
+  Quaternion,
+  RGBAFormat,
+  RedFormat,
+  SphereGeometry,
+  Vector3,
+  type IUniform,
+  type Material,
+} from 'three';
+import type { ProfileEdge } from './pipeProfiles';
+import type { Vec3 } from './simulation';
+
+/**
+ * GPU-side pipe paths. Every pipe's control points live in one float texture, and two scene-wide
+ * meshes (tube pieces and corner joints) draw one instance per texel: the vertex shader looks up the
+ * texel's pipe, evaluates the same curve `CatmullRomCurve3` would and sweeps the tube along it.
+ * Growing or retracting a pipe touches a single texel, so uploads stay O(1) per step.
+ */
+export type PipeSweepCurve = 'polyline' | 'catmullrom' | 'centripetal' | 'chordal';
+
+const SWEEP_CURVES: PipeSweepCurve[] = ['polyline', 'catmullrom', 'centripetal', 'chordal'];
+
+/** Short pipes are cut into at least this many tube pieces in total so their curves stay round. */
+const MIN_PIPE_PIECES = 6;
+const TEXTURE_WIDTH = 1024;
+const MIN_REGION = 8;
+/** Texels per pipe in the info texture: layout, head, style, anchor. */
+const INFO_STRIDE = 4;
+/** The swell trail keeps this many samples, one per `SWELL_STEP` cells travelled. */
+const SWELL_SAMPLES = 1024;
+const SWELL_STEP = 0.25;
+
+/** Tube pieces the segment geometry needs for `tubularSegments` pieces per cell. */
+export function pipeSweepPieces(tubularSegments: number): number {
+  return Math.max(MIN_PIPE_PIECES, Math.floor(tubularSegments));
+}
+
+/**
+ * `pieces` copies of the profile extruded over y ∈ [-0.5, 0.5], each vertex tagged with its piece
+ * index; one instance is one cell-to-cell stretch of a pipe.
+ */
+export function createSweepSegmentGeometry(edges: ProfileEdge[], pieces: number): InstancedBufferGeometry {
+  const vertexCount = edges.length * 4;
+  const positions = new Float32Array(vertexCount * 3 * pieces);
+  const normals = new Float32Array(vertexCount * 3 * pieces);
+  const pieceIds = new Float32Array(vertexCount * pieces);
+  const indices = new Uint32Array(edges.length * 6 * pieces);
+  for (let p = 0; p < pieces; p++) {
+    pieceIds.fill(p, p * vertexCount, (p + 1) * vertexCount);
+    edges.forEach((edge, e) => {
+      const first = p * vertexCount + e * 4;
+      const corners = [
+        [edge.from, edge.fromNormal, -0.5],
+        [edge.to, edge.toNormal, -0.5],
+        [edge.to, edge.toNormal, 0.5],
+        [edge.from, edge.fromNormal, 0.5],
+      ] as const;
+      corners.forEach(([point, normal, y], c) => {
+        positions.set([point.x, y, point.y], (first + c) * 3);
+        normals.set([normal.x, 0, normal.y], (first + c) * 3);
+      });
+      // Wind each side so its front face looks the way its normals point.
+      const dx = edge.to.x - edge.from.x;
+      const dz = edge.to.y - edge.from.y;
+      const facing = -dz * (edge.fromNormal.x + edge.toNormal.x) + dx * (edge.fromNormal.y + edge.toNormal.y);
+      const quad = facing >= 0 ? [0, 1, 2, 0, 2, 3] : [0, 2, 1, 0, 3, 2];
+      indices.set(
+        quad.map((c) => first + c),
+        (p * edges.length + e) * 6
+      );
+    });
+  }
+
+  const geometry = new InstancedBufferGeometry();
+  geometry.setAttribute('position', new BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new BufferAttribute(normals, 3));
+  geometry.setAttribute('pipePiece', new BufferAttribute(pieceIds, 1));
+  geometry.setIndex(new BufferAttribute(indices, 1));
+  geometry.instanceCount = 0;
+  return geometry;
+}
+
+/**
+ * Unit sphere drawn once per path point. Only round polyline pipes show joints: other profiles meet
+ * at mitred corners, and their ends stay open like curved pipes' do.
+ */
+export function createSweepJointGeometry(radialSegments: number): InstancedBufferGeometry {
+  const sphere = new SphereGeometry(1, radialSegments, Math.max(2, Math.floor(radialSegments / 2)));
+  const geometry = new InstancedBufferGeometry();
+  for (const name of Object.keys(sphere.attributes)) geometry.setAttribute(name, sphere.getAttribute(name));
+  geometry.setIndex(sphere.getIndex());
+  geometry.instanceCount = 0;
+  return geometry;
+}
+
+/** Path info lookups and the radius waves, shared by the tube sweep and the fittings. */
+const RADIUS_WAVE_PARS = /* glsl */ `
+uniform highp sampler2D pipeInfo;
+uniform float pipeTaper;
+uniform float pipeTaperLength;
+uniform float pipeHeadSwell;
+uniform float pipeHeadLength;
+uniform float pipePulse;
+uniform float pipePulseWavelength;
+uniform float pipeTravel;
+uniform highp sampler2D pipeSwellTrail;
+
+vec4 pipeTexel(highp sampler2D data, int index) {
+  int width = textureSize(data, 0).x;
+  return texelFetch(data, ivec2(index % width, index / width), 0);
+}
+
+// Swell recorded at the tails when the waves had travelled \`travel\` cells; zero before the record starts.
+float pipeSwellAt(float travel) {
+  float position = travel / ${SWELL_STEP.toFixed(2)};
+  int newest = int(floor(pipeTravel / ${SWELL_STEP.toFixed(2)}));
+  if (position < 0.0 || float(newest) - position >= ${SWELL_SAMPLES - 1}.0) return 0.0;
+  int i = int(floor(position));
+  float a = texelFetch(pipeSwellTrail, ivec2(i & ${SWELL_SAMPLES - 1}, 0), 0).r;
+  float b = texelFetch(pipeSwellTrail, ivec2(min(i + 1, newest) & ${SWELL_SAMPLES - 1}, 0), 0).r;
+  return mix(a, b, fract(position));
+}
+
+// Radius multiplier \`along\` cells from the tail of a path of \`count\` points; pulses are placed by
+// \`anchored\`, the distance from where the path began, so they ride the cells rather than the tail.
+float pipeRadiusScale(float along, float anchored, int count) {
+  float scale = mix(1.0 - pipeTaper, 1.0, smoothstep(0.0, max(pipeTaperLength, 1e-3), along));
+  scale *= 1.0 + pipeHeadSwell * (1.0 - smoothstep(0.0, max(pipeHeadLength, 1e-3), float(count - 1) - along));
+  float wave = 0.5 + 0.5 * cos(6.28318530718 * (anchored - pipeTravel) / max(pipePulseWavelength, 1e-3));
+  scale *= 1.0 + pipePulse * pow(wave, 4.0);
+  return max(0.0, scale * (1.0 + pipeSwellAt(pipeTravel - along)));
+}
+`;
+
+const SWEEP_VERTEX_PARS = /* glsl */ `
+${RADIUS_WAVE_PARS}
+uniform highp sampler2D pipePaths;
+uniform highp sampler2D pipeFrames;
+uniform int pipeCurve;
+uniform float pipeTension;
+uniform int pipeSamples;
+uniform bool pipeWrap;
+uniform vec3 pipeRoomPeriod;
+uniform float pipeSweepScale;
+uniform float pipeTwist;
+#ifndef PIPE_SWEEP_JOINT
+attribute float pipePiece;
+#endif
+
+struct PipeSweep {
+  vec3 position;
+  vec3 normal;
+  vec3 color;
+};
+
+// Point k of a pipe's path; the head eases in from its previous cell.
+// ring = (base, mask, start, count)
+vec3 pipePoint(ivec4 ring, vec4 head, int k) {
+  vec3 point = pipeTexel(pipePaths, ring.x + ((ring.z + k) & ring.y)).xyz;
+  return k == ring.w - 1 && ring.w > 1 ? mix(head.xyz, point, head.w) : point;
+}
+
+// Whole room lengths that bring p back inside the room.
+vec3 pipeRoomShift(vec3 p) {
+  return floor((p + 0.5 * pipeRoomPeriod) / pipeRoomPeriod) * pipeRoomPeriod;
+}
+
+// CubicPoly from CatmullRomCurve3: uniform tangents for 'catmullrom', non-uniform otherwise.
+vec3 pipeCurvePoint(vec3 p0, vec3 p1, vec3 p2, vec3 p3, float t) {
+  vec3 t1;
+  vec3 t2;
+  if (pipeCurve == 1) {
+    t1 = pipeTension * (p2 - p0);
+    t2 = pipeTension * (p3 - p1);
+  } else {
+    float power = pipeCurve == 3 ? 0.5 : 0.25;
+    float dt0 = pow(dot(p1 - p0, p1 - p0), power);
+    float dt1 = pow(dot(p2 - p1, p2 - p1), power);
+    float dt2 = pow(dot(p3 - p2, p3 - p2), power);
+    if (dt1 < 1e-4) dt1 = 1.0;
+    if (dt0 < 1e-4) dt0 = dt1;
+    if (dt2 < 1e-4) dt2 = dt1;
+    t1 = ((p1 - p0) / dt0 - (p2 - p0) / (dt0 + dt1) + (p2 - p1) / dt1) * dt1;
+    t2 = ((p2 - p1) / dt1 - (p3 - p1) / (dt1 + dt2) + (p3 - p2) / dt2) * dt1;
+  }
+  vec3 c2 = -3.0 * p1 + 3.0 * p2 - 2.0 * t1 - t2;
+  vec3 c3 = 2.0 * p1 - 2.0 * p2 + t1 + t2;
+  return p1 + t * (t1 + t * (c2 + t * c3));
+}
+
+// Unit normal to \`dir\` nearest \`frame\`, like \`alignFrame\` on the CPU.
+vec3 pipeFrameNormal(vec3 frame, vec3 dir) {
+  vec3 normal = frame - dir * dot(frame, dir);
+  if (dot(normal, normal) > 1e-8) return normalize(normal);
+  vec3 up = abs(dir.y) < 0.99 ? vec3(0.0, 1.0, 0.0) : vec3(0.0, 0.0, 1.0);
+  return normalize(up - dir * dot(up, dir));
+}
+
+PipeSweep pipeSweepVertex() {
+  PipeSweep sweep = PipeSweep(vec3(0.0), vec3(0.0, 1.0, 0.0), vec3(1.0));
+  int texel = gl_InstanceID;
+  float owner = pipeTexel(pipePaths, texel).w;
+  if (owner < 0.0) return sweep;
+  int slot = int(owner);
+  ivec4 ring = ivec4(pipeTexel(pipeInfo, slot * ${INFO_STRIDE}));
+  int offset = texel - ring.x;
+  // Texels left behind by a pipe that moved or died point at a region they are no longer part of.
+  if (offset < 0 || offset > ring.y) return sweep;
+  int j = (offset - ring.z) & ring.y;
+  vec4 head = pipeTexel(pipeInfo, slot * ${INFO_STRIDE} + 1);
+  vec4 style = pipeTexel(pipeInfo, slot * ${INFO_STRIDE} + 2);
+  float anchor = pipeTexel(pipeInfo, slot * ${INFO_STRIDE} + 3).x;
+  float radius = style.a;
+#ifdef PIPE_SWEEP_JOINT
+  if (j >= ring.w) return sweep;
+  vec3 center = pipePoint(ring, head, j);
+  if (pipeWrap) center -= pipeRoomShift(center);
+  radius *= pipeRadiusScale(float(j), anchor + float(j), ring.w);
+  sweep.position = center + position * radius * pipeSweepScale;
+  sweep.normal = normal;
+#else
+  int segments = ring.w - 1;
+  if (j >= segments) return sweep;
+  int pieceCount = max(pipeSamples, (${MIN_PIPE_PIECES} + segments - 1) / segments);
+  int piece = int(pipePiece + 0.5);
+  if (piece >= pieceCount) return sweep;
+  vec3 p1 = pipePoint(ring, head, j);
+  vec3 p2 = pipePoint(ring, head, j + 1);
+  float u0 = float(piece) / float(pieceCount);
+  float u1 = float(piece + 1) / float(pieceCount);
+  vec3 a;
+  vec3 b;
+  if (pipeCurve == 0) {
+    a = mix(p1, p2, u0);
+    b = mix(p1, p2, u1);
+  } else {
+    vec3 p0 = j > 0 ? pipePoint(ring, head, j - 1) : 2.0 * p1 - p2;
+    vec3 p3 = j + 2 < ring.w ? pipePoint(ring, head, j + 2) : 2.0 * p2 - p1;
+    a = pipeCurvePoint(p0, p1, p2, p3, u0);
+    b = pipeCurvePoint(p0, p1, p2, p3, u1);
+  }
+  if (pipeWrap) {
+    vec3 shift = pipeRoomShift(0.5 * (a + b));
+    a -= shift;
+    b -= shift;
+  }
+  // The profile turns with the distance (in cells) from where the path began, so a twist stays put
+  // on its cells while the tail retracts.
+  float along = float(j) + mix(u0, u1, position.y + 0.5);
+  float anchored = anchor + along;
+  vec2 twist = vec2(cos(pipeTwist * anchored), sin(pipeTwist * anchored));
+  radius *= pipeRadiusScale(along, anchored, ring.w);
+  vec3 shape = vec3(twist.x * position.x - twist.y * position.z, position.y, twist.y * position.x + twist.x * position.z);
+  vec3 shapeNormal = vec3(twist.x * normal.x - twist.y * normal.z, 0.0, twist.y * normal.x + twist.x * normal.z);
+  vec3 local = shape * pipeSweepScale;
+  float len = length(b - a);
+  if (len <= 1e-8) {
+    sweep.position = a + local * vec3(radius, 1e-6, radius);
+    sweep.normal = shapeNormal;
+  } else {
+    vec3 dir = (b - a) / len;
+    // The stretch ending at point j + 1 carries the frame this segment's profile is laid out in.
+    vec3 up = pipeFrameNormal(pipeTexel(pipeFrames, ring.x + ((ring.z + j + 1) & ring.y)).xyz, dir);
+    vec3 side = cross(dir, up);
+    vec3 offset = (side * local.x + up * local.z) * radius;
+    sweep.position = 0.5 * (a + b) + dir * (local.y * len) + offset;
+    sweep.normal = side * shapeNormal.x + up * shapeNormal.z;
+    if (pipeCurve == 0) {
+      // Polyline ends are cut on the plane halfway between the two stretches, so any profile meets
+      // its neighbour edge to edge.
+      vec3 neighbour = vec3(0.0);
+      if (piece == pieceCount - 1 && position.y > 0.0 && j + 2 < ring.w) {
+        neighbour = pipePoint(ring, head, j + 2) - p2;
+      } else if (piece == 0 && position.y < 0.0 && j > 0) {
+        neighbour = p1 - pipePoint(ring, head, j - 1);
+      }
+      float reach = length(neighbour);
+      if (reach > 1e-4) {
+        vec3 mitre = normalize(dir + neighbour / reach);
+        sweep.position -= dir * dot(offset, mitre) / max(dot(dir, mitre), 0.2);
+      }
+    }
+  }
+#endif
+  sweep.color = style.rgb;
+  return sweep;
+}
+`;
+
+export type PipeSweepUniforms = Record<string, IUniform>;
+
+/**
+ * Turns a stock material into a path sweep: positions and normals come from `pipeSweepVertex()`
+ * and the pipe color multiplies the vertex colors. `scale` sizes the tube around its path (the neon
+ * halo uses it like `neonSize`).
+ */
+export function attachPipeSweep(
+  material: Material,
+  kind: 'segment' | 'joint',
+  uniforms: PipeSweepUniforms,
+  scale: { value: number }
+) {
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms, { pipeSweepScale: scale });
+    const define = kind === 'joint' ? '#define PIPE_SWEEP_JOINT\n' : '';
+    shader.vertexShader = shader.vertexShader
+      .replace('void main() {', `${define}${SWEEP_VERTEX_PARS}\nvoid main() {\n\tPipeSweep pipeSweep = pipeSweepVertex();`)
+      .replace('#include <beginnormal_vertex>', 'vec3 objectNormal = pipeSweep.normal;')
+      .replace('#include <begin_vertex>', 'vec3 transformed = pipeSweep.position;')
+      .replace('#include <color_vertex>', '#include <color_vertex>\n#ifdef USE_COLOR\n\tvColor.rgb *= pipeSweep.color;\n#endif');
+  };
+  material.customProgramCacheKey = () => `pipe-sweep-${kind}-v1`;
+}
+
+const FITTING_VERTEX_PARS = /* glsl */ `
+${RADIUS_WAVE_PARS}
+attribute vec2 pipeFittingPoint;
+
+// The fitting's pipe color (rgb) and radius at its point of the path, radius waves included (a).
+vec4 pipeFittingVertex() {
+  int slot = int(pipeFittingPoint.x + 0.5);
+  ivec4 ring = ivec4(pipeTexel(pipeInfo, slot * ${INFO_STRIDE}));
+  vec4 style = pipeTexel(pipeInfo, slot * ${INFO_STRIDE} + 2);
+  float anchor = pipeTexel(pipeInfo, slot * ${INFO_STRIDE} + 3).x;
+  float anchored = pipeFittingPoint.y;
+  return vec4(style.rgb, style.a * pipeRadiusScale(anchored - anchor, anchored, ring.w));
+}
+`;
+
+/**
+ * Sizes and colors instanced fittings from their pipe's path info, so radius, color and radius
+ * waves never touch the instances. Each instance's `pipeFittingPoint` holds its pipe's info slot
+ * and the anchored index of its path point; its matrix holds only placement and size in radii.
+ * Collars keep their length and only widen. `shade` darkens the pipe color.
+ */
+export function attachPipeFitting(material: Material, kind: 'fitting' | 'collar', uniforms: PipeSweepUniforms, shade: number) {
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms);
+    const grow = kind === 'collar' ? 'transformed.xz *= pipeFitting.a;' : 'transformed *= pipeFitting.a;';
+    shader.vertexShader = shader.vertexShader
+      .replace('void main() {', `${FITTING_VERTEX_PARS}\nvoid main() {\n\tvec4 pipeFitting = pipeFittingVertex();`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>\n${grow}`)
+      .replace(
+        '#include <color_vertex>',
+        `#include <color_vertex>\n#ifdef USE_COLOR\n\tvColor.rgb *= pipeFitting.rgb * ${shade.toFixed(3)};\n#endif`
+      );
+  };
+  material.customProgramCacheKey = () => `pipe-fitting-${kind}-v1`;
+}
+
+/** A float RGBA texture that grows by rows and uploads only the texel ranges written since the last frame. */
+class TexelBuffer {
+  texture: DataTexture;
+  data: Float32Array;
+  private readonly fill: number;
+  private uploaded = false;
+  private dirty: Array<{ start: number; end: number }> = [];
+
+  constructor(fill: number) {
+    this.fill = fill;
+    this.data = new Float32Array(TEXTURE_WIDTH * 4).fill(fill);
+    this.texture = this.createTexture();
+  }
+
+  private createTexture() {
+    const texture = new DataTexture(this.data, TEXTURE_WIDTH, this.data.length / 4 / TEXTURE_WIDTH, RGBAFormat, FloatType);
+    texture.minFilter = NearestFilter;
+    texture.magFilter = NearestFilter;
+    texture.generateMipmaps = false;
+    texture.needsUpdate = true;
+    texture.onUpdate = () => {
+      this.uploaded = true;
+    };
+    this.uploaded = false;
+    this.dirty.length = 0;
+    return texture;
+  }
+
+  /** Makes room for `texels` texels; growing reallocates the texture and uploads it whole. */
+  ensure(texels: number) {
+    const rows = this.data.length / 4 / TEXTURE_WIDTH;
+    if (texels <= rows * TEXTURE_WIDTH) return;
+    let nextRows = rows;
+    while (nextRows * TEXTURE_WIDTH < texels) nextRows *= 2;
+    const next = new Float32Array(nextRows * TEXTURE_WIDTH * 4).fill(this.fill);
+    next.set(this.data);
+    this.data = next;
+    this.texture.dispose();
+    this.texture = this.createTexture();
+  }
+
+  write(texel: number, x: number, y: number, z: number, w: number) {
+    const i = texel * 4;
+    this.data[i] = x;
+    this.data[i + 1] = y;
+    this.data[i + 2] = z;
+    this.data[i + 3] = w;
+    const last = this.dirty[this.dirty.length - 1];
+    if (last && texel >= last.start && texel <= last.end) {
+      last.end = Math.max(last.end, texel + 1);
+    } else {
+      this.dirty.push({ start: texel, end: texel + 1 });
+    }
+  }
+
+  /** Queues this frame's writes as update ranges; a texture not uploaded yet still goes up whole. */
+  flush() {
+    if (this.dirty.length === 0) return;
+    if (this.uploaded) {
+      for (const { start, end } of this.dirty) {
+        // Update ranges may not cross a row.
+        for (let rowStart = start; rowStart < end; ) {
+          const rowEnd = Math.min(end, (Math.floor(rowStart / TEXTURE_WIDTH) + 1) * TEXTURE_WIDTH);
+          this.texture.addUpdateRange(rowStart * 4, (rowEnd - rowStart) * 4);
+          rowStart = rowEnd;
+        }
+      }
+    }
+    this.dirty.length = 0;
+    this.texture.needsUpdate = true;
+  }
+
+  dispose() {
+    this.texture.dispose();
+  }
+}
+
+export type PipeSweepSettings = {
+  curve: PipeSweepCurve;
+  /** Catmull-Rom tension, used by the uniform curve only. */
+  tension: number;
+  tubularSegments: number;
+  /** Profile rotation in radians per cell. */
+  twist: number;
+  /** Room size in world units when pipes wrap through its walls, otherwise null. */
+  roomPeriod: Vec3 | null;
+};
+
+/** Places a grid cell in world space; with a `previous` point, wrap-around rooms pick the copy nearest it. */
+export type PipePathPlacer = (cell: Vec3, out: Vector3, previous: Vector3 | null) => Vector3;
+
+type PathEntry = {
+  slot: number;
+  /** Ring region [base, base + mask] of the path texture; its size is a power of two. */
+  base: number;
+  mask: number;
+  start: number;
+  count: number;
+  /** Points dropped from the front since the path was last written whole. */
+  anchor: number;
+  /** Times the path was written whole; point indices from before a rewrite mean nothing after it. */
+  rewrites: number;
+  /** The cells behind each stored point, indexed like the ring. */
+  cells: Vec3[];
+  rewrite: boolean;
+};
+
+/**
+ * A pipe's info slot, the points dropped from the front of its path (point k is anchored at
+ * `anchor + k`) and how many times the path was written whole.
+ */
+export type PipePathRef = { slot: number; anchor: number; rewrites: number };
+
+const sameCell = (a: Vec3, b: Vec3) => a.x === b.x && a.y === b.y && a.z === b.z;
+const tmpPoint = new Vector3();
+const tmpPrevious = new Vector3();
+const tmpBefore = new Vector3();
+const tmpDirection = new Vector3();
+const tmpPreviousDirection = new Vector3();
+const tmpFrame = new Vector3();
+const tmpTransport = new Quaternion();
+
+/**
+ * Makes `frame` the unit normal to `direction` nearest it. A frame with nothing left falls back to
+ * world up, or to +Z for vertical stretches; `pipeFrameNormal` does the same on the GPU.
+ */
+function alignFrame(frame: Vector3, direction: Vector3): Vector3 {
+  frame.addScaledVector(direction, -frame.dot(direction));
+  if (frame.lengthSq() > 1e-8) return frame.normalize();
+  if (Math.abs(direction.y) < 0.99) frame.set(0, 1, 0);
+  else frame.set(0, 0, 1);
+  return frame.addScaledVector(direction, -frame.dot(direction)).normalize();
+}
+
+/**
+ * Path storage for every pipe. Each pipe owns a ring region of the path texture: growth writes the
+ * new head texel, tail shrink just moves the ring start and retraction lowers the count. A pipe
+ * outgrowing its region moves to one twice the size, and freed regions are reused by size.
+ *
+ * A frame texture laid out like the paths holds, for each point, the normal the profile is turned
+ * to along the stretch ending there. The first stretch starts from world up and each new one carries
+ * the last normal round the corner (parallel transport), so a profile keeps its roll through turns
+ * and twist is measured from a frame that stays put on its cells.
+ */
+export class PipePathStore {
+  readonly uniforms = {
+    pipePaths: { value: null as DataTexture | null },
+    pipeInfo: { value: null as DataTexture | null },
+    pipeFrames: { value: null as DataTexture | null },
+    pipeCurve: { value: 0 },
+    pipeTension: { value: 0 },
+    pipeSamples: { value: 1 },
+    pipeTwist: { value: 0 },
+    pipeWrap: { value: false },
+    pipeRoomPeriod: { value: new Vector3(1, 1, 1) },
+  };
+  private paths = new TexelBuffer(-1);
+  private info = new TexelBuffer(0);
+  private frames = new TexelBuffer(0);
+  private entries = new Map<number, PathEntry>();
+  private freeRegions = new Map<number, number[]>();
+  private freeSlots: number[] = [];
+  private slotCount = 0;
+  private used = 0;
+  private place: PipePathPlacer;
+
+  constructor(place: PipePathPlacer) {
+    this.place = place;
+  }
+
+  /** Texels handed out so far; the sweep meshes draw one instance per texel. */
+  get texelCount(): number {
+    return this.used;
+  }
+
+  setSweep(sweep: PipeSweepSettings) {
+    this.uniforms.pipeCurve.value = Math.max(0, SWEEP_CURVES.indexOf(sweep.curve));
+    this.uniforms.pipeTension.value = sweep.tension;
+    this.uniforms.pipeSamples.value = Math.max(1, Math.floor(sweep.tubularSegments));
+    this.uniforms.pipeTwist.value = sweep.twist;
+    this.uniforms.pipeWrap.value = sweep.roomPeriod !== null;
+    if (sweep.roomPeriod) this.uniforms.pipeRoomPeriod.value.set(sweep.roomPeriod.x, sweep.roomPeriod.y, sweep.roomPeriod.z);
+  }
+
+  /**
+   * Brings pipe `id`'s stored path in line with `lead` (its fork cell, if any) followed by `cells`.
+   * The new path is matched against the stored one by its end cells: points dropped at either end
+   * cost nothing and new head cells one texel each; anything else rewrites the path.
+   */
+  syncPath(id: number, lead: Vec3 | null, cells: Vec3[], prevHead: Vec3, headLerp: number) {
+    const offset = lead ? 1 : 0;
+    const length = cells.length + offset;
+    const cellAt = (i: number) => (i < offset ? lead! : cells[i - offset]);
+    let entry = this.entries.get(id);
+    if (!entry) {
+      const capacity = regionSize(length);
+      entry = {
+        slot: this.allocSlot(),
+        base: this.allocRegion(capacity),
+        mask: capacity - 1,
+        start: 0,
+        count: 0,
+        anchor: 0,
+        rewrites: 0,
+        cells: [],
+        rewrite: true,
+      };
+      this.entries.set(id, entry);
+    }
+
+    let kept = 0;
+    if (!entry.rewrite && entry.count > 0 && length > 0) {
+      const first = cellAt(0);
+      let dropped = 0;
+      while (dropped < entry.count && !sameCell(entry.cells[(entry.start + dropped) & entry.mask], first)) dropped++;
+      const overlap = Math.min(entry.count - dropped, length);
+      if (overlap > 0 && sameCell(entry.cells[(entry.start + dropped + overlap - 1) & entry.mask], cellAt(overlap - 1))) {
+        entry.start = (entry.start + dropped) & entry.mask;
+        entry.anchor += dropped;
+        kept = overlap;
+      }
+    }
+    entry.rewrite = false;
+    if (kept === 0) {
+      entry.start = 0;
+      entry.anchor = 0;
+      entry.rewrites++;
+    }
+    entry.count = kept;
+    for (let i = kept; i < length; i++) this.push(entry, cellAt(i));
+
+    if (entry.count > 0) {
+      this.pointAt(entry, entry.count - 1, tmpPrevious);
+      this.place(prevHead, tmpPoint, tmpPrevious);
+    } else {
+      tmpPoint.set(0, 0, 0);
+    }
+    this.info.write(entry.slot * INFO_STRIDE + 1, tmpPoint.x, tmpPoint.y, tmpPoint.z, headLerp);
+    this.writeLayout(entry);
+  }
+
+  /** Where pipe `id`'s path lives, for things placed at its points; null for pipes never synced. */
+  pathRef(id: number): PipePathRef | null {
+    const entry = this.entries.get(id);
+    return entry ? { slot: entry.slot, anchor: entry.anchor, rewrites: entry.rewrites } : null;
+  }
+
+  setStyle(id: number, r: number, g: number, b: number, radius: number) {
+    const entry = this.entries.get(id);
+    if (entry) this.info.write(entry.slot * INFO_STRIDE + 2, r, g, b, radius);
+  }
+
+  release(id: number) {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.entries.delete(id);
+    entry.count = 0;
+    this.writeLayout(entry);
+    this.freeRegion(entry.base, entry.mask + 1);
+    this.freeSlots.push(entry.slot);
+    if (this.entries.size === 0) {
+      // Nothing left to draw: start handing out texels from the beginning again.
+      this.used = 0;
+      this.slotCount = 0;
+      this.freeSlots.length = 0;
+      this.freeRegions.clear();
+    }
+  }
+
+  /** Rewrites every path on its next sync, e.g. after the room layout changed. */
+  invalidate() {
+    for (const entry of this.entries.values()) entry.rewrite = true;
+  }
+
+  /** Queues this frame's writes for upload and points the uniforms at the current textures. */
+  flush() {
+    this.paths.flush();
+    this.info.flush();
+    this.frames.flush();
+    this.uniforms.pipePaths.value = this.paths.texture;
+    this.uniforms.pipeInfo.value = this.info.texture;
+    this.uniforms.pipeFrames.value = this.frames.texture;
+  }
+
+  dispose() {
+    this.paths.dispose();
+    this.info.dispose();
+    this.frames.dispose();
+  }
+
+  private push(entry: PathEntry, cell: Vec3) {
+    if (entry.count > entry.mask) this.growRegion(entry);
+    const ring = (entry.start + entry.count) & entry.mask;
+    const previous = entry.count > 0 ? this.pointAt(entry, entry.count - 1, tmpPrevious) : null;
+    this.place(cell, tmpPoint, previous);
+    this.paths.write(entry.base + ring, tmpPoint.x, tmpPoint.y, tmpPoint.z, entry.slot);
+    this.writeFrame(entry, ring, tmpPoint, previous);
+    entry.cells[ring] = { x: cell.x, y: cell.y, z: cell.z };
+    entry.count++;
+  }
+
+  /** Stores the frame of the stretch from `previous` to `point`, which is about to become point `entry.count`. */
+  private writeFrame(entry: PathEntry, ring: number, point: Vector3, previous: Vector3 | null) {
+    tmpFrame.set(0, 0, 0);
+    if (previous) {
+      tmpDirection.subVectors(point, previous).normalize();
+      if (entry.count >= 2) {
+        tmpPreviousDirection.subVectors(previous, this.pointAt(entry, entry.count - 2, tmpBefore)).normalize();
+        const i = (entry.base + ((entry.start + entry.count - 1) & entry.mask)) * 4;
+        tmpFrame.set(this.frames.data[i], this.frames.data[i + 1], this.frames.data[i + 2]);
+        tmpFrame.applyQuaternion(tmpTransport.setFromUnitVectors(tmpPreviousDirection, tmpDirection));
+      }
+      alignFrame(tmpFrame, tmpDirection);
+    }
+    this.frames.write(entry.base + ring, tmpFrame.x, tmpFrame.y, tmpFrame.z, 0);
+  }
+
+  /** Moves the path into a region twice the size, unrolling the ring to start at 0. */
+  private growRegion(entry: PathEntry) {
+    const capacity = (entry.mask + 1) * 2;
+    const base = this.allocRegion(capacity);
+    const cells: Vec3[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const ring = (entry.start + i) & entry.mask;
+      const from = (entry.base + ring) * 4;
+      const data = this.paths.data;
+      const frames = this.frames.data;
+      this.paths.write(base + i, data[from], data[from + 1], data[from + 2], entry.slot);
+      this.frames.write(base + i, frames[from], frames[from + 1], frames[from + 2], 0);
+      cells.push(entry.cells[ring]);
+    }
+    this.freeRegion(entry.base, entry.mask + 1);
+    entry.base = base;
+    entry.mask = capacity - 1;
+    entry.start = 0;
+    entry.cells = cells;
+  }
+
+  private pointAt(entry: PathEntry, k: number, out: Vector3): Vector3 {
+    const i = (entry.base + ((entry.start + k) & entry.mask)) * 4;
+    return out.set(this.paths.data[i], this.paths.data[i + 1], this.paths.data[i + 2]);
+  }
+
+  private writeLayout(entry: PathEntry) {
+    this.info.write(entry.slot * INFO_STRIDE, entry.base, entry.mask, entry.start, entry.count);
+    this.info.write(entry.slot * INFO_STRIDE + 3, entry.anchor, 0, 0, 0);
+  }
+
+  private allocSlot(): number {
+    const slot = this.freeSlots.pop() ?? this.slotCount++;
+    this.info.ensure((slot + 1) * INFO_STRIDE);
+    return slot;
+  }
+
+  private allocRegion(capacity: number): number {
+    const reused = this.freeRegions.get(capacity)?.pop();
+    if (reused !== undefined) return reused;
+    const base = this.used;
+    this.used += capacity;
+    this.paths.ensure(this.used);
+    this.frames.ensure(this.used);
+    return base;
+  }
+
+  private freeRegion(base: number, capacity: number) {
+    let list = this.freeRegions.get(capacity);
+    if (!list) this.freeRegions.set(capacity, (list = []));
+    list.push(base);
+  }
+}
+
+function regionSize(points: number): number {
+  let size = MIN_REGION;
+  while (size < points) size *= 2;
+  return size;
+}
+
+/** Radius animation along every pipe, in multiples of the pipe's own radius. */
+export type PipeRadiusAnimation = {
+  /** How much thinner the tail end gets (0..1), and over how many cells it widens back. */
+  taper: number;
+  taperLength: number;
+  /** Extra radius at the head, fading out over `headLength` cells. */
+  headSwell: number;
+  headLength: number;
+  /** Height of the travelling pulses and their spacing in cells. */
+  pulse: number;
+  pulseWavelength: number;
+  /** Cells per second that pulses and swells travel from tail to head. */
+  speed: number;
+  /** Extra radius fed in at the tails right now; it travels down the pipes at `speed`. */
+  swell: number;
+};
+
+/**
+ * Clock for travelling radius waves. Pulses are a fixed wave pattern shifted by the distance
+ * travelled so far; the swell is recorded against that distance so each value reaches a point
+ * `along` cells from a tail once the waves have moved on by `along`.
+ */
+export class PipeRadiusWaves {
+  readonly uniforms: PipeSweepUniforms;
+  private trail = new Float32Array(SWELL_SAMPLES);
+  private texture: DataTexture;
+  private travel = 0;
+  private newest = -1;
+  private lastTime: number | null = null;
+
+  constructor() {
+    this.texture = new DataTexture(this.trail, SWELL_SAMPLES, 1, RedFormat, FloatType);
+    this.texture.minFilter = NearestFilter;
+    this.texture.magFilter = NearestFilter;
+    this.texture.generateMipmaps = false;
+    this.texture.needsUpdate = true;
+    this.uniforms = {
+      pipeTaper: { value: 0 },
+      pipeTaperLength: { value: 1 },
+      pipeHeadSwell: { value: 0 },
+      pipeHeadLength: { value: 1 },
+      pipePulse: { value: 0 },
+      pipePulseWavelength: { value: 1 },
+      pipeTravel: { value: 0 },
+      pipeSwellTrail: { value: this.texture },
+    };
+  }
+
+  /** Advances to scene `time`; a missing or rewound clock starts the waves over. */
+  advance(animation: PipeRadiusAnimation, time: number | undefined) {
+    const speed = Math.max(0, animation.speed);
+    if (time === undefined || this.lastTime === null || time < this.lastTime) {
+      this.travel = speed * (time ?? 0);
+      this.trail.fill(0);
+      this.newest = Math.floor(this.travel / SWELL_STEP) - 1;
+    } else {
+      this.travel += speed * (time - this.lastTime);
+    }
+    this.lastTime = time ?? null;
+
+    const newest = Math.floor(this.travel / SWELL_STEP);
+    for (let i = Math.max(this.newest + 1, newest - SWELL_SAMPLES + 1); i <= newest; i++) {
+      this.trail[i & (SWELL_SAMPLES - 1)] = animation.swell;
+    }
+    // A stalled clock still shows the latest swell at the tails.
+    this.trail[newest & (SWELL_SAMPLES - 1)] = animation.swell;
+    this.newest = newest;
+    this.texture.needsUpdate = true;
+
+    this.uniforms.pipeTaper.value = Math.min(1, Math.max(0, animation.taper));
+    this.uniforms.pipeTaperLength.value = animation.taperLength;
+    this.uniforms.pipeHeadSwell.value = animation.headSwell;
+    this.uniforms.pipeHeadLength.value = animation.headLength;
+    this.uniforms.pipePulse.value = animation.pulse;
+    this.uniforms.pipePulseWavelength.value = animation.pulseWavelength;
+    this.uniforms.pipeTravel.value = this.travel;
+  }
+
+  dispose() {
+    this.texture.dispose();
+  }
+}
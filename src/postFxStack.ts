@@ -0,0 +1,128 @@
+/**
+ * Order of the screen-space effects between the scene render and the output pass. Each effect has
+ * one linked entry that renders with the Post FX panel settings; duplicates carry their own copy of
+ * those settings, keyed by the same render setting names, so two prism passes can differ in strength.
+ */
+export type PostFxEffect = 'bokeh' | 'bloom' | 'film' | 'prism' | 'curl' | 'flowmap' | 'afterimage' | 'custom';
+
+export type PostFxParams = Record<string, number | boolean>;
+
+export type PostFxEntry = {
+  effect: PostFxEffect;
+  /** Disabled entries keep their place in the stack but are left out of the chain. */
+  enabled: boolean;
+  /** Null for the linked entry; otherwise this duplicate's own settings. */
+  params: PostFxParams | null;
+};
+
+export type PostFxParamSpec =
+  | { key: string; label: string; min: number; max: number; step: number }
+  | { key: string; label: string; toggle: true };
+
+export const POST_FX_EFFECTS: Record<PostFxEffect, { label: string; params: PostFxParamSpec[] }> = {
+  bokeh: {
+    label: 'Bokeh',
+    params: [
+      { key: 'bokehFocus', label: 'Focus', min: 0, max: 200, step: 0.1 },
+      { key: 'bokehAperture', label: 'Aperture', min: 0, max: 0.01, step: 0.00001 },
+      { key: 'bokehMaxblur', label: 'Max blur', min: 0, max: 0.1, step: 0.0005 },
+    ],
+  },
+  bloom: {
+    label: 'Bloom',
+    params: [
+      { key: 'bloomStrength', label: 'Strength', min: 0, max: 2, step: 0.01 },
+      { key: 'bloomRadius', label: 'Radius', min: 0, max: 1, step: 0.01 },
+      { key: 'bloomThreshold', label: 'Threshold', min: 0, max: 1, step: 0.01 },
+    ],
+  },
+  film: {
+    label: 'Film',
+    params: [
+      { key: 'filmIntensity', label: 'Intensity', min: 0, max: 1, step: 0.01 },
+      { key: 'filmGrayscale', label: 'Grayscale', toggle: true },
+    ],
+  },
+  prism: {
+    label: 'Prism warp',
+    params: [
+      { key: 'prismStrength', label: 'Strength', min: 0, max: 2, step: 0.01 },
+      { key: 'prismWarp', label: 'Warp', min: 0, max: 0.12, step: 0.001 },
+      { key: 'prismChromaticAberration', label: 'Chroma', min: 0, max: 0.02, step: 0.0005 },
+      { key: 'prismGrain', label: 'Grain', min: 0, max: 0.5, step: 0.01 },
+      { key: 'prismVignette', label: 'Vignette', min: 0, max: 1, step: 0.01 },
+      { key: 'prismScanlines', label: 'Scanlines', min: 0, max: 1, step: 0.01 },
+      { key: 'prismSpeed', label: 'Speed', min: 0, max: 5, step: 0.01 },
+    ],
+  },
+  curl: {
+    label: 'Curl noise',
+    params: [
+      { key: 'curlStrength', label: 'Strength', min: 0, max: 2, step: 0.01 },
+      { key: 'curlScale', label: 'Curl scale', min: 0.1, max: 10, step: 0.01 },
+      { key: 'curlTimeRate', label: 'Time rate', min: 0, max: 2.5, step: 0.01 },
+    ],
+  },
+  flowmap: {
+    label: 'Flowmap advection',
+    params: [
+      { key: 'flowmapStrength', label: 'Strength', min: 0, max: 2, step: 0.01 },
+      { key: 'flowmapViscosity', label: 'Viscosity', min: 0, max: 1, step: 0.01 },
+    ],
+  },
+  afterimage: {
+    label: 'Afterimage',
+    params: [{ key: 'afterimageDamp', label: 'Damp', min: 0, max: 1, step: 0.001 }],
+  },
+  // Its sliders come from the shader source, so copies would only repeat the same pass.
+  custom: { label: 'Custom shader', params: [] },
+};
+
+// The order the passes ran in before the stack existed, so older projects render unchanged; the
+// custom shader pass came later and goes last.
+const DEFAULT_ORDER: PostFxEffect[] = ['bokeh', 'bloom', 'film', 'prism', 'curl', 'flowmap', 'afterimage', 'custom'];
+
+export function defaultPostFxStack(): PostFxEntry[] {
+  return DEFAULT_ORDER.map((effect) => ({ effect, enabled: true, params: null }));
+}
+
+/** Copies the settings an effect reads from `source` (the render settings or another duplicate). */
+export function capturePostFxParams(effect: PostFxEffect, source: Record<string, unknown>): PostFxParams {
+  const params: PostFxParams = {};
+  for (const spec of POST_FX_EFFECTS[effect].params) {
+    const value = source[spec.key];
+    if ('toggle' in spec) params[spec.key] = value === true;
+    else if (typeof value === 'number' && Number.isFinite(value)) params[spec.key] = value;
+  }
+  return params;
+}
+
+/**
+ * Validates a saved stack. Unknown effects and duplicate linked entries are dropped, copies of
+ * effects without settings (which the panel cannot make) are read as linked entries, and effects
+ * without a linked entry get one at the end, so every panel setting still has a pass to drive.
+ */
+export function normalizePostFxStack(value: unknown): PostFxEntry[] | null {
+  if (!Array.isArray(value)) return null;
+  const stack: PostFxEntry[] = [];
+  const linked = new Set<PostFxEffect>();
+  for (const raw of value) {
+    if (typeof raw !== 'object' || raw === null) continue;
+    const entry = raw as Partial<Record<keyof PostFxEntry, unknown>>;
+    const effect = entry.effect as PostFxEffect;
+    if (!DEFAULT_ORDER.includes(effect)) continue;
+    const enabled = entry.enabled !== false;
+    // Only effects with settings of their own can be duplicated; a copy of any other is its linked entry.
+    const copyable = POST_FX_EFFECTS[effect].params.length > 0;
+    if (copyable && typeof entry.params === 'object' && entry.params !== null) {
+      stack.push({ effect, enabled, params: capturePostFxParams(effect, entry.params as Record<string, unknown>) });
+    } else if (!linked.has(effect)) {
+      linked.add(effect);
+      stack.push({ effect, enabled, params: null });
+    }
+  }
+  for (const effect of DEFAULT_ORDER) {
+    if (!linked.has(effect)) stack.push({ effect, enabled: true, params: null });
+  }
+  return stack;
+}
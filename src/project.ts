@@ -1,6 +1,12 @@
 import type { EnvelopeConfig, LfoConfig } from './modulation';
 import type { SimulationConfig } from './simulation';
 import type { MirrorReflectionMode } from './mirrors/types';
+import type { PostFxEntry } from './postFxStack';
+import type { PipeProfile } from './pipeProfiles';
+import type { ProjectColorLut } from './colorLut';
+import type { CaptureQuality } from './frameAccumulator';
+import type { OutputColorSpaceMode, ToneMappingMode } from './toneMapping';
+import type { VoxelMask, VoxelMaskMode } from './voxelMask';
 
 export const PROJECT_VERSION = 1 as const;
 
@@ -24,7 +30,33 @@ export type ProjectTimeline = {
 
 export type ProjectRenderSettings = {
   pathType: 'polyline' | 'catmullrom' | 'centripetal' | 'chordal';
+  /** Corner fittings. Optional for backwards compatibility with older projects. */
+  jointStyle?: 'none' | 'sphere' | 'elbow' | 'teapot';
+  /** Glow burst where a pipe turns. Optional for backwards compatibility with older projects. */
+  turnFlashEnabled?: boolean;
+  /** Fading afterimages of dying pipes. Optional for backwards compatibility with older projects. */
+  ghostEnabled?: boolean;
+  ghostStyle?: 'wireframe' | 'emissive';
+  ghostLifetime?: number;
+  ghostOpacity?: number;
+  ghostFadeColor?: string;
+  ghostDecay?: number;
   pipeRadius: number;
+  /** Cross-section and its twist. Optional for backwards compatibility with older projects. */
+  pipeProfile?: PipeProfile;
+  profileTwist?: number;
+  profileCustom?: string;
+  /** Radius animation along each pipe. Optional for backwards compatibility with older projects. */
+  radiusTaper?: number;
+  radiusTaperLength?: number;
+  radiusHead?: number;
+  radiusHeadLength?: number;
+  radiusPulse?: number;
+  radiusPulseWavelength?: number;
+  radiusPulseSpeed?: number;
+  radiusPulseSync?: boolean;
+  radiusPulseDivision?: number;
+  radiusSwell?: number;
   tubularSegments: number;
   radialSegments: number;
   colorShift: number;
@@ -63,6 +95,23 @@ export type ProjectRenderSettings = {
   filmGrayscale: boolean;
   fxaaEnabled: boolean;
   smaaEnabled: boolean;
+  /** Post-FX render order with duplicates and disabled entries. Optional for backwards compatibility with older projects. */
+  postFxStack?: PostFxEntry[];
+  /** User fragment shader pass. Optional for backwards compatibility with older projects. */
+  customShaderEnabled?: boolean;
+  customShaderSource?: string;
+  customShaderValues?: Record<string, number>;
+  /** LUT grading after tone mapping. Optional for backwards compatibility with older projects. */
+  lutEnabled?: boolean;
+  lutIntensity?: number;
+  lutCrossfade?: number;
+  /** Tone mapping, exposure and auto exposure. Optional for backwards compatibility with older projects. */
+  toneMapping?: ToneMappingMode;
+  toneMappingExposure?: number;
+  outputColorSpace?: OutputColorSpaceMode;
+  autoExposureEnabled?: boolean;
+  autoExposureKey?: number;
+  autoExposureSpeed?: number;
   prismEnabled: boolean;
   prismStrength: number;
   prismWarp: number;
@@ -167,12 +216,42 @@ export type ProjectRailSettings = {
   rollStrength: number;
 };
 
+export type ProjectVoxelMask = {
+  mask: VoxelMask;
+  mode: VoxelMaskMode;
+  display: 'hidden' | 'solid' | 'wireframe';
+};
+
+export type ProjectResetSettings = {
+  strategy: 'pause' | 'instant' | 'retract' | 'dissolve' | 'flash';
+  trigger: 'stall' | 'fill' | 'timer';
+  fillThreshold: number;
+  interval: number;
+  duration: number;
+};
+
 export type ProjectSettings = {
   /**
    * Which simulation/scene is active. Optional for backwards compatibility with older projects.
    */
   simulationId?: 'tubes' | 'teapot' | 'juliabulb';
+  /**
+   * Seed for every random stream that affects rendered frames (pipe growth, spawns, colors,
+   * camera phases, noise LFOs). Optional for backwards compatibility with older projects.
+   */
+  seed?: number;
   simConfig: SimulationConfig;
+  /**
+   * Voxel obstacle/containment mask, embedded so the project stays self-contained. Optional for
+   * backwards compatibility with older projects.
+   */
+  voxelMask?: ProjectVoxelMask | null;
+  /** Grading LUTs, embedded so backend renders match. Optional for backwards compatibility with older projects. */
+  colorLuts?: { a: ProjectColorLut | null; b: ProjectColorLut | null };
+  /** Sub-frame motion blur and supersampling for video renders. Optional for backwards compatibility with older projects. */
+  captureQuality?: CaptureQuality;
+  /** How and when a full grid is cleared. Optional for backwards compatibility with older projects. */
+  reset?: ProjectResetSettings;
   renderSettings: ProjectRenderSettings;
   roomPadding: number;
   mirror: ProjectMirrorSettings;
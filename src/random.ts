@@ -0,0 +1,66 @@
+export type Rng = () => number;
+
+/**
+ * A mulberry32 stream that can be re-seeded in place, so consumers can hold on to the
+ * function reference while the owner rewinds it (e.g. on project load or render start).
+ */
+export type SeededRng = Rng & {
+  reseed: (seed: number) => void;
+  getState: () => number;
+  setState: (state: number) => void;
+};
+
+export const MAX_SEED = 0xffffffff;
+
+export function isSeededRng(rng: Rng): rng is SeededRng {
+  const candidate = rng as Partial<SeededRng>;
+  return typeof candidate.getState === 'function' && typeof candidate.setState === 'function';
+}
+
+export function createSeededRng(seed: number): SeededRng {
+  let a = normalizeSeed(seed);
+  const next = () => {
+    a |= 0;
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return Object.assign(next, {
+    reseed: (nextSeed: number) => {
+      a = normalizeSeed(nextSeed);
+    },
+    getState: () => a >>> 0,
+    setState: (state: number) => {
+      a = state >>> 0;
+    },
+  });
+}
+
+/**
+ * Derives an independent sub-seed for a named stream, so adding draws to one consumer
+ * (camera, simulation, modulation…) does not shift the sequence seen by the others.
+ */
+export function deriveSeed(seed: number, channel: string): number {
+  return (hashStringToSeed(channel) ^ normalizeSeed(seed)) >>> 0;
+}
+
+export function hashStringToSeed(text: string): number {
+  // FNV-1a 32-bit hash
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+export function normalizeSeed(value: unknown): number {
+  const n = Math.floor(Number(value));
+  if (!Number.isFinite(n)) return 0;
+  return (n % (MAX_SEED + 1)) >>> 0;
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED) >>> 0;
+}
@@ -0,0 +1,85 @@
+/**
+ * How a full grid is cleared. 'pause' is the original behaviour: the scene freezes once every pipe
+ * is stuck and waits for a manual reset.
+ */
+export type ResetStrategy = 'pause' | 'instant' | 'retract' | 'dissolve' | 'flash';
+
+export const RESET_STRATEGIES: Record<string, ResetStrategy> = {
+  'Pause when stuck': 'pause',
+  'Instant clear': 'instant',
+  'Staggered retract': 'retract',
+  'Dissolve fade': 'dissolve',
+  'Flash to white': 'flash',
+};
+
+export function normalizeResetStrategy(value: unknown): ResetStrategy | null {
+  return Object.values(RESET_STRATEGIES).includes(value as ResetStrategy) ? (value as ResetStrategy) : null;
+}
+
+/** What starts a reset. A stalled grid always resets, whichever extra trigger is chosen. */
+export type ResetTrigger = 'stall' | 'fill' | 'timer';
+
+export const RESET_TRIGGERS: Record<string, ResetTrigger> = {
+  'When stuck': 'stall',
+  'Fill ratio': 'fill',
+  Timer: 'timer',
+};
+
+export function normalizeResetTrigger(value: unknown): ResetTrigger | null {
+  return value === 'stall' || value === 'fill' || value === 'timer' ? value : null;
+}
+
+export type ResetSettings = {
+  strategy: ResetStrategy;
+  trigger: ResetTrigger;
+  /** Share of the usable grid (0..1) that triggers a reset in 'fill' mode. */
+  fillThreshold: number;
+  /** Seconds of growth between resets in 'timer' mode. */
+  interval: number;
+  /** Length of the retract, dissolve or flash transition in seconds. */
+  duration: number;
+};
+
+export const DEFAULT_RESET_SETTINGS: ResetSettings = {
+  strategy: 'pause',
+  trigger: 'stall',
+  fillThreshold: 0.45,
+  interval: 60,
+  duration: 2,
+};
+
+export function shouldTriggerReset(
+  settings: ResetSettings,
+  run: { allStuck: boolean; fillRatio: number; time: number }
+): boolean {
+  if (settings.strategy === 'pause') return false;
+  if (run.allStuck) return true;
+  if (settings.trigger === 'fill') return run.fillRatio >= settings.fillThreshold;
+  if (settings.trigger === 'timer') return run.time >= Math.max(1, settings.interval);
+  return false;
+}
+
+/**
+ * A dissolve or flash in progress. Progress is measured in seconds of simulation growth, so
+ * transitions pause with the scene and replay identically in locked preview and renders.
+ */
+export type ResetTransition = {
+  strategy: 'dissolve' | 'flash';
+  elapsed: number;
+  cleared: boolean;
+};
+
+/** Fraction of the transition at which the grid is actually cleared. */
+export function resetClearPoint(strategy: ResetTransition['strategy']): number {
+  // The flash hides the swap at its peak; the dissolve clears once the pipes are fully gone.
+  return strategy === 'flash' ? 0.5 : 1;
+}
+
+/** Pipe opacity (1 = untouched) and white overlay amount for a transition at `progress` (0..1). */
+export function resetTransitionLevels(transition: ResetTransition | null, progress: number): { fade: number; flash: number } {
+  if (!transition) return { fade: 1, flash: 0 };
+  const t = Math.min(1, Math.max(0, progress));
+  if (transition.strategy === 'dissolve') return { fade: 1 - t * t * (3 - 2 * t), flash: 0 };
+  const peak = 1 - Math.abs(t * 2 - 1);
+  return { fade: 1, flash: peak * peak * (3 - 2 * peak) };
+}
@@ -0,0 +1,30 @@
+import { Color } from 'three';
+
+export const FlashWipeShader = {
+  name: 'FlashWipeShader',
+  uniforms: {
+    tDiffuse: { value: null },
+    amount: { value: 0.0 },
+    color: { value: new Color(1, 1, 1) },
+  },
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform float amount;
+    uniform vec3 color;
+
+    varying vec2 vUv;
+
+    void main() {
+      vec4 base = texture2D(tDiffuse, vUv);
+      gl_FragColor = vec4(mix(base.rgb, color, clamp(amount, 0.0, 1.0)), base.a);
+    }
+  `,
+};
@@ -0,0 +1,55 @@
+import { Vector3 } from 'three';
+
+export const LutGradeShader = {
+  name: 'LutGradeShader',
+  uniforms: {
+    tDiffuse: { value: null },
+    lutA: { value: null },
+    lutB: { value: null },
+    lutSizeA: { value: 2.0 },
+    lutSizeB: { value: 2.0 },
+    domainMinA: { value: new Vector3(0, 0, 0) },
+    domainMaxA: { value: new Vector3(1, 1, 1) },
+    domainMinB: { value: new Vector3(0, 0, 0) },
+    domainMaxB: { value: new Vector3(1, 1, 1) },
+    crossfade: { value: 0.0 },
+    intensity: { value: 1.0 },
+  },
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform sampler3D lutA;
+    uniform sampler3D lutB;
+    uniform float lutSizeA;
+    uniform float lutSizeB;
+    uniform vec3 domainMinA;
+    uniform vec3 domainMaxA;
+    uniform vec3 domainMinB;
+    uniform vec3 domainMaxB;
+    uniform float crossfade;
+    uniform float intensity;
+
+    varying vec2 vUv;
+
+    // Maps the input domain onto texel centers, so the edge entries are hit exactly.
+    vec3 lutCoord(vec3 color, float size, vec3 domainMin, vec3 domainMax) {
+      vec3 t = clamp((color - domainMin) / max(domainMax - domainMin, vec3(1e-6)), 0.0, 1.0);
+      return (0.5 + t * (size - 1.0)) / size;
+    }
+
+    void main() {
+      vec4 base = texture2D(tDiffuse, vUv);
+      vec3 gradedA = texture(lutA, lutCoord(base.rgb, lutSizeA, domainMinA, domainMaxA)).rgb;
+      vec3 gradedB = texture(lutB, lutCoord(base.rgb, lutSizeB, domainMinB, domainMaxB)).rgb;
+      vec3 graded = mix(gradedA, gradedB, clamp(crossfade, 0.0, 1.0));
+      gl_FragColor = vec4(mix(base.rgb, graded, clamp(intensity, 0.0, 1.0)), base.a);
+    }
+  `,
+};
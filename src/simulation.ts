@@ -1,3 +1,11 @@
+import { isSeededRng, type Rng } from './random';
+import { rasterizeVoxelMask, type VoxelMask, type VoxelMaskMode } from './voxelMask';
+import { MAX_INTERVAL_SCALE, MIN_INTERVAL_SCALE, copySpecies, type PipeSpecies } from './pipeSpecies';
+import { beatGridAt, beatTickSeconds, onBeatGrid, type BeatGrid, type BeatSyncSettings } from './beatSync';
+import { symmetryTransforms, type CellTransform, type SymmetryMode } from './symmetry';
+import { DEFAULT_STEERING_PARAMS, sampleSteeringField, type SteeringFieldId, type SteeringParams } from './steeringFields';
+import { DEFAULT_GROWTH_PARAMS, getGrowthPolicy, type GrowthPolicyId, type GrowthPolicyParams } from './growthPolicies';
+
 export type Vec3 = { x: number; y: number; z: number };
 
 export type PipeState = 'growing' | 'dying' | 'stuck';
@@ -13,31 +21,65 @@ const DIRECTIONS: readonly Vec3[] = [
 
 const add = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
 
+// Chance that a fork also sprouts the opposite branch, turning the T-junction into a cross.
+const BRANCH_CROSS_CHANCE = 0.3;
+// Children keep the parent's hue, nudged by up to half this amount either way.
+const BRANCH_HUE_SPREAD = 0.08;
+
 class OccupancyGrid {
   private occupied: Uint8Array;
   private occupiedCount = 0;
-  readonly size: number;
-  private readonly size2: number;
+  private blockedCount = 0;
+  readonly dims: Vec3;
+  readonly wrap: boolean;
+  private readonly sliceSize: number;
 
-  constructor(size: number) {
-    this.size = size;
-    this.size2 = size * size;
-    this.occupied = new Uint8Array(size * size * size);
+  constructor(dims: Vec3, wrap = false) {
+    this.dims = { ...dims };
+    this.wrap = wrap;
+    this.sliceSize = dims.x * dims.y;
+    this.occupied = new Uint8Array(dims.x * dims.y * dims.z);
   }
 
+  /**
+   * On a toroidal grid every coordinate is inside: one step past a face lands on the opposite face,
+   * so callers may probe `head + dir` without wrapping it first. Cells stored on pipes are always
+   * the wrapped form (see `wrapCell`).
+   */
   isInside(cell: Vec3): boolean {
+    if (this.wrap) return true;
     return (
       cell.x >= 0 &&
       cell.y >= 0 &&
       cell.z >= 0 &&
-      cell.x < this.size &&
-      cell.y < this.size &&
-      cell.z < this.size
+      cell.x < this.dims.x &&
+      cell.y < this.dims.y &&
+      cell.z < this.dims.z
     );
   }
 
   private index(cell: Vec3): number {
-    return cell.x + cell.y * this.size + cell.z * this.size2;
+    if (this.wrap) {
+      return wrapAxis(cell.x, this.dims.x) + wrapAxis(cell.y, this.dims.y) * this.dims.x + wrapAxis(cell.z, this.dims.z) * this.sliceSize;
+    }
+    return cell.x + cell.y * this.dims.x + cell.z * this.sliceSize;
+  }
+
+  /** The in-range coordinates of a cell; only toroidal grids change anything. */
+  wrapCell(cell: Vec3): Vec3 {
+    if (!this.wrap) return cell;
+    return { x: wrapAxis(cell.x, this.dims.x), y: wrapAxis(cell.y, this.dims.y), z: wrapAxis(cell.z, this.dims.z) };
+  }
+
+  /** The offset from one cell to another, taking the short way across the wrap seams. */
+  delta(from: Vec3, to: Vec3): Vec3 {
+    const d = { x: to.x - from.x, y: to.y - from.y, z: to.z - from.z };
+    if (this.wrap) {
+      d.x = nearestImage(d.x, this.dims.x);
+      d.y = nearestImage(d.y, this.dims.y);
+      d.z = nearestImage(d.z, this.dims.z);
+    }
+    return d;
   }
 
   isFree(cell: Vec3): boolean {
@@ -59,25 +101,114 @@ class OccupancyGrid {
     this.occupiedCount--;
   }
 
-  randomFreeCell(rng: () => number): Vec3 | undefined {
+  /** True when every cell is inside, free and distinct from the others. */
+  canReserve(cells: Vec3[]): boolean {
+    for (let i = 0; i < cells.length; i++) {
+      if (!this.isFree(cells[i])) return false;
+      for (let j = 0; j < i; j++) {
+        if (this.index(cells[i]) === this.index(cells[j])) return false;
+      }
+    }
+    return true;
+  }
+
+  /** Occupies all of `cells` or, when any of them is taken, none. */
+  reserve(cells: Vec3[]): boolean {
+    if (!this.canReserve(cells)) return false;
+    for (const cell of cells) this.occupy(cell);
+    return true;
+  }
+
+  /** Permanently occupies every cell whose flag (same order as `index`) matches `blockedValue`. */
+  block(flags: Uint8Array, blockedValue: 0 | 1): void {
+    for (let idx = 0; idx < this.occupied.length; idx++) {
+      if ((flags[idx] ? 1 : 0) !== blockedValue || this.occupied[idx] !== 0) continue;
+      this.occupied[idx] = 1;
+      this.occupiedCount++;
+      this.blockedCount++;
+    }
+  }
+
+  /**
+   * Permanently occupies every free cell that touches neither the grid boundary nor a cell that is
+   * already blocked, leaving only surfaces for pipes to crawl over. Call it before any pipe grows.
+   * Wrap-around does not remove the walls as surfaces: pipes crawl up to a face and continue on the
+   * opposite one.
+   */
+  blockAwayFromSurfaces(): void {
+    const { x: nx, y: ny, z: nz } = this.dims;
+    const interior: number[] = [];
+    for (let z = 0; z < nz; z++) {
+      for (let y = 0; y < ny; y++) {
+        for (let x = 0; x < nx; x++) {
+          if (x === 0 || y === 0 || z === 0 || x === nx - 1 || y === ny - 1 || z === nz - 1) continue;
+          const idx = x + y * nx + z * this.sliceSize;
+          if (this.occupied[idx] !== 0) continue;
+          const touchesBlocked =
+            this.occupied[idx - 1] !== 0 ||
+            this.occupied[idx + 1] !== 0 ||
+            this.occupied[idx - nx] !== 0 ||
+            this.occupied[idx + nx] !== 0 ||
+            this.occupied[idx - this.sliceSize] !== 0 ||
+            this.occupied[idx + this.sliceSize] !== 0;
+          if (!touchesBlocked) interior.push(idx);
+        }
+      }
+    }
+    for (const idx of interior) {
+      this.occupied[idx] = 1;
+      this.occupiedCount++;
+      this.blockedCount++;
+    }
+  }
+
+  /** Share of the cells pipes can use (blocked cells excluded) that are currently occupied. */
+  fillRatio(): number {
+    const usable = this.occupied.length - this.blockedCount;
+    return usable > 0 ? (this.occupiedCount - this.blockedCount) / usable : 1;
+  }
+
+  /** Occupancy packed one bit per cell (x-fastest, same order as `index`). */
+  toBits(): Uint8Array {
+    const bits = new Uint8Array(Math.ceil(this.occupied.length / 8));
+    for (let idx = 0; idx < this.occupied.length; idx++) {
+      if (this.occupied[idx] !== 0) bits[idx >> 3] |= 1 << (idx & 7);
+    }
+    return bits;
+  }
+
+  loadBits(bits: Uint8Array): void {
+    this.occupiedCount = 0;
+    for (let idx = 0; idx < this.occupied.length; idx++) {
+      const v = (bits[idx >> 3] >> (idx & 7)) & 1;
+      this.occupied[idx] = v;
+      this.occupiedCount += v;
+    }
+  }
+
+  randomFreeCell(rng: Rng): Vec3 | undefined {
     const total = this.occupied.length;
     if (this.occupiedCount >= total) return undefined;
 
     // A few random probes; fall back to a linear search to guarantee a result.
     for (let i = 0; i < 32; i++) {
-      const x = Math.floor(rng() * this.size);
-      const y = Math.floor(rng() * this.size);
-      const z = Math.floor(rng() * this.size);
-      const idx = x + y * this.size + z * this.size2;
+      const x = Math.floor(rng() * this.dims.x);
+      const y = Math.floor(rng() * this.dims.y);
+      const z = Math.floor(rng() * this.dims.z);
+      const idx = x + y * this.dims.x + z * this.sliceSize;
       if (this.occupied[idx] === 0) return { x, y, z };
     }
 
-    for (let idx = 0; idx < total; idx++) {
+    // Start the scan somewhere random so sparse grids (e.g. a small containment mask) don't keep
+    // spawning in the same corner.
+    const start = Math.floor(rng() * total);
+    for (let n = 0; n < total; n++) {
+      const idx = (start + n) % total;
       if (this.occupied[idx] !== 0) continue;
-      const z = Math.floor(idx / this.size2);
-      const rem = idx - z * this.size2;
-      const y = Math.floor(rem / this.size);
-      const x = rem - y * this.size;
+      const z = Math.floor(idx / this.sliceSize);
+      const rem = idx - z * this.sliceSize;
+      const y = Math.floor(rem / this.dims.x);
+      const x = rem - y * this.dims.x;
       return { x, y, z };
     }
     return undefined;
@@ -86,30 +217,191 @@ class OccupancyGrid {
 
 export interface SimulationConfig {
   gridSize: number;
+  // Optional per-axis cell counts for non-cubic rooms; a missing axis falls back to gridSize.
+  gridSizeX?: number;
+  gridSizeY?: number;
+  gridSizeZ?: number;
   maxPipeLength: number; // 0 means infinite
   targetPipeCount: number;
   growthInterval: number; // seconds between logical growth ticks
   turnProbability: number; // 0..1 chance to turn instead of going straight when possible
   disableTailShrink: boolean;
+  growthPolicy?: GrowthPolicyId; // defaults to the random walk
+  growthParams?: GrowthPolicyParams;
+  branchProbability?: number; // 0..1 chance per growth tick that a growing pipe forks a child
+  maxBranchDepth?: number; // how many generations of branches a root pipe may grow
+  species?: PipeSpecies[]; // weighted pipe kinds; empty or missing means every pipe uses the values above
+  steeringField?: SteeringFieldId; // defaults to 'none'
+  steeringParams?: SteeringParams;
+  symmetry?: SymmetryMode; // mirrored/rotated sibling pipes per spawn; defaults to 'none'
+  surfaceCrawl?: boolean; // only cells touching the room boundary or a voxel-mask obstacle are usable
+  wrap?: boolean; // toroidal grid: pipes leaving through one face re-enter through the opposite one
+  beatSync?: BeatSyncSettings; // when enabled, growth ticks follow the BPM grid instead of growthInterval
 }
 
+export function resolveGridDims(config: Pick<SimulationConfig, 'gridSize' | 'gridSizeX' | 'gridSizeY' | 'gridSizeZ'>): Vec3 {
+  const axis = (v: number | undefined) => Math.max(1, Math.floor(v ?? config.gridSize));
+  return { x: axis(config.gridSizeX), y: axis(config.gridSizeY), z: axis(config.gridSizeZ) };
+}
+
+/**
+ * Compact, self-contained copy of a simulation at one instant. Cells are packed as
+ * `[x0, y0, z0, x1, y1, z1, …]` and the occupancy grid as one bit per cell, so periodic
+ * checkpoints stay small enough to keep many of them in memory.
+ */
+export type SimulationSnapshot = {
+  config: SimulationConfig;
+  accumulator: number;
+  elapsed: number;
+  beatTime: number;
+  nextId: number;
+  nextBirthIndex: number;
+  /** State of the injected RNG, or null when it is not a seeded stream. */
+  rngState: number | null;
+  occupancy: Uint8Array;
+  pipes: PipeSnapshot[];
+  wipe: SimulationWipe | null;
+};
+
+/**
+ * A full-grid retract in progress (see `beginWipe`): pipes start dying one after another in birth
+ * order, `stagger` seconds apart, and pull back `cellsPerStep` cells per growth tick.
+ */
+export type SimulationWipe = {
+  start: number;
+  stagger: number;
+  order: number[];
+  cellsPerStep: number;
+};
+
+export type PipeSnapshot = {
+  id: number;
+  state: PipeState;
+  cells: Int16Array;
+  prevHead: Vec3;
+  lastDir: Vec3 | null;
+  headLerp: number;
+  straightRun: number;
+  version: number;
+  colorSeed: number;
+  birthIndex: number;
+  parentId: number | null;
+  forkCell: Vec3 | null;
+  depth: number;
+  species: number;
+  growthCredit: number;
+  symmetryLeader: number | null;
+  symmetryIndex: number;
+};
+
+/** Membership in a symmetry group: the leading pipe's id and which of the group's transforms applies. */
+export type PipeSymmetry = {
+  leader: number;
+  index: number;
+};
+
+export type PipeBranch = {
+  parentId: number;
+  /** Parent cell the branch grew out of; the junction fitting sits here. Null once detached. */
+  forkCell: Vec3 | null;
+  depth: number;
+};
+
+/**
+ * Something that happened to a pipe during `update`. `time` is simulation time in seconds of the
+ * growth tick that caused it, so consumers can place events precisely even when one frame runs
+ * several ticks.
+ */
+export type DyingReason = 'blocked' | 'cap' | 'parent' | 'wipe';
+
+export type SimulationEvent =
+  | { type: 'spawn'; pipeId: number; cell: Vec3; time: number; parentId: number | null }
+  | { type: 'turn'; pipeId: number; cell: Vec3; time: number; from: Vec3; to: Vec3 }
+  | { type: 'straight'; pipeId: number; cell: Vec3; time: number; runLength: number }
+  | { type: 'collision'; pipeId: number; cell: Vec3; time: number }
+  | { type: 'stuck'; pipeId: number; cell: Vec3; time: number }
+  | { type: 'dying'; pipeId: number; cell: Vec3; time: number; reason: DyingReason }
+  | { type: 'removed'; pipeId: number; cell: Vec3; time: number }
+  | { type: 'reset'; time: number };
+
+export type SimulationEventType = SimulationEvent['type'];
+
+// Events pile up until drained; past this many the oldest are dropped so an idle consumer can't leak memory.
+const MAX_PENDING_EVENTS = 4096;
+
+/**
+ * What one `update` changed, packed into typed arrays so a worker can transfer it without copying.
+ * Only pipes whose `version` moved are included; `order` lists every live pipe so removals and
+ * ordering come across too. Scalars carry the rest of the state, so the receiving copy can take
+ * over stepping locally at any time.
+ */
+export type SimulationStepDiff = {
+  elapsed: number;
+  accumulator: number;
+  beatTime: number;
+  nextId: number;
+  nextBirthIndex: number;
+  rngState: number | null;
+  wipe: SimulationWipe | null;
+  allStuck: boolean;
+  order: Int32Array;
+  /** Head interpolation of every pipe in `order`; it advances each update without a version bump. */
+  headLerp: Float64Array;
+  /** `PIPE_DIFF_STRIDE` ints per changed pipe; see `encodePipeHeader`. */
+  header: Int32Array;
+  /** colorSeed and growthCredit per changed pipe. */
+  floats: Float64Array;
+  cells: Int16Array;
+  events: SimulationEvent[];
+};
+
+const PIPE_DIFF_STRIDE = 22;
+const SYMMETRIC_SPAWN_ATTEMPTS = 16;
+const PIPE_STATES: readonly PipeState[] = ['growing', 'dying', 'stuck'];
+
 export class Pipe {
   state: PipeState = 'growing';
   readonly cells: Vec3[];
   prevHead: Vec3;
   lastDir?: Vec3;
   headLerp = 1; // 0..1 progress from prevHead -> head for rendering
+  straightRun = 0; // consecutive growth steps without a turn
   version = 0;
   readonly id: number;
   readonly colorSeed: number;
   readonly birthIndex: number;
+  readonly parentId: number | null;
+  /** Junction cell on the parent while the branch is still connected to it, otherwise null. */
+  forkCell: Vec3 | null;
+  readonly depth: number;
+  /** Index into `SimulationConfig.species`; branches share their root's species. */
+  readonly species: number;
+  /** Growth ticks owed to this pipe; species faster or slower than the base interval bank them here. */
+  growthCredit = 0;
+  /** Id of the pipe this one mirrors, or null for pipes that grow on their own (including group leaders). */
+  readonly symmetryLeader: number | null;
+  readonly symmetryIndex: number;
 
-  constructor(id: number, start: Vec3, colorSeed: number, birthIndex: number) {
+  constructor(
+    id: number,
+    start: Vec3,
+    colorSeed: number,
+    birthIndex: number,
+    branch?: PipeBranch,
+    species = 0,
+    symmetry?: PipeSymmetry
+  ) {
     this.id = id;
     this.cells = [start];
     this.prevHead = { ...start };
     this.colorSeed = colorSeed;
     this.birthIndex = birthIndex;
+    this.parentId = branch?.parentId ?? null;
+    this.forkCell = branch?.forkCell ? { ...branch.forkCell } : null;
+    this.depth = branch?.depth ?? 0;
+    this.species = species;
+    this.symmetryLeader = symmetry?.leader ?? null;
+    this.symmetryIndex = symmetry?.index ?? 0;
   }
 
   get head(): Vec3 {
@@ -119,95 +411,488 @@ export class Pipe {
 
 export class Simulation {
   private grid: OccupancyGrid;
-  private rng: () => number;
+  private rng: Rng;
   private accumulator = 0;
+  private elapsed = 0;
+  private eventTime = 0;
+  private beatTime = 0;
+  private beatPosition: BeatGrid | null = null;
+  private events: SimulationEvent[] = [];
+  private wipe: SimulationWipe | null = null;
+  private transformCache: { mode: SymmetryMode | undefined; dims: Vec3; transforms: CellTransform[] } | null = null;
+  private mask: { mask: VoxelMask; mode: VoxelMaskMode } | null = null;
+  private maskShapeCache: { dims: Vec3; shape: Uint8Array } | null = null;
   private nextId = 1;
   private nextBirthIndex = 1;
+  private revisionCounter = 0;
   config: SimulationConfig;
   pipes: Pipe[] = [];
 
-  constructor(config: SimulationConfig, rng: () => number = Math.random) {
-    this.config = { ...config };
-    this.grid = new OccupancyGrid(this.config.gridSize);
+  constructor(config: SimulationConfig, rng: Rng = Math.random) {
+    this.config = copyConfig(config);
+    this.grid = this.createGrid();
     this.rng = rng;
   }
 
+  get gridDims(): Vec3 {
+    return this.grid.dims;
+  }
+
+  /** The loaded voxel mask and how it is applied, if any. */
+  get voxelMask(): { mask: VoxelMask; mode: VoxelMaskMode } | null {
+    return this.mask;
+  }
+
+  /**
+   * Loads (or clears, with null) a voxel mask and restarts the run, since existing pipes may sit
+   * where the mask now blocks.
+   */
+  setVoxelMask(mask: VoxelMask | null, mode: VoxelMaskMode = 'obstacle'): void {
+    this.mask = mask ? { mask, mode } : null;
+    this.maskShapeCache = null;
+    this.reset();
+  }
+
+  /** One flag per grid cell marking the mask shape at the current grid size, or null without a mask. */
+  get maskShape(): Uint8Array | null {
+    return this.mask ? this.maskShapeFor(this.mask.mask, this.grid.dims) : null;
+  }
+
+  /**
+   * Bumped by every change to the run state (reset, load, step, applied diff), so a mirror can tell
+   * whether it is still in step with this copy.
+   */
+  get revision(): number {
+    return this.revisionCounter;
+  }
+
+  /**
+   * The offset between two cells of a pipe path. Usually just `to - from`; on a wrap-around grid a
+   * step through a face comes out as the single step it was, not a jump across the room.
+   */
+  cellDelta(from: Vec3, to: Vec3): Vec3 {
+    return this.grid.delta(from, to);
+  }
+
+  /** The species a pipe belongs to, or undefined when no species are configured. */
+  speciesOf(pipe: Pipe): PipeSpecies | undefined {
+    return this.config.species?.[pipe.species];
+  }
+
+  /** Share of the usable grid cells (voxel mask excluded) occupied by pipes. */
+  get fillRatio(): number {
+    return this.grid.fillRatio();
+  }
+
+  /** True while a `beginWipe` retract is running; the run resets itself once it finishes. */
+  get wiping(): boolean {
+    return this.wipe !== null;
+  }
+
+  /**
+   * Retracts every pipe and then resets, like the screensaver clearing the screen. Pipes start
+   * dying in birth order, spread over the first half of `duration` seconds, and retract fast
+   * enough that the longest one is gone within the other half. Nothing spawns meanwhile.
+   */
+  beginWipe(duration: number): void {
+    if (this.pipes.length === 0) {
+      this.reset();
+      return;
+    }
+    const half = Math.max(0, duration) / 2;
+    // Siblings start dying with their leader, so only pipes that grow on their own get a slot.
+    const order = this.pipes
+      .filter((pipe) => pipe.symmetryLeader === null)
+      .sort((a, b) => a.birthIndex - b.birthIndex)
+      .map((pipe) => pipe.id);
+    const longest = this.pipes.reduce((max, pipe) => Math.max(max, pipe.cells.length), 1);
+    const ticks = Math.max(1, Math.floor(half / Math.max(0.001, this.tickSeconds())));
+    this.wipe = {
+      start: this.elapsed,
+      stagger: order.length > 1 ? half / order.length : 0,
+      order,
+      cellsPerStep: Math.max(1, Math.ceil(longest / ticks)),
+    };
+    this.revisionCounter++;
+  }
+
+  /** Seconds of simulation time since the last reset; the clock used by event timestamps. */
+  get time(): number {
+    return this.elapsed;
+  }
+
+  /**
+   * Song position in seconds that beat-synced growth counts ticks from. Unlike `time` it keeps
+   * running across resets, so a run cleared mid-song picks the groove back up on the same grid.
+   */
+  get beatClock(): number {
+    return this.beatTime;
+  }
+
+  /** Moves the beat clock to a song position, e.g. 0 when the scene restarts or the audio playhead. */
+  alignBeatClock(seconds: number): void {
+    this.beatTime = Math.max(0, seconds);
+    this.revisionCounter++;
+  }
+
   reset(config?: Partial<SimulationConfig>): void {
-    this.config = { ...this.config, ...config };
-    this.grid = new OccupancyGrid(this.config.gridSize);
+    this.config = copyConfig({ ...this.config, ...config });
+    this.grid = this.createGrid();
+    this.revisionCounter++;
     this.pipes = [];
     this.accumulator = 0;
+    this.elapsed = 0;
+    this.eventTime = 0;
     this.nextId = 1;
     this.nextBirthIndex = 1;
+    this.wipe = null;
+    this.events = [];
+    this.emit({ type: 'reset', time: 0 });
+  }
+
+  /**
+   * Returns the events recorded since the previous call and clears the buffer. Call it once after
+   * each `update` to see what that update did.
+   */
+  drainEvents(): SimulationEvent[] {
+    const drained = this.events;
+    this.events = [];
+    return drained;
+  }
+
+  serialize(): SimulationSnapshot {
+    return {
+      config: copyConfig(this.config),
+      accumulator: this.accumulator,
+      elapsed: this.elapsed,
+      beatTime: this.beatTime,
+      nextId: this.nextId,
+      nextBirthIndex: this.nextBirthIndex,
+      rngState: isSeededRng(this.rng) ? this.rng.getState() : null,
+      occupancy: this.grid.toBits(),
+      pipes: this.pipes.map((pipe) => {
+        const cells = new Int16Array(pipe.cells.length * 3);
+        for (let i = 0; i < pipe.cells.length; i++) {
+          const cell = pipe.cells[i];
+          cells[i * 3] = cell.x;
+          cells[i * 3 + 1] = cell.y;
+          cells[i * 3 + 2] = cell.z;
+        }
+        return {
+          id: pipe.id,
+          state: pipe.state,
+          cells,
+          prevHead: { ...pipe.prevHead },
+          lastDir: pipe.lastDir ? { ...pipe.lastDir } : null,
+          headLerp: pipe.headLerp,
+          straightRun: pipe.straightRun,
+          version: pipe.version,
+          colorSeed: pipe.colorSeed,
+          birthIndex: pipe.birthIndex,
+          parentId: pipe.parentId,
+          forkCell: pipe.forkCell ? { ...pipe.forkCell } : null,
+          depth: pipe.depth,
+          species: pipe.species,
+          growthCredit: pipe.growthCredit,
+          symmetryLeader: pipe.symmetryLeader,
+          symmetryIndex: pipe.symmetryIndex,
+        };
+      }),
+      wipe: copyWipe(this.wipe),
+    };
+  }
+
+  /**
+   * Replaces the whole simulation state with a snapshot taken by `serialize`. Restored pipes are
+   * new objects, so renderers keyed on `pipe.version` should force a refresh afterwards.
+   */
+  deserialize(snapshot: SimulationSnapshot): void {
+    this.config = copyConfig(snapshot.config);
+    this.grid = this.createGrid();
+    this.grid.loadBits(snapshot.occupancy);
+    this.revisionCounter++;
+    this.accumulator = snapshot.accumulator;
+    this.elapsed = snapshot.elapsed;
+    this.eventTime = snapshot.elapsed;
+    this.beatTime = snapshot.beatTime;
+    this.events = [];
+    this.nextId = snapshot.nextId;
+    this.nextBirthIndex = snapshot.nextBirthIndex;
+    this.wipe = copyWipe(snapshot.wipe);
+    if (snapshot.rngState !== null && isSeededRng(this.rng)) {
+      this.rng.setState(snapshot.rngState);
+    }
+    this.pipes = snapshot.pipes.map((saved) => {
+      const cellCount = Math.floor(saved.cells.length / 3);
+      const cellAt = (i: number): Vec3 => ({ x: saved.cells[i * 3], y: saved.cells[i * 3 + 1], z: saved.cells[i * 3 + 2] });
+      const branch =
+        saved.parentId !== null ? { parentId: saved.parentId, forkCell: saved.forkCell, depth: saved.depth } : undefined;
+      const symmetry = saved.symmetryLeader !== null ? { leader: saved.symmetryLeader, index: saved.symmetryIndex } : undefined;
+      const pipe = new Pipe(saved.id, cellAt(0), saved.colorSeed, saved.birthIndex, branch, saved.species, symmetry);
+      for (let i = 1; i < cellCount; i++) {
+        pipe.cells.push(cellAt(i));
+      }
+      pipe.state = saved.state;
+      pipe.prevHead = { ...saved.prevHead };
+      pipe.lastDir = saved.lastDir ? { ...saved.lastDir } : undefined;
+      pipe.headLerp = saved.headLerp;
+      pipe.straightRun = saved.straightRun;
+      pipe.version = saved.version;
+      pipe.growthCredit = saved.growthCredit;
+      return pipe;
+    });
   }
 
   update(dt: number): boolean {
     const { growthInterval, targetPipeCount } = this.config;
-    this.accumulator += dt;
+    const beatSync = this.config.beatSync?.enabled ? this.config.beatSync : null;
+    // The beat clock decides tick times while synced; the free-running phase restarts afterwards.
+    this.accumulator = beatSync ? 0 : this.accumulator + dt;
+    this.elapsed += dt;
+    this.revisionCounter++;
 
     // advance head interpolation for smooth visible motion
-    const headEase = Math.max(0.001, growthInterval);
+    const tickSeconds = this.tickSeconds();
     for (const pipe of this.pipes) {
+      const headEase = Math.max(0.001, tickSeconds * this.intervalScaleOf(pipe));
       pipe.headLerp = Math.min(1, pipe.headLerp + dt / headEase);
     }
 
     let allStuck = false;
-    while (this.accumulator >= growthInterval) {
-      allStuck = this.step();
-      this.accumulator -= growthInterval;
+    if (beatSync) {
+      allStuck = this.stepOnBeats(beatSync, dt);
+    } else {
+      while (this.accumulator >= growthInterval) {
+        this.eventTime = this.elapsed - (this.accumulator - growthInterval);
+        allStuck = this.step();
+        this.accumulator -= growthInterval;
+      }
     }
+    this.beatTime += dt;
 
+    this.eventTime = this.elapsed;
+    if (this.wipe) {
+      if (this.pipes.length === 0) this.reset();
+      return false;
+    }
     this.capIfNeeded();
-    this.trySpawnUntil(targetPipeCount);
+    if (!beatSync) this.trySpawnUntil(targetPipeCount);
     return allStuck;
   }
 
+  /**
+   * Runs the growth ticks whose grid points fall within the next `dt` seconds of the beat clock.
+   * A tick on the start of the window counts and one on its end waits for the next update, so
+   * frame boundaries never drop or double a tick. Spawns happen on the tick itself, which is how
+   * new pipes land on downbeats.
+   */
+  private stepOnBeats(beatSync: BeatSyncSettings, dt: number): boolean {
+    const tick = beatTickSeconds(beatSync);
+    const first = Math.ceil(this.beatTime / tick - 1e-9);
+    const end = Math.ceil((this.beatTime + dt) / tick - 1e-9);
+    let allStuck = false;
+    for (let index = first; index < end; index++) {
+      this.eventTime = this.elapsed - (this.beatTime + dt - index * tick);
+      this.beatPosition = beatGridAt(beatSync, index);
+      allStuck = this.step();
+      if (!this.wipe && onBeatGrid(beatSync.spawnsOn, this.beatPosition)) {
+        this.capIfNeeded();
+        this.trySpawnUntil(this.config.targetPipeCount);
+      }
+    }
+    this.beatPosition = null;
+    return allStuck;
+  }
+
+  /** Seconds per growth tick: the beat division while beat sync is on, else `growthInterval`. */
+  private tickSeconds(): number {
+    const beatSync = this.config.beatSync;
+    return beatSync?.enabled ? beatTickSeconds(beatSync) : this.config.growthInterval;
+  }
+
+  /**
+   * Packs the pipes that changed since the versions recorded in `known` (which is updated in place)
+   * together with the pending events, which are drained.
+   */
+  createStepDiff(known: Map<number, number>, allStuck: boolean): SimulationStepDiff {
+    const changed = this.pipes.filter((pipe) => known.get(pipe.id) !== pipe.version);
+    const order = new Int32Array(this.pipes.length);
+    const headLerp = new Float64Array(this.pipes.length);
+    const live = new Set<number>();
+    this.pipes.forEach((pipe, i) => {
+      order[i] = pipe.id;
+      headLerp[i] = pipe.headLerp;
+      live.add(pipe.id);
+    });
+    for (const id of known.keys()) {
+      if (!live.has(id)) known.delete(id);
+    }
+
+    const header = new Int32Array(changed.length * PIPE_DIFF_STRIDE);
+    const floats = new Float64Array(changed.length * 2);
+    const cells = new Int16Array(changed.reduce((sum, pipe) => sum + pipe.cells.length * 3, 0));
+    let cellOffset = 0;
+    changed.forEach((pipe, k) => {
+      known.set(pipe.id, pipe.version);
+      encodePipeHeader(pipe, header, k * PIPE_DIFF_STRIDE);
+      floats[k * 2] = pipe.colorSeed;
+      floats[k * 2 + 1] = pipe.growthCredit;
+      for (const cell of pipe.cells) {
+        cells[cellOffset++] = cell.x;
+        cells[cellOffset++] = cell.y;
+        cells[cellOffset++] = cell.z;
+      }
+    });
+
+    return {
+      elapsed: this.elapsed,
+      accumulator: this.accumulator,
+      beatTime: this.beatTime,
+      nextId: this.nextId,
+      nextBirthIndex: this.nextBirthIndex,
+      rngState: isSeededRng(this.rng) ? this.rng.getState() : null,
+      wipe: copyWipe(this.wipe),
+      allStuck,
+      order,
+      headLerp,
+      header,
+      floats,
+      cells,
+      events: this.drainEvents(),
+    };
+  }
+
+  /**
+   * Mirrors a step computed elsewhere (see `createStepDiff`). Unchanged pipes keep their objects,
+   * so renderers keyed on `pipe.version` only rebuild what moved; the diff's events are queued for
+   * `drainEvents` as if this copy had produced them.
+   */
+  applyStepDiff(diff: SimulationStepDiff): void {
+    const byId = new Map<number, Pipe>();
+    for (const pipe of this.pipes) byId.set(pipe.id, pipe);
+    const live = new Set(diff.order);
+    const changedCount = diff.header.length / PIPE_DIFF_STRIDE;
+
+    // Release everything that moved before occupying anything, so cells handed from one pipe to
+    // another within the step are not freed after being claimed.
+    for (const pipe of this.pipes) {
+      if (!live.has(pipe.id)) pipe.cells.forEach((cell) => this.grid.release(cell));
+    }
+    for (let k = 0; k < changedCount; k++) {
+      byId.get(diff.header[k * PIPE_DIFF_STRIDE])?.cells.forEach((cell) => this.grid.release(cell));
+    }
+
+    let cellOffset = 0;
+    for (let k = 0; k < changedCount; k++) {
+      const base = k * PIPE_DIFF_STRIDE;
+      const h = diff.header;
+      const id = h[base];
+      const cellCount = h[base + 6];
+      const cells: Vec3[] = [];
+      for (let i = 0; i < cellCount; i++) {
+        cells.push({ x: diff.cells[cellOffset], y: diff.cells[cellOffset + 1], z: diff.cells[cellOffset + 2] });
+        cellOffset += 3;
+      }
+      let pipe = byId.get(id);
+      if (!pipe) {
+        const parentId = h[base + 3];
+        const forkCell = h[base + 7] ? { x: h[base + 8], y: h[base + 9], z: h[base + 10] } : null;
+        const branch = parentId >= 0 ? { parentId, forkCell, depth: h[base + 5] } : undefined;
+        const symmetry = h[base + 20] >= 0 ? { leader: h[base + 20], index: h[base + 21] } : undefined;
+        pipe = new Pipe(id, cells[0] ?? { x: 0, y: 0, z: 0 }, diff.floats[k * 2], h[base + 4], branch, h[base + 19], symmetry);
+        byId.set(id, pipe);
+      }
+      pipe.cells.length = 0;
+      pipe.cells.push(...cells);
+      pipe.version = h[base + 1];
+      pipe.state = PIPE_STATES[h[base + 2]] ?? 'growing';
+      pipe.forkCell = h[base + 7] ? { x: h[base + 8], y: h[base + 9], z: h[base + 10] } : null;
+      pipe.prevHead = { x: h[base + 11], y: h[base + 12], z: h[base + 13] };
+      pipe.lastDir = h[base + 14] ? { x: h[base + 15], y: h[base + 16], z: h[base + 17] } : undefined;
+      pipe.straightRun = h[base + 18];
+      pipe.growthCredit = diff.floats[k * 2 + 1];
+      for (const cell of cells) this.grid.occupy(cell);
+    }
+
+    this.pipes = [];
+    diff.order.forEach((id, i) => {
+      const pipe = byId.get(id);
+      if (!pipe) return;
+      pipe.headLerp = diff.headLerp[i];
+      this.pipes.push(pipe);
+    });
+    this.elapsed = diff.elapsed;
+    this.eventTime = diff.elapsed;
+    this.accumulator = diff.accumulator;
+    this.beatTime = diff.beatTime;
+    this.nextId = diff.nextId;
+    this.nextBirthIndex = diff.nextBirthIndex;
+    this.wipe = copyWipe(diff.wipe);
+    if (diff.rngState !== null && isSeededRng(this.rng)) {
+      this.rng.setState(diff.rngState);
+    }
+    for (const event of diff.events) this.emit(event);
+    this.revisionCounter++;
+  }
+
   private step(): boolean {
-    const { maxPipeLength, disableTailShrink } = this.config;
+    const { disableTailShrink } = this.config;
+    const branchProbability = clamp01(this.config.branchProbability ?? 0);
+    const maxBranchDepth = Math.max(0, Math.floor(this.config.maxBranchDepth ?? 0));
     let stuckCount = 0;
     let activeCount = 0;
+    if (this.wipe) this.advanceWipe(this.wipe);
+    const followers = this.followersByLeader();
 
     for (let i = this.pipes.length - 1; i >= 0; i--) {
       const pipe = this.pipes[i];
 
       if (pipe.state === 'growing') {
-        const nextCell = this.pickNextCell(pipe);
-        if (nextCell) {
-          pipe.prevHead = { ...pipe.head };
-          pipe.cells.push(nextCell);
-          pipe.lastDir = {
-            x: nextCell.x - pipe.prevHead.x,
-            y: nextCell.y - pipe.prevHead.y,
-            z: nextCell.z - pipe.prevHead.z,
-          };
-          pipe.headLerp = 0;
-          pipe.version++;
-          this.grid.occupy(nextCell);
-
-          if (!disableTailShrink && maxPipeLength > 0 && pipe.cells.length > maxPipeLength) {
-            const tail = pipe.cells.shift();
-            if (tail) {
-              this.grid.release(tail);
-              pipe.version++;
-            }
+        // Symmetry siblings only ever move together with their leader.
+        if (pipe.symmetryLeader !== null) continue;
+        const group = followers.get(pipe.id) ?? [];
+        // Species growth rates are credited per tick; the default rate of 1 grows exactly once.
+        pipe.growthCredit += 1 / this.intervalScaleOf(pipe);
+        let blocked = false;
+        while (pipe.growthCredit >= 1 && !blocked) {
+          pipe.growthCredit -= 1;
+          blocked = !this.growOnce(pipe, group, branchProbability, maxBranchDepth);
+        }
+        if (!blocked) continue;
+        this.emit({ type: 'collision', pipeId: pipe.id, cell: { ...pipe.head }, time: this.eventTime });
+        if (disableTailShrink) {
+          for (const member of [pipe, ...group]) {
+            member.state = 'stuck';
+            this.emit({ type: 'stuck', pipeId: member.id, cell: { ...member.head }, time: this.eventTime });
           }
+          stuckCount++;
+          activeCount++;
         } else {
-          if (disableTailShrink) {
-            pipe.state = 'stuck';
-            stuckCount++;
-            activeCount++;
-          } else {
-            pipe.state = 'dying';
-          }
+          this.startDying(pipe, 'blocked');
         }
       } else if (pipe.state === 'dying') {
-        const tail = pipe.cells.shift();
-        if (tail) {
-          this.grid.release(tail);
+        // Branches retract before the pipe they grew from, so dying runs from the leaves to the trunk.
+        const children = this.attachedChildren(pipe);
+        if (children.length > 0) {
+          for (const child of children) this.startDying(child, 'parent');
+          continue;
+        }
+        // Attached branches pull back into their junction; everything else shrinks from the tail.
+        const retract = this.wipe ? this.wipe.cellsPerStep : 1;
+        let cell: Vec3 | undefined;
+        for (let n = 0; n < retract && pipe.cells.length > 0; n++) {
+          cell = pipe.forkCell ? pipe.cells.pop() : pipe.cells.shift();
+          if (!cell) break;
+          this.releaseCell(pipe, cell);
           pipe.version++;
+          if (pipe.forkCell && pipe.cells.length > 0) {
+            pipe.prevHead = { ...pipe.head };
+            pipe.headLerp = 1;
+          }
         }
         if (pipe.cells.length === 0) {
           this.pipes.splice(i, 1);
+          this.emit({ type: 'removed', pipeId: pipe.id, cell: cell ? { ...cell } : { ...pipe.prevHead }, time: this.eventTime });
         }
       } else if (pipe.state === 'stuck') {
         stuckCount++;
@@ -222,13 +907,80 @@ export class Simulation {
     return disableTailShrink && activeCount > 0 && stuckCount === activeCount;
   }
 
+  /**
+   * Moves the pipe's head one cell, and its symmetry siblings to the matching cells; returns false
+   * when no neighbour is free for the whole group. The group's cells are reserved together, so one
+   * blocked sibling blocks them all and the pattern never breaks.
+   */
+  private growOnce(pipe: Pipe, group: Pipe[], branchProbability: number, maxBranchDepth: number): boolean {
+    const picked = this.pickNextCell(pipe);
+    if (!picked) return false;
+    const nextCell = this.grid.wrapCell(picked);
+    const transforms = this.groupTransforms();
+    const targets = group.map((member) => transforms[member.symmetryIndex](nextCell));
+    if (!this.grid.reserve([nextCell, ...targets])) return false;
+    this.advanceHead(pipe, nextCell);
+    group.forEach((member, k) => this.advanceHead(member, targets[k]));
+
+    if (branchProbability > 0 && pipe.depth < maxBranchDepth && pipe.cells.length > 1 && this.rng() < branchProbability) {
+      this.forkBranches(pipe, group, pipe.cells[pipe.cells.length - 2]);
+    }
+    return true;
+  }
+
+  /** Appends an already reserved cell to the pipe, shrinking the tail past its max length. */
+  private advanceHead(pipe: Pipe, nextCell: Vec3): void {
+    const prevDir = pipe.lastDir;
+    pipe.prevHead = { ...pipe.head };
+    pipe.cells.push(nextCell);
+    pipe.lastDir = this.grid.delta(pipe.prevHead, nextCell);
+    if (prevDir && isSame(prevDir, pipe.lastDir)) {
+      pipe.straightRun++;
+      this.emit({
+        type: 'straight',
+        pipeId: pipe.id,
+        cell: { ...nextCell },
+        time: this.eventTime,
+        runLength: pipe.straightRun,
+      });
+    } else {
+      if (prevDir) {
+        this.emit({
+          type: 'turn',
+          pipeId: pipe.id,
+          cell: { ...pipe.prevHead },
+          time: this.eventTime,
+          from: { ...prevDir },
+          to: { ...pipe.lastDir },
+        });
+      }
+      pipe.straightRun = 0;
+    }
+    pipe.headLerp = 0;
+    pipe.version++;
+
+    const maxPipeLength = this.speciesOf(pipe)?.maxPipeLength ?? this.config.maxPipeLength;
+    if (!this.config.disableTailShrink && maxPipeLength > 0 && pipe.cells.length > maxPipeLength) {
+      const tail = pipe.cells.shift();
+      if (tail) {
+        this.releaseCell(pipe, tail);
+        pipe.version++;
+      }
+    }
+  }
+
+  /**
+   * Chooses the head's next cell. Candidates are plain `head + dir` offsets, so policies and
+   * steering see real directions even where a wrap-around grid crosses a face; callers wrap the
+   * result.
+   */
   private pickNextCell(pipe: Pipe): Vec3 | undefined {
     const head = pipe.head;
     const options: Vec3[] = [];
     let straight: Vec3 | undefined;
     for (const dir of DIRECTIONS) {
       const candidate = add(head, dir);
-      if (this.grid.isFree(candidate)) {
+      if (this.isGroupFree(candidate)) {
         options.push(candidate);
         if (pipe.lastDir && isSame(dir, pipe.lastDir)) {
           straight = candidate;
@@ -237,48 +989,302 @@ export class Simulation {
     }
     if (options.length === 0) return undefined;
 
-    if (straight && options.length > 1) {
-      const turnProb = clamp01(this.config.turnProbability);
-      const shouldGoStraight = this.rng() > turnProb;
-      if (shouldGoStraight) return straight;
-
-      const pick = Math.floor(this.rng() * (options.length - 1));
-      let k = 0;
-      for (const option of options) {
-        if (isSame(option, straight)) continue;
-        if (k === pick) return option;
-        k++;
+    // Beat sync holds pipes to their straight run between allowed ticks and can force the turn on them.
+    const beatSync = this.config.beatSync;
+    if (this.beatPosition && beatSync && straight) {
+      if (!onBeatGrid(beatSync.turnsOn, this.beatPosition)) return straight;
+      if (beatSync.forceTurns && options.length > 1) {
+        options.splice(options.indexOf(straight), 1);
+        straight = undefined;
+      }
+    }
+
+    const steered = this.steerOptions(options, head);
+    if (straight && !steered.includes(straight)) straight = undefined;
+    const policy = getGrowthPolicy(this.config.growthPolicy);
+    return policy(steered, straight, head, {
+      dims: this.grid.dims,
+      rng: this.rng,
+      turnProbability: this.speciesOf(pipe)?.turnProbability ?? this.config.turnProbability,
+      params: this.config.growthParams ?? DEFAULT_GROWTH_PARAMS,
+      time: this.elapsed,
+      isFree: (cell) => this.grid.isFree(cell),
+      wrapCell: (cell) => this.grid.wrapCell(cell),
+    });
+  }
+
+  /**
+   * Narrows the options to the ones best aligned with the steering field, on a `strength` roll, and
+   * leaves the growth policy to choose among them. Draws from the rng only while a field is active.
+   */
+  private steerOptions(options: Vec3[], head: Vec3): Vec3[] {
+    const field = this.config.steeringField ?? 'none';
+    const params = this.config.steeringParams ?? DEFAULT_STEERING_PARAMS;
+    if (field === 'none' || params.strength <= 0 || options.length < 2) return options;
+    if (this.rng() >= clamp01(params.strength)) return options;
+
+    const dir = sampleSteeringField(field, params, head, this.grid.dims, this.elapsed, { x: 0, y: 0, z: 0 });
+    if (Math.abs(dir.x) + Math.abs(dir.y) + Math.abs(dir.z) < 1e-9) return options;
+    let best = -Infinity;
+    let aligned: Vec3[] = [];
+    for (const option of options) {
+      const dot = (option.x - head.x) * dir.x + (option.y - head.y) * dir.y + (option.z - head.z) * dir.z;
+      if (dot > best + 1e-9) {
+        best = dot;
+        aligned = [option];
+      } else if (Math.abs(dot - best) <= 1e-9) {
+        aligned.push(option);
+      }
+    }
+    return aligned;
+  }
+
+  private maskShapeFor(mask: VoxelMask, dims: Vec3): Uint8Array {
+    const cached = this.maskShapeCache;
+    if (cached && isSame(cached.dims, dims)) return cached.shape;
+    const shape = rasterizeVoxelMask(mask, dims);
+    this.maskShapeCache = { dims: { ...dims }, shape };
+    return shape;
+  }
+
+  private createGrid(): OccupancyGrid {
+    const dims = resolveGridDims(this.config);
+    const grid = new OccupancyGrid(dims, this.config.wrap ?? false);
+    if (this.mask) {
+      grid.block(this.maskShapeFor(this.mask.mask, dims), this.mask.mode === 'obstacle' ? 1 : 0);
+    }
+    if (this.config.surfaceCrawl) grid.blockAwayFromSurfaces();
+    return grid;
+  }
+
+  private emit(event: SimulationEvent): void {
+    this.events.push(event);
+    if (this.events.length > MAX_PENDING_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_PENDING_EVENTS);
+    }
+  }
+
+  private groupTransforms(): CellTransform[] {
+    const mode = this.config.symmetry;
+    const dims = this.grid.dims;
+    const cached = this.transformCache;
+    if (cached && cached.mode === mode && isSame(cached.dims, dims)) return cached.transforms;
+    const transforms = symmetryTransforms(mode, dims);
+    this.transformCache = { mode, dims: { ...dims }, transforms };
+    return transforms;
+  }
+
+  /** Whether a leader may move to `cell`: it and every sibling image must be free and distinct. */
+  private isGroupFree(cell: Vec3): boolean {
+    const transforms = this.groupTransforms();
+    if (transforms.length === 1) return this.grid.isFree(cell);
+    const wrapped = this.grid.wrapCell(cell);
+    return this.grid.canReserve(transforms.map((transform) => transform(wrapped)));
+  }
+
+  /** Symmetry siblings keyed by their leader's id, in transform order. */
+  private followersByLeader(): Map<number, Pipe[]> {
+    const map = new Map<number, Pipe[]>();
+    for (const pipe of this.pipes) {
+      if (pipe.symmetryLeader === null) continue;
+      const list = map.get(pipe.symmetryLeader);
+      if (list) list.push(pipe);
+      else map.set(pipe.symmetryLeader, [pipe]);
+    }
+    for (const list of map.values()) list.sort((a, b) => a.symmetryIndex - b.symmetryIndex);
+    return map;
+  }
+
+  private intervalScaleOf(pipe: Pipe): number {
+    const scale = this.speciesOf(pipe)?.intervalScale ?? 1;
+    return Math.min(MAX_INTERVAL_SCALE, Math.max(MIN_INTERVAL_SCALE, scale));
+  }
+
+  private advanceWipe(wipe: SimulationWipe): void {
+    for (let k = 0; k < wipe.order.length; k++) {
+      if (wipe.start + k * wipe.stagger > this.eventTime) break;
+      const pipe = this.pipes.find((p) => p.id === wipe.order[k]);
+      if (pipe) this.startDying(pipe, 'wipe');
+    }
+  }
+
+  private startDying(pipe: Pipe, reason: DyingReason): void {
+    if (pipe.state === 'dying') return;
+    pipe.state = 'dying';
+    this.emit({ type: 'dying', pipeId: pipe.id, cell: { ...pipe.head }, time: this.eventTime, reason });
+    for (const sibling of this.pipes) {
+      if (sibling.symmetryLeader === pipe.id) this.startDying(sibling, reason);
+    }
+  }
+
+  private attachedChildren(pipe: Pipe): Pipe[] {
+    return this.pipes.filter((p) => p.parentId === pipe.id && p.forkCell !== null);
+  }
+
+  /** Frees a cell and detaches any branch whose junction sat on it. */
+  private releaseCell(pipe: Pipe, cell: Vec3): void {
+    this.grid.release(cell);
+    for (const child of this.pipes) {
+      if (child.parentId === pipe.id && child.forkCell && isSame(child.forkCell, cell)) {
+        child.forkCell = null;
+        child.version++;
       }
     }
+  }
+
+  private forkBranches(parent: Pipe, group: Pipe[], fork: Vec3): void {
+    const options = DIRECTIONS.map((dir) => add(fork, dir)).filter((cell) => this.isGroupFree(cell));
+    if (options.length === 0) return;
+    const first = options[Math.floor(this.rng() * options.length)];
+    this.spawnBranchGroup(parent, group, fork, this.grid.wrapCell(first));
+    const opposite = { x: 2 * fork.x - first.x, y: 2 * fork.y - first.y, z: 2 * fork.z - first.z };
+    if (this.isGroupFree(opposite) && this.rng() < BRANCH_CROSS_CHANCE) {
+      this.spawnBranchGroup(parent, group, fork, this.grid.wrapCell(opposite));
+    }
+  }
+
+  /** Forks a branch off the leader and the matching branch off each sibling, as a new group. */
+  private spawnBranchGroup(parent: Pipe, group: Pipe[], fork: Vec3, cell: Vec3): void {
+    const transforms = this.groupTransforms();
+    const leader = this.spawnBranch(parent, fork, cell);
+    for (const member of group) {
+      const transform = transforms[member.symmetryIndex];
+      this.spawnBranch(member, transform(fork), transform(cell), leader);
+    }
+  }
+
+  private spawnBranch(parent: Pipe, fork: Vec3, cell: Vec3, leader?: Pipe): Pipe {
+    // Siblings copy the leader's hue instead of drawing their own, so groups stay matched.
+    const colorSeed = leader ? leader.colorSeed : parent.colorSeed + (this.rng() - 0.5) * BRANCH_HUE_SPREAD;
+    const branch = { parentId: parent.id, forkCell: fork, depth: parent.depth + 1 };
+    const symmetry = leader ? { leader: leader.id, index: parent.symmetryIndex } : undefined;
+    const pipe = new Pipe(this.nextId++, cell, colorSeed, this.nextBirthIndex++, branch, parent.species, symmetry);
+    // Grow out of the junction so the branch animates like any other head step.
+    pipe.prevHead = { ...fork };
+    pipe.headLerp = 0;
+    pipe.lastDir = this.grid.delta(fork, cell);
+    this.grid.occupy(cell);
+    this.pipes.push(pipe);
+    this.emit({ type: 'spawn', pipeId: pipe.id, cell: { ...cell }, time: this.eventTime, parentId: parent.id });
+    return pipe;
+  }
 
-    const idx = Math.floor(this.rng() * options.length);
-    return options[idx];
+  /** Branches and symmetry siblings ride on their root, so the pipe cap only counts roots. */
+  private rootCount(): number {
+    let count = 0;
+    for (const pipe of this.pipes) {
+      if (isRoot(pipe)) count++;
+    }
+    return count;
   }
 
   private trySpawnUntil(target: number): void {
-    while (this.pipes.length < target) {
-      const spawnCell = this.grid.randomFreeCell(this.rng);
+    let roots = this.rootCount();
+    while (roots < target) {
+      const spawnCell = this.findSpawnCell();
       if (!spawnCell) break;
       this.spawnPipe(spawnCell);
+      roots++;
     }
   }
 
+  /** A free cell whose symmetry images are free too; plain runs take the first random free cell. */
+  private findSpawnCell(): Vec3 | undefined {
+    if (this.groupTransforms().length === 1) return this.grid.randomFreeCell(this.rng);
+    for (let attempt = 0; attempt < SYMMETRIC_SPAWN_ATTEMPTS; attempt++) {
+      const cell = this.grid.randomFreeCell(this.rng);
+      if (!cell) return undefined;
+      if (this.isGroupFree(cell)) return cell;
+    }
+    return undefined;
+  }
+
   private capIfNeeded(): void {
     const { targetPipeCount } = this.config;
-    if (this.pipes.length <= targetPipeCount) return;
+    if (this.rootCount() <= targetPipeCount) return;
 
-    for (let i = targetPipeCount; i < this.pipes.length; i++) {
-      this.pipes[i].state = 'dying';
+    let roots = 0;
+    for (const pipe of this.pipes) {
+      if (!isRoot(pipe)) continue;
+      roots++;
+      if (roots > targetPipeCount) this.startDying(pipe, 'cap');
+    }
+  }
+
+  /** Weighted species pick; draws from the rng only when there is a choice, so plain runs replay unchanged. */
+  private pickSpecies(): number {
+    const species = this.config.species ?? [];
+    if (species.length < 2) return 0;
+    const total = species.reduce((sum, s) => sum + Math.max(0, s.weight), 0);
+    if (total <= 0) return 0;
+    let roll = this.rng() * total;
+    for (let i = 0; i < species.length; i++) {
+      roll -= Math.max(0, species[i].weight);
+      if (roll < 0) return i;
     }
+    return species.length - 1;
   }
 
   private spawnPipe(cell: Vec3): void {
-    const pipe = new Pipe(this.nextId++, cell, this.rng(), this.nextBirthIndex++);
-    this.grid.occupy(cell);
-    this.pipes.push(pipe);
+    const colorSeed = this.rng();
+    const species = this.pickSpecies();
+    const transforms = this.groupTransforms();
+    const cells = transforms.map((transform) => transform(cell));
+    this.grid.reserve(cells);
+    let leader: Pipe | null = null;
+    cells.forEach((start, index) => {
+      const symmetry = leader ? { leader: leader.id, index } : undefined;
+      const pipe = new Pipe(this.nextId++, start, colorSeed, this.nextBirthIndex++, undefined, species, symmetry);
+      leader ??= pipe;
+      this.pipes.push(pipe);
+      this.emit({ type: 'spawn', pipeId: pipe.id, cell: { ...start }, time: this.eventTime, parentId: null });
+    });
   }
 }
 
+function wrapAxis(value: number, size: number): number {
+  return ((value % size) + size) % size;
+}
+
+/** The representative of `d` modulo `size` closest to zero. */
+function nearestImage(d: number, size: number): number {
+  const r = wrapAxis(d, size);
+  return r > size / 2 ? r - size : r;
+}
+
+function isRoot(pipe: Pipe): boolean {
+  return pipe.parentId === null && pipe.symmetryLeader === null;
+}
+
+function copyWipe(wipe: SimulationWipe | null | undefined): SimulationWipe | null {
+  return wipe ? { ...wipe, order: [...wipe.order] } : null;
+}
+
+function encodePipeHeader(pipe: Pipe, out: Int32Array, base: number): void {
+  out[base] = pipe.id;
+  out[base + 1] = pipe.version;
+  out[base + 2] = PIPE_STATES.indexOf(pipe.state);
+  out[base + 3] = pipe.parentId ?? -1;
+  out[base + 4] = pipe.birthIndex;
+  out[base + 5] = pipe.depth;
+  out[base + 6] = pipe.cells.length;
+  out[base + 7] = pipe.forkCell ? 1 : 0;
+  out[base + 8] = pipe.forkCell?.x ?? 0;
+  out[base + 9] = pipe.forkCell?.y ?? 0;
+  out[base + 10] = pipe.forkCell?.z ?? 0;
+  out[base + 11] = pipe.prevHead.x;
+  out[base + 12] = pipe.prevHead.y;
+  out[base + 13] = pipe.prevHead.z;
+  out[base + 14] = pipe.lastDir ? 1 : 0;
+  out[base + 15] = pipe.lastDir?.x ?? 0;
+  out[base + 16] = pipe.lastDir?.y ?? 0;
+  out[base + 17] = pipe.lastDir?.z ?? 0;
+  out[base + 18] = pipe.straightRun;
+  out[base + 19] = pipe.species;
+  out[base + 20] = pipe.symmetryLeader ?? -1;
+  out[base + 21] = pipe.symmetryIndex;
+}
+
 function isSame(a: Vec3, b: Vec3): boolean {
   return a.x === b.x && a.y === b.y && a.z === b.z;
 }
@@ -286,3 +1292,13 @@ function isSame(a: Vec3, b: Vec3): boolean {
 function clamp01(v: number): number {
   return Math.min(1, Math.max(0, v));
 }
+
+function copyConfig(config: SimulationConfig): SimulationConfig {
+  return {
+    ...config,
+    growthParams: config.growthParams ? { ...config.growthParams } : undefined,
+    steeringParams: config.steeringParams ? { ...config.steeringParams } : undefined,
+    beatSync: config.beatSync ? { ...config.beatSync } : undefined,
+    species: config.species ? copySpecies(config.species) : undefined,
+  };
+}
@@ -0,0 +1,42 @@
+import { createSeededRng } from './random';
+import { Simulation } from './simulation';
+import type { SimulationWorkerRequest, SimulationWorkerResponse } from './simulationWorkerClient';
+
+/**
+ * Worker side of `SimulationWorkerClient`: holds a copy of the simulation loaded from the main
+ * thread's snapshot, steps it on request and posts back what changed. The rng state travels with
+ * every snapshot and diff, so the seed used here does not matter.
+ */
+const ctx = self as unknown as Worker;
+let sim: Simulation | null = null;
+let loadId = 0;
+const knownVersions = new Map<number, number>();
+
+ctx.onmessage = (event: MessageEvent<SimulationWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'load') {
+    const { snapshot, mask } = request;
+    sim = new Simulation(snapshot.config, createSeededRng(0));
+    sim.setVoxelMask(mask?.mask ?? null, mask?.mode);
+    sim.deserialize(snapshot);
+    sim.drainEvents();
+    loadId = request.loadId;
+    // The main thread already holds every pipe at these versions.
+    knownVersions.clear();
+    for (const pipe of sim.pipes) knownVersions.set(pipe.id, pipe.version);
+    return;
+  }
+
+  if (!sim || request.loadId !== loadId) return;
+  sim.config = request.config;
+  const allStuck = sim.update(request.dt);
+  const diff = sim.createStepDiff(knownVersions, allStuck);
+  const response: SimulationWorkerResponse = { type: 'diff', loadId, diff };
+  ctx.postMessage(response, [
+    diff.order.buffer,
+    diff.headLerp.buffer,
+    diff.header.buffer,
+    diff.floats.buffer,
+    diff.cells.buffer,
+  ]);
+};
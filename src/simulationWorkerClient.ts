@@ -0,0 +1,121 @@
+import type { VoxelMask, VoxelMaskMode } from './voxelMask';
+import type { Simulation, SimulationConfig, SimulationSnapshot, SimulationStepDiff } from './simulation';
+
+export type SimulationWorkerRequest =
+  | {
+      type: 'load';
+      loadId: number;
+      snapshot: SimulationSnapshot;
+      mask: { mask: VoxelMask; mode: VoxelMaskMode } | null;
+    }
+  | { type: 'step'; loadId: number; dt: number; config: SimulationConfig };
+
+export type SimulationWorkerResponse = { type: 'diff'; loadId: number; diff: SimulationStepDiff };
+
+/**
+ * Steps a `Simulation` in a Web Worker and mirrors the results into it, so path growth, flood fills
+ * and branching stay off the render thread. The local simulation remains the source of truth: any
+ * change made to it directly (reset, seek, project load) is noticed through `revision` and the
+ * worker is reloaded from a fresh snapshot before the next step.
+ *
+ * Only one step is in flight at a time; frames that arrive meanwhile add their `dt` to the next
+ * request. Stepping is therefore a frame behind and not bit-exact with `Simulation.update`, which
+ * is why offline renders and timeline seeks keep stepping synchronously.
+ */
+export class SimulationWorkerClient {
+  private worker: Worker | null = null;
+  private failed = false;
+  private loadId = 0;
+  private syncedRevision = -1;
+  private inFlight = false;
+  private postedRevision = -1;
+  private pendingDt = 0;
+  private allStuck = false;
+  private readonly sim: Simulation;
+
+  constructor(sim: Simulation) {
+    this.sim = sim;
+  }
+
+  /** False once the worker failed to start or errored; callers should fall back to `sim.update`. */
+  get available(): boolean {
+    return !this.failed;
+  }
+
+  /**
+   * Queues `dt` seconds of growth. Returns whether the last mirrored step left every pipe stuck,
+   * like `Simulation.update`. Events of mirrored steps come out of `sim.drainEvents()` as usual.
+   */
+  update(dt: number): boolean {
+    const worker = this.ensureWorker();
+    if (!worker) return this.sim.update(dt);
+
+    if (this.sim.revision !== this.syncedRevision) {
+      this.loadId++;
+      this.inFlight = false;
+      this.pendingDt = 0;
+      this.allStuck = false;
+      const message: SimulationWorkerRequest = {
+        type: 'load',
+        loadId: this.loadId,
+        snapshot: this.sim.serialize(),
+        mask: this.sim.voxelMask,
+      };
+      worker.postMessage(message);
+      this.syncedRevision = this.sim.revision;
+    }
+
+    this.pendingDt += dt;
+    if (!this.inFlight) this.postStep(worker);
+    return this.allStuck;
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private postStep(worker: Worker): void {
+    const message: SimulationWorkerRequest = {
+      type: 'step',
+      loadId: this.loadId,
+      dt: this.pendingDt,
+      config: this.sim.config,
+    };
+    worker.postMessage(message);
+    this.pendingDt = 0;
+    this.inFlight = true;
+    this.postedRevision = this.sim.revision;
+  }
+
+  private handleResponse(response: SimulationWorkerResponse): void {
+    if (response.loadId !== this.loadId) return;
+    this.inFlight = false;
+    // Something stepped or reset the local copy while the worker was busy; the next `update`
+    // reloads the worker from it.
+    if (this.sim.revision !== this.postedRevision) return;
+
+    this.sim.applyStepDiff(response.diff);
+    this.syncedRevision = this.sim.revision;
+    this.allStuck = response.diff.allStuck;
+    if (this.pendingDt > 0 && this.worker) this.postStep(this.worker);
+  }
+
+  private ensureWorker(): Worker | null {
+    if (this.worker || this.failed) return this.worker;
+    try {
+      const worker = new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<SimulationWorkerResponse>) => this.handleResponse(event.data);
+      worker.onerror = (event) => {
+        console.error('Simulation worker failed; stepping on the main thread instead', event.message);
+        this.failed = true;
+        this.dispose();
+      };
+      this.worker = worker;
+    } catch (err) {
+      console.error('Could not start the simulation worker', err);
+      this.failed = true;
+    }
+    return this.worker;
+  }
+}
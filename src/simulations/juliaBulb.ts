@@ -31,12 +31,39 @@ export type JuliaBulbConfig = {
   edgeNeonWidth?: number;
 };
 
+type Vec3Tuple = [number, number, number];
+
+/** Motion state of every bulb, enough to resume `update` exactly from a checkpoint. */
+export type JuliaBulbSnapshot = {
+  lastSpeed: number;
+  lastTime: number;
+  bulbs: Array<{
+    position: Vec3Tuple;
+    quaternion: [number, number, number, number];
+    velocity: Vec3Tuple;
+    spinAxis: Vec3Tuple;
+    spawnTime: number;
+    scaleFactor: number;
+    radius: number;
+    limit: number;
+    shrinking: boolean;
+    shrinkStartTime: number;
+    shrinkStartScale: number;
+    hueOffset: number;
+    accentOffset: number;
+    satOffset: number;
+    lightOffset: number;
+  }>;
+};
+
 export type JuliaBulbVisual = {
   readonly mesh: Group;
   setVisible: (visible: boolean) => void;
   syncToRoom: (roomSize: number, wallInset: number, config: JuliaBulbConfig) => void;
   update: (dt: number, time: number, roomSize: number, wallInset: number, config: JuliaBulbConfig) => void;
   reset: (roomSize: number, wallInset: number, config: JuliaBulbConfig, time?: number) => void;
+  captureState: () => JuliaBulbSnapshot;
+  restoreState: (snapshot: JuliaBulbSnapshot, roomSize: number, wallInset: number, config: JuliaBulbConfig) => void;
   dispose: () => void;
 };
 
@@ -259,7 +286,11 @@ const FRAGMENT_SHADER = /* glsl */ `
   }
 `;
 
-export function createJuliaBulbVisual(layer: number, initialRoomSize: number): JuliaBulbVisual {
+export function createJuliaBulbVisual(
+  layer: number,
+  initialRoomSize: number,
+  opts: { rng?: () => number } = {}
+): JuliaBulbVisual {
   const geometry = new BoxGeometry(2, 2, 2);
   const createMaterial = () => {
     const material = new ShaderMaterial({
@@ -342,7 +373,9 @@ export function createJuliaBulbVisual(layer: number, initialRoomSize: number): J
   let lastTime = 0;
 
   const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
-  const rand = (min: number, max: number) => Math.random() * (max - min) + min;
+  // Spawn positions/velocities/colors come from the injected stream so seeded projects replay identically.
+  const random = opts.rng ?? Math.random;
+  const rand = (min: number, max: number) => random() * (max - min) + min;
   const wrapHue = (h: number) => {
     const wrapped = h % 1;
     return wrapped < 0 ? wrapped + 1 : wrapped;
@@ -802,6 +835,73 @@ export function createJuliaBulbVisual(layer: number, initialRoomSize: number): J
     }
   };
 
+  const captureState = (): JuliaBulbSnapshot => ({
+    lastSpeed,
+    lastTime,
+    bulbs: bulbs.map((bulb) => ({
+      position: bulb.mesh.position.toArray(),
+      quaternion: bulb.mesh.quaternion.toArray() as [number, number, number, number],
+      velocity: bulb.velocity.toArray(),
+      spinAxis: bulb.spinAxis.toArray(),
+      spawnTime: bulb.spawnTime,
+      scaleFactor: bulb.scaleFactor,
+      radius: bulb.radius,
+      limit: bulb.limit,
+      shrinking: bulb.shrinking,
+      shrinkStartTime: bulb.shrinkStartTime,
+      shrinkStartScale: bulb.shrinkStartScale,
+      hueOffset: bulb.hueOffset,
+      accentOffset: bulb.accentOffset,
+      satOffset: bulb.satOffset,
+      lightOffset: bulb.lightOffset,
+    })),
+  });
+
+  const restoreState = (snapshot: JuliaBulbSnapshot, roomSize: number, wallInset: number, config: JuliaBulbConfig) => {
+    while (bulbs.length) {
+      const bulb = bulbs.pop();
+      if (!bulb) break;
+      group.remove(bulb.mesh);
+      bulb.material.dispose();
+    }
+    lastSpeed = snapshot.lastSpeed;
+    lastTime = snapshot.lastTime;
+    for (const saved of snapshot.bulbs) {
+      const material = createMaterial();
+      const mesh = new Mesh(geometry, material);
+      mesh.layers.set(layer);
+      mesh.frustumCulled = false;
+      mesh.position.fromArray(saved.position);
+      mesh.quaternion.fromArray(saved.quaternion);
+      mesh.scale.setScalar(Math.max(0.001, roomSize * Math.max(0.001, saved.scaleFactor) * 0.5));
+      bulbs.push({
+        mesh,
+        material,
+        velocity: new Vector3().fromArray(saved.velocity),
+        spinAxis: new Vector3().fromArray(saved.spinAxis),
+        spawnTime: saved.spawnTime,
+        scaleFactor: saved.scaleFactor,
+        radius: saved.radius,
+        limit: saved.limit,
+        shrinking: saved.shrinking,
+        shrinkStartTime: saved.shrinkStartTime,
+        shrinkStartScale: saved.shrinkStartScale,
+        hueOffset: saved.hueOffset,
+        accentOffset: saved.accentOffset,
+        satOffset: saved.satOffset,
+        lightOffset: saved.lightOffset,
+        colorA: new Color(),
+        colorB: new Color(),
+        fogColor: new Color(),
+      });
+      group.add(mesh);
+    }
+    syncUniforms(lastTime, roomSize, wallInset, config);
+    for (const bulb of bulbs) {
+      updateTransform(bulb);
+    }
+  };
+
   reset(initialRoomSize, 0, {
     juliaBulbCount: 1,
     juliaScale: 0.32,
@@ -835,6 +935,8 @@ export function createJuliaBulbVisual(layer: number, initialRoomSize: number): J
     syncToRoom,
     update,
     reset,
+    captureState,
+    restoreState,
     dispose: () => {
       while (bulbs.length) {
         const bulb = bulbs.pop();
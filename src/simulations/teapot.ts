@@ -1,4 +1,4 @@
-import { Color, DoubleSide, Mesh, MeshPhysicalMaterial, Vector3 } from 'three';
+import { BufferGeometry, Color, DoubleSide, Mesh, MeshPhysicalMaterial, Vector3 } from 'three';
 import { TeapotGeometry } from 'three/examples/jsm/geometries/TeapotGeometry.js';
 
 export type TeapotVisual = {
@@ -15,6 +15,21 @@ export type TeapotVisual = {
   dispose: () => void;
 };
 
+/**
+ * Teapot geometry centered on the origin with its largest dimension scaled to 1, so callers can
+ * size it with a single uniform scale.
+ */
+export function createTeapotGeometry(segments = 18): BufferGeometry {
+  const geometry = new TeapotGeometry(1, segments, true, true, true, true, true);
+  geometry.computeBoundingBox();
+  const size = geometry.boundingBox ? geometry.boundingBox.getSize(new Vector3()) : new Vector3(1, 1, 1);
+  const inv = 1 / Math.max(1e-6, size.x, size.y, size.z);
+  geometry.center();
+  geometry.scale(inv, inv, inv);
+  geometry.computeBoundingBox();
+  return geometry;
+}
+
 export function createTeapotVisual(
   layer: number,
   initialRoomSize: number,
@@ -23,15 +38,7 @@ export function createTeapotVisual(
   const sizeFactor = Number.isFinite(opts.sizeFactor) ? (opts.sizeFactor as number) : 0.5;
 
   // Keep the source geometry normalized so we can scale to "half the room side" precisely.
-  const geometry = new TeapotGeometry(1, 18, true, true, true, true, true);
-  geometry.computeBoundingBox();
-
-  const tmpSize = new Vector3();
-  const bbox = geometry.boundingBox;
-  const size = bbox ? bbox.getSize(tmpSize) : tmpSize.set(1, 1, 1);
-  const baseMaxDim = Math.max(1e-6, size.x, size.y, size.z);
-
-  geometry.center();
+  const geometry = createTeapotGeometry(18);
 
   const material = new MeshPhysicalMaterial({
     color: new Color('#bfc3c7'),
@@ -49,7 +56,7 @@ export function createTeapotVisual(
   const syncToRoom = (roomSize: number) => {
     const safeRoom = Number.isFinite(roomSize) ? roomSize : 0;
     const target = safeRoom * sizeFactor;
-    mesh.scale.setScalar(target / baseMaxDim);
+    mesh.scale.setScalar(target);
   };
 
   const setMaterial = (params: { metalness: number; roughness: number }) => {
@@ -0,0 +1,195 @@
+import type { Vec3 } from './simulation';
+
+export const STEERING_FIELD_IDS = ['none', 'curl', 'gravity', 'vortex', 'point'] as const;
+export type SteeringFieldId = (typeof STEERING_FIELD_IDS)[number];
+
+export function normalizeSteeringFieldId(value: unknown): SteeringFieldId | null {
+  return (STEERING_FIELD_IDS as readonly unknown[]).includes(value) ? (value as SteeringFieldId) : null;
+}
+
+/**
+ * Tunables for every field, flat and numeric like the growth policy parameters so each one can be
+ * a GUI slider and a modulation target. Positions are normalized grid coordinates (0..1 per axis).
+ */
+export type SteeringParams = {
+  /** Chance (0..1) per growth step that a pipe follows the field instead of its growth policy alone. */
+  strength: number;
+  /** Curl noise: features per grid width, and how fast the noise drifts (per second). */
+  curlScale: number;
+  curlSpeed: number;
+  /** Gravity: height of the plane pipes sink (or rise) toward. */
+  gravityPlaneY: number;
+  /** Vortex: vertical axis position, swirl direction/speed and inward pull. */
+  vortexX: number;
+  vortexZ: number;
+  vortexSpin: number;
+  vortexPull: number;
+  /** Point attractor position, plus an orbit around the vertical axis (fraction of the grid, rad/s). */
+  pointX: number;
+  pointY: number;
+  pointZ: number;
+  pointOrbitRadius: number;
+  pointOrbitSpeed: number;
+};
+
+export const DEFAULT_STEERING_PARAMS: SteeringParams = {
+  strength: 0.5,
+  curlScale: 2,
+  curlSpeed: 0.15,
+  gravityPlaneY: 0,
+  vortexX: 0.5,
+  vortexZ: 0.5,
+  vortexSpin: 1,
+  vortexPull: 0.3,
+  pointX: 0.5,
+  pointY: 0.5,
+  pointZ: 0.5,
+  pointOrbitRadius: 0.3,
+  pointOrbitSpeed: 0.5,
+};
+
+export type SteeringParamSpec = {
+  key: keyof SteeringParams;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+};
+
+const STRENGTH_SPEC: SteeringParamSpec = { key: 'strength', label: 'Field strength', min: 0, max: 1, step: 0.01 };
+
+export const STEERING_FIELDS: Record<SteeringFieldId, { label: string; params: SteeringParamSpec[] }> = {
+  none: { label: 'None', params: [] },
+  curl: {
+    label: 'Curl noise',
+    params: [
+      STRENGTH_SPEC,
+      { key: 'curlScale', label: 'Noise scale', min: 0.25, max: 8, step: 0.05 },
+      { key: 'curlSpeed', label: 'Noise speed', min: 0, max: 2, step: 0.01 },
+    ],
+  },
+  gravity: {
+    label: 'Gravity toward plane',
+    params: [STRENGTH_SPEC, { key: 'gravityPlaneY', label: 'Plane height', min: 0, max: 1, step: 0.01 }],
+  },
+  vortex: {
+    label: 'Vortex',
+    params: [
+      STRENGTH_SPEC,
+      { key: 'vortexX', label: 'Axis X', min: 0, max: 1, step: 0.01 },
+      { key: 'vortexZ', label: 'Axis Z', min: 0, max: 1, step: 0.01 },
+      { key: 'vortexSpin', label: 'Spin', min: -1, max: 1, step: 0.01 },
+      { key: 'vortexPull', label: 'Inward pull', min: -1, max: 1, step: 0.01 },
+    ],
+  },
+  point: {
+    label: 'Point attractor',
+    params: [
+      STRENGTH_SPEC,
+      { key: 'pointX', label: 'Point X', min: 0, max: 1, step: 0.01 },
+      { key: 'pointY', label: 'Point Y', min: 0, max: 1, step: 0.01 },
+      { key: 'pointZ', label: 'Point Z', min: 0, max: 1, step: 0.01 },
+      { key: 'pointOrbitRadius', label: 'Orbit radius', min: 0, max: 0.5, step: 0.01 },
+      { key: 'pointOrbitSpeed', label: 'Orbit speed', min: -4, max: 4, step: 0.01 },
+    ],
+  },
+};
+
+/** Every parameter once (strength is shared by all fields), for building controls and modulation targets. */
+export const STEERING_PARAM_SPECS: SteeringParamSpec[] = STEERING_FIELD_IDS.flatMap((id) => STEERING_FIELDS[id].params)
+  .filter((spec, i, all) => all.findIndex((other) => other.key === spec.key) === i);
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+function hash3(x: number, y: number, z: number, seed: number): number {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(z, 2147483647) + Math.imul(seed, 144665);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+/** Smooth 3D value noise in [0, 1]; the same lattice-and-fade recipe as the curl shader's 2D noise. */
+function valueNoise(x: number, y: number, z: number, seed: number): number {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  const iz = Math.floor(z);
+  const fx = x - ix;
+  const fy = y - iy;
+  const fz = z - iz;
+  const ux = fx * fx * (3 - 2 * fx);
+  const uy = fy * fy * (3 - 2 * fy);
+  const uz = fz * fz * (3 - 2 * fz);
+  const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+  const corner = (dx: number, dy: number, dz: number) => hash3(ix + dx, iy + dy, iz + dz, seed);
+  return lerp(
+    lerp(lerp(corner(0, 0, 0), corner(1, 0, 0), ux), lerp(corner(0, 1, 0), corner(1, 1, 0), ux), uy),
+    lerp(lerp(corner(0, 0, 1), corner(1, 0, 1), ux), lerp(corner(0, 1, 1), corner(1, 1, 1), ux), uy),
+    uz
+  );
+}
+
+/**
+ * Curl of a noise vector potential, by central differences. Divergence-free, so pipes following it
+ * swirl around instead of piling up at sinks.
+ */
+function curlNoise(p: Vec3, t: number, out: Vec3): Vec3 {
+  const e = 0.1;
+  const potential = (x: number, y: number, z: number, axis: number) => valueNoise(x, y, z + t, axis * 17 + 3);
+  const d = (axis: number, dx: number, dy: number, dz: number) =>
+    (potential(p.x + dx * e, p.y + dy * e, p.z + dz * e, axis) - potential(p.x - dx * e, p.y - dy * e, p.z - dz * e, axis)) /
+    (2 * e);
+  out.x = d(2, 0, 1, 0) - d(1, 0, 0, 1);
+  out.y = d(0, 0, 0, 1) - d(2, 1, 0, 0);
+  out.z = d(1, 1, 0, 0) - d(0, 0, 1, 0);
+  return out;
+}
+
+export function steeringPoint(params: SteeringParams, dims: Vec3, time: number): Vec3 {
+  const angle = time * params.pointOrbitSpeed;
+  const radius = Math.max(0, params.pointOrbitRadius);
+  return {
+    x: (clamp01(params.pointX) + Math.cos(angle) * radius) * (dims.x - 1),
+    y: clamp01(params.pointY) * (dims.y - 1),
+    z: (clamp01(params.pointZ) + Math.sin(angle) * radius) * (dims.z - 1),
+  };
+}
+
+/**
+ * The field's direction at `cell` (grid coordinates) and `time` seconds, written into `out`. Only
+ * the direction matters to steering; a zero vector means the field has no opinion there.
+ */
+export function sampleSteeringField(
+  id: SteeringFieldId,
+  params: SteeringParams,
+  cell: Vec3,
+  dims: Vec3,
+  time: number,
+  out: Vec3
+): Vec3 {
+  out.x = 0;
+  out.y = 0;
+  out.z = 0;
+  if (id === 'curl') {
+    const scale = Math.max(0.01, params.curlScale) / Math.max(1, dims.x, dims.y, dims.z);
+    return curlNoise({ x: cell.x * scale, y: cell.y * scale, z: cell.z * scale }, time * params.curlSpeed, out);
+  }
+  if (id === 'gravity') {
+    out.y = clamp01(params.gravityPlaneY) * (dims.y - 1) - cell.y;
+    return out;
+  }
+  if (id === 'vortex') {
+    const rx = cell.x - clamp01(params.vortexX) * (dims.x - 1);
+    const rz = cell.z - clamp01(params.vortexZ) * (dims.z - 1);
+    const len = Math.hypot(rx, rz) || 1;
+    // Tangent around the vertical axis plus a radial component toward (or away from) it.
+    out.x = (-rz * params.vortexSpin - rx * params.vortexPull) / len;
+    out.z = (rx * params.vortexSpin - rz * params.vortexPull) / len;
+    return out;
+  }
+  if (id === 'point') {
+    const target = steeringPoint(params, dims, time);
+    out.x = target.x - cell.x;
+    out.y = target.y - cell.y;
+    out.z = target.z - cell.z;
+  }
+  return out;
+}
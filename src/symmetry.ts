@@ -0,0 +1,57 @@
+import type { Vec3 } from './simulation';
+
+export const SYMMETRY_MODES = ['none', 'mirrorX', 'mirrorXZ', 'mirrorXYZ', 'rotateY2', 'rotateY4'] as const;
+export type SymmetryMode = (typeof SYMMETRY_MODES)[number];
+
+export const SYMMETRY_LABELS: Record<string, SymmetryMode> = {
+  None: 'none',
+  'Mirror X (2)': 'mirrorX',
+  'Mirror X + Z (4)': 'mirrorXZ',
+  'Mirror X + Y + Z (8)': 'mirrorXYZ',
+  'Rotate around Y (2)': 'rotateY2',
+  'Rotate around Y (4)': 'rotateY4',
+};
+
+export function normalizeSymmetryMode(value: unknown): SymmetryMode | null {
+  return (SYMMETRY_MODES as readonly unknown[]).includes(value) ? (value as SymmetryMode) : null;
+}
+
+/** Maps a cell of the leading pipe to the matching cell of one sibling. */
+export type CellTransform = (cell: Vec3) => Vec3;
+
+const identity: CellTransform = (cell) => ({ ...cell });
+
+/**
+ * One transform per member of a symmetry group, the identity first. Mirrors reflect across the
+ * grid's center planes; rotations turn around the vertical center axis. A quarter turn only maps
+ * the grid onto itself when the X and Z sizes match, so 'rotateY4' falls back to a half turn on
+ * rectangular footprints.
+ */
+export function symmetryTransforms(mode: SymmetryMode | undefined, dims: Vec3): CellTransform[] {
+  const flip = (fx: boolean, fy: boolean, fz: boolean): CellTransform => (c) => ({
+    x: fx ? dims.x - 1 - c.x : c.x,
+    y: fy ? dims.y - 1 - c.y : c.y,
+    z: fz ? dims.z - 1 - c.z : c.z,
+  });
+  switch (mode) {
+    case 'mirrorX':
+      return [identity, flip(true, false, false)];
+    case 'mirrorXZ':
+      return [identity, flip(true, false, false), flip(false, false, true), flip(true, false, true)];
+    case 'mirrorXYZ': {
+      const out: CellTransform[] = [identity];
+      for (let mask = 1; mask < 8; mask++) out.push(flip((mask & 1) !== 0, (mask & 2) !== 0, (mask & 4) !== 0));
+      return out;
+    }
+    case 'rotateY2':
+      return [identity, flip(true, false, true)];
+    case 'rotateY4': {
+      if (dims.x !== dims.z) return [identity, flip(true, false, true)];
+      const n = dims.x - 1;
+      const quarter: CellTransform = (c) => ({ x: n - c.z, y: c.y, z: c.x });
+      return [identity, quarter, flip(true, false, true), (c) => quarter(quarter(quarter(c)))];
+    }
+    default:
+      return [identity];
+  }
+}
@@ -4,6 +4,7 @@ import Peaks, {
 } from 'peaks.js';
 import { ModulationManager, type EnvelopeConfig, type LfoConfig, type ModulationTarget, type Waveform } from './modulation';
 import { type ProjectFile, type ProjectTimeline, type ProjectSettings, parseProjectFile } from './project';
+import { createSeededRng, deriveSeed } from './random';
 
 export type RenderSchedule = {
   bpm: number;
@@ -303,27 +304,6 @@ export function initTimeline(options: TimelineInitOptions) {
 
   const TAU = Math.PI * 2;
 
-  const hashStringToSeed = (text: string) => {
-    // FNV-1a 32-bit hash
-    let h = 2166136261;
-    for (let i = 0; i < text.length; i++) {
-      h ^= text.charCodeAt(i);
-      h = Math.imul(h, 16777619);
-    }
-    return h >>> 0;
-  };
-
-  const mulberry32 = (seed: number) => {
-    let a = seed >>> 0;
-    return () => {
-      a |= 0;
-      a = (a + 0x6d2b79f5) | 0;
-      let t = Math.imul(a ^ (a >>> 15), 1 | a);
-      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-    };
-  };
-
   const wrap01 = (v: number) => ((v % 1) + 1) % 1;
   const expDecayWave = (t: number, k: number) => 2 * Math.exp(-k * t) - 1;
   const exp2DecayWave = (t: number, k: number) => 2 * Math.exp(-k * t * t) - 1;
@@ -1746,7 +1726,7 @@ export function initTimeline(options: TimelineInitOptions) {
           const effectiveFreq =
             coeff > 0 ? beatsPerSecond / (beatsPerBar * coeff) : 0;
 
-          const rng = mulberry32(hashStringToSeed(lfo.id));
+          const rng = createSeededRng(deriveSeed(modulation.getSeed(), lfo.id));
           let lastValue = 0;
           let holdValue = rng() * 2 - 1;
           let lastHoldTime = startTime;
@@ -2115,7 +2095,7 @@ export function initTimeline(options: TimelineInitOptions) {
             return padY + (1 - clamped) * (cssH - padY * 2);
           };
 
-          const rng = mulberry32(hashStringToSeed(env.id));
+          const rng = createSeededRng(deriveSeed(modulation.getSeed(), env.id));
           let holdValue = rng() * 2 - 1;
           let lastHoldTime = startTime;
 
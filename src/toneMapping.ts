@@ -0,0 +1,180 @@
+import {
+  ACESFilmicToneMapping,
+  AgXToneMapping,
+  FloatType,
+  LinearSRGBColorSpace,
+  NearestFilter,
+  NeutralToneMapping,
+  NoToneMapping,
+  ReinhardToneMapping,
+  SRGBColorSpace,
+  ShaderMaterial,
+  WebGLRenderTarget,
+  type ColorSpace,
+  type ToneMapping,
+  type WebGLRenderer,
+} from 'three';
+import { FullScreenQuad, Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+
+export const TONE_MAPPING_MODES = ['aces', 'agx', 'neutral', 'reinhard', 'none'] as const;
+export type ToneMappingMode = (typeof TONE_MAPPING_MODES)[number];
+
+export const TONE_MAPPING_LABELS: Record<string, ToneMappingMode> = {
+  'ACES Filmic': 'aces',
+  AgX: 'agx',
+  'Khronos Neutral': 'neutral',
+  Reinhard: 'reinhard',
+  'None (clip)': 'none',
+};
+
+const TONE_MAPPINGS: Record<ToneMappingMode, ToneMapping> = {
+  aces: ACESFilmicToneMapping,
+  agx: AgXToneMapping,
+  neutral: NeutralToneMapping,
+  reinhard: ReinhardToneMapping,
+  none: NoToneMapping,
+};
+
+export const OUTPUT_COLOR_SPACES = ['srgb', 'linear'] as const;
+export type OutputColorSpaceMode = (typeof OUTPUT_COLOR_SPACES)[number];
+
+export const OUTPUT_COLOR_SPACE_LABELS: Record<string, OutputColorSpaceMode> = {
+  sRGB: 'srgb',
+  'Linear sRGB': 'linear',
+};
+
+const COLOR_SPACES: Record<OutputColorSpaceMode, ColorSpace> = {
+  srgb: SRGBColorSpace,
+  linear: LinearSRGBColorSpace,
+};
+
+export function normalizeToneMappingMode(value: unknown): ToneMappingMode | null {
+  return (TONE_MAPPING_MODES as readonly unknown[]).includes(value) ? (value as ToneMappingMode) : null;
+}
+
+export function normalizeOutputColorSpace(value: unknown): OutputColorSpaceMode | null {
+  return (OUTPUT_COLOR_SPACES as readonly unknown[]).includes(value) ? (value as OutputColorSpaceMode) : null;
+}
+
+/** Sets the operator and transfer the output pass applies; it picks the change up on its next render. */
+export function applyToneMapping(renderer: WebGLRenderer, mode: ToneMappingMode, colorSpace: OutputColorSpaceMode) {
+  renderer.toneMapping = TONE_MAPPINGS[mode];
+  renderer.outputColorSpace = COLOR_SPACES[colorSpace];
+}
+
+/** Auto exposure never scales the manual exposure by more than this factor either way (±4 stops). */
+export const AUTO_EXPOSURE_LIMIT = 16;
+
+/**
+ * Eases an exposure factor toward `target` in log space, so brightening and darkening by the same
+ * number of stops take equally long. `speed` is the rate per second: half of the remaining gap
+ * closes every ln 2 / `speed` seconds, whatever the frame rate.
+ */
+export function adaptExposure(current: number, target: number, speed: number, dt: number): number {
+  if (!(current > 0) || !(target > 0)) return target > 0 ? target : 1;
+  const blend = 1 - Math.exp(-Math.max(0, speed) * Math.max(0, dt));
+  return Math.exp(Math.log(current) + (Math.log(target) - Math.log(current)) * blend);
+}
+
+const METER_SIZE = 16;
+const METER_TAPS = 4;
+
+const METER_SHADER = /* glsl */ `
+  uniform sampler2D tDiffuse;
+  varying vec2 vUv;
+
+  void main() {
+    vec2 cell = vec2(1.0 / ${METER_SIZE}.0);
+    vec2 origin = vUv - 0.5 * cell;
+    float sum = 0.0;
+    for (int y = 0; y < ${METER_TAPS}; y++) {
+      for (int x = 0; x < ${METER_TAPS}; x++) {
+        vec2 uv = origin + (vec2(float(x), float(y)) + 0.5) / ${METER_TAPS}.0 * cell;
+        vec3 color = texture2D(tDiffuse, uv).rgb;
+        sum += log(max(dot(color, vec3(0.2126, 0.7152, 0.0722)), 1e-4));
+      }
+    }
+    gl_FragColor = vec4(sum / ${METER_TAPS * METER_TAPS}.0, 0.0, 0.0, 1.0);
+  }
+`;
+
+/**
+ * Measures the frame without changing it: a 16×16 grid of cells, each averaging 4×4 taps of log
+ * luminance, is read back so `luminance` holds the frame's geometric mean. It goes before the
+ * output pass, where colors are still linear and unclipped.
+ */
+export class LuminanceMeterPass extends Pass {
+  /** Geometric mean luminance of the last measured frame; 0.18 until the first measurement. */
+  luminance = 0.18;
+  /**
+   * Read every frame back before the render continues. Offline renders need this to stay
+   * deterministic; otherwise the read is asynchronous, so live preview never stalls on the GPU and
+   * `luminance` trails the frame by however long the readback takes.
+   */
+  synchronous = false;
+  private reading = false;
+  private target = new WebGLRenderTarget(METER_SIZE, METER_SIZE, {
+    type: FloatType,
+    minFilter: NearestFilter,
+    magFilter: NearestFilter,
+    depthBuffer: false,
+  });
+  private pixels = new Float32Array(METER_SIZE * METER_SIZE * 4);
+  private asyncPixels = new Float32Array(METER_SIZE * METER_SIZE * 4);
+  private material = new ShaderMaterial({
+    name: 'LuminanceMeter',
+    uniforms: { tDiffuse: { value: null } },
+    vertexShader: /* glsl */ `
+      varying vec2 vUv;
+
+      void main() {
+        vUv = uv;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+      }
+    `,
+    fragmentShader: METER_SHADER,
+  });
+  private quad = new FullScreenQuad(this.material);
+
+  constructor() {
+    super();
+    this.needsSwap = false;
+  }
+
+  render(renderer: WebGLRenderer, _writeBuffer: WebGLRenderTarget, readBuffer: WebGLRenderTarget) {
+    // While an asynchronous read is in flight, live frames go unmeasured rather than queue more reads.
+    if (this.reading && !this.synchronous) return;
+    this.material.uniforms.tDiffuse.value = readBuffer.texture;
+    renderer.setRenderTarget(this.target);
+    this.quad.render(renderer);
+    if (this.synchronous) {
+      renderer.readRenderTargetPixels(this.target, 0, 0, METER_SIZE, METER_SIZE, this.pixels);
+      this.measure(this.pixels);
+      return;
+    }
+    this.reading = true;
+    renderer
+      .readRenderTargetPixelsAsync(this.target, 0, 0, METER_SIZE, METER_SIZE, this.asyncPixels)
+      // A read that lands after an offline render has started must not disturb its measurements.
+      .then(() => {
+        if (!this.synchronous) this.measure(this.asyncPixels);
+      })
+      .catch((err) => console.warn('Luminance readback failed', err))
+      .finally(() => {
+        this.reading = false;
+      });
+  }
+
+  private measure(pixels: Float32Array) {
+    let sum = 0;
+    for (let i = 0; i < pixels.length; i += 4) sum += pixels[i];
+    const luminance = Math.exp(sum / (METER_SIZE * METER_SIZE));
+    if (Number.isFinite(luminance)) this.luminance = luminance;
+  }
+
+  dispose() {
+    this.material.dispose();
+    this.quad.dispose();
+    this.target.dispose();
+  }
+}
@@ -0,0 +1,145 @@
+import type { Vec3 } from './simulation';
+
+/**
+ * A voxel shape in its own coordinate space (Y up). `voxels` packs filled cells as
+ * `[x0, y0, z0, x1, y1, z1, …]` so masks stay compact when embedded in project JSON.
+ */
+export type VoxelMask = {
+  name: string;
+  size: Vec3;
+  voxels: number[];
+};
+
+/** 'obstacle' blocks the shape's cells; 'containment' blocks everything outside the shape. */
+export type VoxelMaskMode = 'obstacle' | 'containment';
+
+export function normalizeVoxelMaskMode(value: unknown): VoxelMaskMode | null {
+  return value === 'obstacle' || value === 'containment' ? value : null;
+}
+
+export async function loadVoxelMaskFile(file: File): Promise<VoxelMask> {
+  const name = file.name.replace(/\.[^.]+$/, '') || 'mask';
+  if (/\.vox$/i.test(file.name)) {
+    return parseVoxFile(await file.arrayBuffer(), name);
+  }
+  return parseVoxelJson(await file.text(), name);
+}
+
+/**
+ * Reads the first model of a MagicaVoxel `.vox` file. MagicaVoxel is Z-up, so its Z becomes our Y.
+ */
+export function parseVoxFile(buffer: ArrayBuffer, name = 'mask'): VoxelMask {
+  const view = new DataView(buffer);
+  const readId = (offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+  if (buffer.byteLength < 20 || readId(0) !== 'VOX ') throw new Error('Not a MagicaVoxel .vox file');
+  if (readId(8) !== 'MAIN') throw new Error('Missing MAIN chunk in .vox file');
+
+  let size: Vec3 | null = null;
+  let voxels: number[] | null = null;
+  // MAIN has no content of its own; its children start right after its 12-byte header.
+  let offset = 20 + view.getInt32(12, true);
+  while (offset + 12 <= buffer.byteLength && !voxels) {
+    const id = readId(offset);
+    const contentSize = view.getInt32(offset + 4, true);
+    const childrenSize = view.getInt32(offset + 8, true);
+    const content = offset + 12;
+    if (id === 'SIZE' && !size) {
+      const sx = view.getInt32(content, true);
+      const sy = view.getInt32(content + 4, true);
+      const sz = view.getInt32(content + 8, true);
+      size = { x: sx, y: sz, z: sy };
+    } else if (id === 'XYZI' && size) {
+      const count = view.getInt32(content, true);
+      voxels = new Array(count * 3);
+      for (let i = 0; i < count; i++) {
+        const base = content + 4 + i * 4;
+        voxels[i * 3] = view.getUint8(base);
+        voxels[i * 3 + 1] = view.getUint8(base + 2);
+        voxels[i * 3 + 2] = view.getUint8(base + 1);
+      }
+    }
+    offset = content + contentSize + childrenSize;
+  }
+  if (!size || !voxels) throw new Error('No voxel model found in .vox file');
+  return { name, size, voxels };
+}
+
+/**
+ * Accepts either `{ "size": [x, y, z], "voxels": [[x, y, z], …] }` (size may also be `{x, y, z}`)
+ * or a bare array of `[x, y, z]` triplets, in which case the size is the bounding box.
+ */
+export function parseVoxelJson(text: string, name = 'mask'): VoxelMask {
+  const data = JSON.parse(text) as unknown;
+  const record = typeof data === 'object' && data !== null && !Array.isArray(data) ? (data as Record<string, unknown>) : null;
+  const list = Array.isArray(data) ? data : record?.voxels;
+  if (!Array.isArray(list)) throw new Error('Voxel JSON must be an array of [x, y, z] or have a "voxels" array');
+
+  const voxels: number[] = [];
+  const max = { x: 0, y: 0, z: 0 };
+  for (const entry of list) {
+    const triplet = Array.isArray(entry) ? entry : [entry?.x, entry?.y, entry?.z];
+    const [x, y, z] = triplet.map((v: unknown) => Math.floor(Number(v)));
+    if (![x, y, z].every((v) => Number.isFinite(v) && v >= 0)) continue;
+    voxels.push(x, y, z);
+    max.x = Math.max(max.x, x + 1);
+    max.y = Math.max(max.y, y + 1);
+    max.z = Math.max(max.z, z + 1);
+  }
+
+  const rawSize = record?.size;
+  const sizeArray = Array.isArray(rawSize)
+    ? rawSize
+    : typeof rawSize === 'object' && rawSize !== null
+      ? [(rawSize as Vec3).x, (rawSize as Vec3).y, (rawSize as Vec3).z]
+      : null;
+  const size = sizeArray
+    ? {
+        x: Math.max(max.x, Math.floor(Number(sizeArray[0])) || 0),
+        y: Math.max(max.y, Math.floor(Number(sizeArray[1])) || 0),
+        z: Math.max(max.z, Math.floor(Number(sizeArray[2])) || 0),
+      }
+    : max;
+  if (voxels.length === 0) throw new Error('Voxel JSON has no voxels');
+  return { name: String(record?.name ?? name), size, voxels };
+}
+
+/**
+ * Fits the mask into a grid of `dims` cells, scaled uniformly (nearest neighbour) and centered, and
+ * returns one flag per grid cell (x fastest, then y, then z) marking where the shape is.
+ */
+export function rasterizeVoxelMask(mask: VoxelMask, dims: Vec3): Uint8Array {
+  const out = new Uint8Array(dims.x * dims.y * dims.z);
+  const size = { x: Math.max(1, mask.size.x), y: Math.max(1, mask.size.y), z: Math.max(1, mask.size.z) };
+  const source = new Uint8Array(size.x * size.y * size.z);
+  for (let i = 0; i + 2 < mask.voxels.length; i += 3) {
+    const x = mask.voxels[i];
+    const y = mask.voxels[i + 1];
+    const z = mask.voxels[i + 2];
+    if (x < 0 || y < 0 || z < 0 || x >= size.x || y >= size.y || z >= size.z) continue;
+    source[x + y * size.x + z * size.x * size.y] = 1;
+  }
+
+  const scale = Math.min(dims.x / size.x, dims.y / size.y, dims.z / size.z);
+  const offset = {
+    x: (dims.x - size.x * scale) / 2,
+    y: (dims.y - size.y * scale) / 2,
+    z: (dims.z - size.z * scale) / 2,
+  };
+  for (let z = 0; z < dims.z; z++) {
+    const sz = Math.floor((z + 0.5 - offset.z) / scale);
+    if (sz < 0 || sz >= size.z) continue;
+    for (let y = 0; y < dims.y; y++) {
+      const sy = Math.floor((y + 0.5 - offset.y) / scale);
+      if (sy < 0 || sy >= size.y) continue;
+      for (let x = 0; x < dims.x; x++) {
+        const sx = Math.floor((x + 0.5 - offset.x) / scale);
+        if (sx < 0 || sx >= size.x) continue;
+        if (source[sx + sy * size.x + sz * size.x * size.y]) {
+          out[x + y * dims.x + z * dims.x * dims.y] = 1;
+        }
+      }
+    }
+  }
+  return out;
+}
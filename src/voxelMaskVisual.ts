@@ -0,0 +1,101 @@
+import { BoxGeometry, Color, DynamicDrawUsage, Group, InstancedMesh, Matrix4, MeshPhysicalMaterial } from 'three';
+import type { Vec3 } from './simulation';
+
+export type VoxelMaskDisplay = 'hidden' | 'solid' | 'wireframe';
+
+export function normalizeVoxelMaskDisplay(value: unknown): VoxelMaskDisplay | null {
+  return value === 'hidden' || value === 'solid' || value === 'wireframe' ? value : null;
+}
+
+export type VoxelMaskVisual = {
+  readonly group: Group;
+  /**
+   * Shows the mask shape (one flag per grid cell, x fastest) centered like the pipe grid. Only
+   * surface voxels are drawn, since interior ones are never visible.
+   */
+  sync: (shape: Uint8Array | null, dims: Vec3, display: VoxelMaskDisplay) => void;
+  dispose: () => void;
+};
+
+export function createVoxelMaskVisual(layer: number, color = '#8d96a3'): VoxelMaskVisual {
+  const geometry = new BoxGeometry(1, 1, 1);
+  const material = new MeshPhysicalMaterial({ color: new Color(color), metalness: 0.6, roughness: 0.35 });
+  const group = new Group();
+  let mesh = createMesh(1);
+  group.add(mesh);
+  let lastShape: Uint8Array | null = null;
+  let lastDisplay: VoxelMaskDisplay | null = null;
+
+  function createMesh(capacity: number) {
+    const next = new InstancedMesh(geometry, material, capacity);
+    next.layers.set(layer);
+    next.frustumCulled = false;
+    next.instanceMatrix.setUsage(DynamicDrawUsage);
+    next.count = 0;
+    return next;
+  }
+
+  const matrix = new Matrix4();
+
+  const sync = (shape: Uint8Array | null, dims: Vec3, display: VoxelMaskDisplay) => {
+    if (shape === lastShape && display === lastDisplay) return;
+    lastShape = shape;
+    lastDisplay = display;
+    material.wireframe = display === 'wireframe';
+    if (!shape || display === 'hidden') {
+      mesh.count = 0;
+      mesh.visible = false;
+      return;
+    }
+
+    const slice = dims.x * dims.y;
+    const filled = (x: number, y: number, z: number) =>
+      x >= 0 && y >= 0 && z >= 0 && x < dims.x && y < dims.y && z < dims.z && shape[x + y * dims.x + z * slice] !== 0;
+    const surface: number[] = [];
+    for (let z = 0; z < dims.z; z++) {
+      for (let y = 0; y < dims.y; y++) {
+        for (let x = 0; x < dims.x; x++) {
+          if (!filled(x, y, z)) continue;
+          const buried =
+            filled(x + 1, y, z) &&
+            filled(x - 1, y, z) &&
+            filled(x, y + 1, z) &&
+            filled(x, y - 1, z) &&
+            filled(x, y, z + 1) &&
+            filled(x, y, z - 1);
+          if (!buried) surface.push(x, y, z);
+        }
+      }
+    }
+
+    const count = surface.length / 3;
+    if (count > mesh.instanceMatrix.count) {
+      group.remove(mesh);
+      mesh.dispose();
+      mesh = createMesh(count);
+      group.add(mesh);
+    }
+    for (let i = 0; i < count; i++) {
+      matrix.makeTranslation(
+        surface[i * 3] - dims.x / 2 + 0.5,
+        surface[i * 3 + 1] - dims.y / 2 + 0.5,
+        surface[i * 3 + 2] - dims.z / 2 + 0.5
+      );
+      mesh.setMatrixAt(i, matrix);
+    }
+    mesh.count = count;
+    mesh.visible = count > 0;
+    mesh.instanceMatrix.needsUpdate = true;
+  };
+
+  return {
+    group,
+    sync,
+    dispose: () => {
+      group.removeFromParent();
+      mesh.dispose();
+      geometry.dispose();
+      material.dispose();
+    },
+  };
+}